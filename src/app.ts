@@ -13,6 +13,7 @@ import { requestLogger } from './middleware/logging.middleware';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import logger from './utils/logger';
 import { initializeDatabase, closeDatabase } from './utils/database';
+import { scheduleAnomalyDetection } from './services/anomaly.service';
 import routes from './routes';
 
 // Create Express app
@@ -70,9 +71,13 @@ const startServer = (): void => {
     logger.info(`🔗 API prefix: ${appConfig.apiPrefix}`);
   });
 
+  // Background jobs
+  const anomalyJob = scheduleAnomalyDetection();
+
   // Graceful shutdown
   const gracefulShutdown = (signal: string) => {
     logger.info(`${signal} received. Starting graceful shutdown...`);
+    if (anomalyJob) clearInterval(anomalyJob);
     server.close(() => {
       closeDatabase();
       logger.info('Server closed successfully');
@@ -4,6 +4,7 @@
  */
 
 import dotenv from 'dotenv';
+import { isValidTimeZone } from '../utils/timezone';
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +27,16 @@ export const appConfig = {
 
   // Caching
   cacheTTL: parseInt(process.env.CACHE_TTL || '300', 10), // 5 minutes default
+
+  // Currency that FX rates are quoted in and revenue is reported in by default
+  baseCurrency: (process.env.BASE_CURRENCY || 'KES').toUpperCase(),
+
+  // Reporting calendar: IANA timezone for period boundaries and first month (1-12) of the fiscal year
+  timezone: process.env.REPORT_TIMEZONE || 'UTC',
+  fiscalYearStartMonth: parseInt(process.env.FISCAL_YEAR_START_MONTH || '1', 10),
+
+  // Anomaly detection: minutes between runs (0 disables the job)
+  anomalyCheckIntervalMinutes: parseInt(process.env.ANOMALY_CHECK_INTERVAL_MINUTES || '60', 10),
 };
 
 // Validate required configuration
@@ -33,5 +44,21 @@ if (!appConfig.port) {
   throw new Error('PORT is required in environment variables');
 }
 
+if (!isValidTimeZone(appConfig.timezone)) {
+  throw new Error(`REPORT_TIMEZONE "${appConfig.timezone}" is not a valid IANA timezone`);
+}
+
+if (
+  !Number.isInteger(appConfig.fiscalYearStartMonth) ||
+  appConfig.fiscalYearStartMonth < 1 ||
+  appConfig.fiscalYearStartMonth > 12
+) {
+  throw new Error('FISCAL_YEAR_START_MONTH must be a month number between 1 and 12');
+}
+
+if (!Number.isInteger(appConfig.anomalyCheckIntervalMinutes) || appConfig.anomalyCheckIntervalMinutes < 0) {
+  throw new Error('ANOMALY_CHECK_INTERVAL_MINUTES must be a whole number of minutes (0 disables)');
+}
+
 export default appConfig;
 
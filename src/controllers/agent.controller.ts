@@ -0,0 +1,107 @@
+/**
+ * Agent Controller
+ * HTTP request handlers for agent management endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import {
+  listAgents,
+  getAgent,
+  createAgent,
+  updateAgent,
+  transferAgent,
+  deactivateAgent,
+  reactivateAgent,
+  deleteAgent,
+} from '../services/agent.service';
+import { CreateAgentInput, UpdateAgentInput, TransferAgentInput } from '../types/branch.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * List agents
+ * GET /api/agents?branchId=1&includeInactive=true
+ */
+export const getAgents = asyncHandler(async (req: Request, res: Response) => {
+  const agents = await listAgents({
+    branchId: req.query.branchId ? Number(req.query.branchId) : undefined,
+    includeInactive: req.query.includeInactive === 'true',
+  });
+
+  return sendSuccess(res, agents, 'Agents retrieved successfully');
+});
+
+/**
+ * Get a single agent with assignment history
+ * GET /api/agents/:id
+ */
+export const getAgentById = asyncHandler(async (req: Request, res: Response) => {
+  const agent = await getAgent(Number(req.params.id));
+
+  return sendSuccess(res, agent, 'Agent retrieved successfully');
+});
+
+/**
+ * Create an agent
+ * POST /api/agents
+ */
+export const postAgent = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as CreateAgentInput;
+  const agent = await createAgent(input, getActor(req));
+
+  return sendSuccess(res, agent, 'Agent created successfully', 201);
+});
+
+/**
+ * Update an agent
+ * PATCH /api/agents/:id
+ */
+export const patchAgent = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateAgentInput;
+  const agent = await updateAgent(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, agent, 'Agent updated successfully');
+});
+
+/**
+ * Move an agent to another branch
+ * POST /api/agents/:id/transfer
+ */
+export const postAgentTransfer = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as TransferAgentInput;
+  const result = await transferAgent(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, result, 'Agent transferred successfully');
+});
+
+/**
+ * Deactivate an agent
+ * POST /api/agents/:id/deactivate
+ */
+export const postAgentDeactivate = asyncHandler(async (req: Request, res: Response) => {
+  const agent = await deactivateAgent(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, agent, 'Agent deactivated successfully');
+});
+
+/**
+ * Reactivate an agent
+ * POST /api/agents/:id/reactivate
+ */
+export const postAgentReactivate = asyncHandler(async (req: Request, res: Response) => {
+  const agent = await reactivateAgent(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, agent, 'Agent reactivated successfully');
+});
+
+/**
+ * Delete an agent without leads
+ * DELETE /api/agents/:id
+ */
+export const removeAgent = asyncHandler(async (req: Request, res: Response) => {
+  await deleteAgent(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Agent deleted successfully');
+});
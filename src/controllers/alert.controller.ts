@@ -0,0 +1,75 @@
+/**
+ * Alert Controller
+ * HTTP request handlers for anomaly alerts
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { listAlerts, getAlert, acknowledgeAlert, resolveAlert } from '../services/alert.service';
+import {
+  AlertEntityType,
+  AlertMetric,
+  AlertQuery,
+  AlertStatus,
+  ResolveAlertInput,
+} from '../types/alert.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * List alerts
+ * GET /api/alerts?status=open&entityType=branch&metric=leads&page=1&pageSize=50
+ */
+export const getAlerts = asyncHandler(async (req: Request, res: Response) => {
+  const { status, entityType, entityId, metric, from, to, page, pageSize } = req.query as Record<
+    string,
+    string | undefined
+  >;
+  const query: AlertQuery = {
+    status: status as AlertStatus | undefined,
+    entityType: entityType as AlertEntityType | undefined,
+    entityId: entityId ? Number(entityId) : undefined,
+    metric: metric as AlertMetric | undefined,
+    from,
+    to,
+    page: page ? Number(page) : 1,
+    pageSize: pageSize ? Number(pageSize) : DEFAULT_PAGE_SIZE,
+  };
+  const alerts = await listAlerts(query);
+
+  return sendSuccess(res, alerts, 'Alerts retrieved successfully');
+});
+
+/**
+ * Get a single alert
+ * GET /api/alerts/:id
+ */
+export const getAlertById = asyncHandler(async (req: Request, res: Response) => {
+  const alert = await getAlert(Number(req.params.id));
+
+  return sendSuccess(res, alert, 'Alert retrieved successfully');
+});
+
+/**
+ * Acknowledge an alert
+ * POST /api/alerts/:id/acknowledge
+ */
+export const postAlertAcknowledge = asyncHandler(async (req: Request, res: Response) => {
+  const alert = await acknowledgeAlert(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, alert, 'Alert acknowledged successfully');
+});
+
+/**
+ * Resolve an alert
+ * POST /api/alerts/:id/resolve
+ */
+export const postAlertResolve = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as ResolveAlertInput;
+  const alert = await resolveAlert(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, alert, 'Alert resolved successfully');
+});
@@ -0,0 +1,70 @@
+/**
+ * Analytics Controller
+ * HTTP request handlers for lead analytics endpoints
+ */
+
+import { Request, Response } from 'express';
+import { getRequestFilters } from '../services/filter.service';
+import { getFunnelAnalysis } from '../services/funnel.service';
+import { getCohortAnalysis } from '../services/cohort.service';
+import { getTatDistribution } from '../services/tat.service';
+import { getLeadForecast } from '../services/forecast.service';
+import { CohortPeriod, FunnelBreakdown, TatBreakdown } from '../types/analytics.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Get the created → contacted → converted funnel
+ * GET /api/analytics/funnel?breakdown=branch
+ */
+export const getFunnel = asyncHandler(async (req: Request, res: Response) => {
+  const { breakdown, ...query } = req.query as Record<string, any>;
+  const filters = await getRequestFilters(query);
+
+  const funnel = await getFunnelAnalysis(filters, (breakdown || null) as FunnelBreakdown | null);
+
+  return sendSuccess(res, funnel, 'Funnel analysis retrieved successfully');
+});
+
+/**
+ * Get contact and conversion rates by creation cohort
+ * GET /api/analytics/cohorts?period=week
+ */
+export const getCohorts = asyncHandler(async (req: Request, res: Response) => {
+  const { period, ...query } = req.query as Record<string, any>;
+  const filters = await getRequestFilters(query);
+
+  const cohorts = await getCohortAnalysis(filters, (period || 'week') as CohortPeriod);
+
+  return sendSuccess(res, cohorts, 'Cohort analysis retrieved successfully');
+});
+
+/**
+ * Get the distribution of days from creation to first contact
+ * GET /api/analytics/tat-distribution?breakdown=agent
+ */
+export const getTurnAroundTimeDistribution = asyncHandler(async (req: Request, res: Response) => {
+  const { breakdown, ...query } = req.query as Record<string, any>;
+  const filters = await getRequestFilters(query);
+
+  const distribution = await getTatDistribution(filters, (breakdown || null) as TatBreakdown | null);
+
+  return sendSuccess(res, distribution, 'Turn around time distribution retrieved successfully');
+});
+
+/**
+ * Forecast daily leads and sold revenue, or backtest the model on held-out history
+ * GET /api/analytics/forecast?horizon=14&backtest=true
+ */
+export const getForecast = asyncHandler(async (req: Request, res: Response) => {
+  const { horizon, backtest, ...query } = req.query as Record<string, any>;
+  const filters = await getRequestFilters(query);
+
+  const forecast = await getLeadForecast(
+    filters,
+    horizon ? parseInt(horizon, 10) : undefined,
+    backtest === 'true'
+  );
+
+  return sendSuccess(res, forecast, 'Forecast retrieved successfully');
+});
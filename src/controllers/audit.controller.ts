@@ -0,0 +1,35 @@
+/**
+ * Audit Controller
+ * HTTP request handlers for the audit trail
+ */
+
+import { Request, Response } from 'express';
+import { listAuditEvents } from '../services/audit.service';
+import { AuditEntityType, AuditEventQuery } from '../types/audit.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { asyncHandler } from '../middleware/error.middleware';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * List audit events
+ * GET /api/audit-events?entityType=lead&entityId=1&actor=jane&page=1&pageSize=50
+ */
+export const getAuditEvents = asyncHandler(async (req: Request, res: Response) => {
+  const { entityType, entityId, actor, from, to, page, pageSize } = req.query as Record<
+    string,
+    string | undefined
+  >;
+  const query: AuditEventQuery = {
+    entityType: entityType as AuditEntityType | undefined,
+    entityId: entityId ? Number(entityId) : undefined,
+    actor,
+    from,
+    to,
+    page: page ? Number(page) : 1,
+    pageSize: pageSize ? Number(pageSize) : DEFAULT_PAGE_SIZE,
+  };
+  const events = await listAuditEvents(query);
+
+  return sendSuccess(res, events, 'Audit events retrieved successfully');
+});
@@ -0,0 +1,72 @@
+/**
+ * Branch Controller
+ * HTTP request handlers for branch management endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import {
+  listBranches,
+  getBranch,
+  createBranch,
+  updateBranch,
+  deleteBranch,
+} from '../services/branch.service';
+import { CreateBranchInput, UpdateBranchInput } from '../types/branch.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * List branches
+ * GET /api/branches?countryId=1
+ */
+export const getBranches = asyncHandler(async (req: Request, res: Response) => {
+  const branches = await listBranches(
+    req.query.countryId ? Number(req.query.countryId) : undefined
+  );
+
+  return sendSuccess(res, branches, 'Branches retrieved successfully');
+});
+
+/**
+ * Get a single branch
+ * GET /api/branches/:id
+ */
+export const getBranchById = asyncHandler(async (req: Request, res: Response) => {
+  const branch = await getBranch(Number(req.params.id));
+
+  return sendSuccess(res, branch, 'Branch retrieved successfully');
+});
+
+/**
+ * Create a branch
+ * POST /api/branches
+ */
+export const postBranch = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as CreateBranchInput;
+  const branch = await createBranch(input, getActor(req));
+
+  return sendSuccess(res, branch, 'Branch created successfully', 201);
+});
+
+/**
+ * Update a branch
+ * PATCH /api/branches/:id
+ */
+export const patchBranch = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateBranchInput;
+  const branch = await updateBranch(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, branch, 'Branch updated successfully');
+});
+
+/**
+ * Delete a branch
+ * DELETE /api/branches/:id
+ */
+export const removeBranch = asyncHandler(async (req: Request, res: Response) => {
+  await deleteBranch(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Branch deleted successfully');
+});
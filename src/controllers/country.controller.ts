@@ -0,0 +1,70 @@
+/**
+ * Country Controller
+ * HTTP request handlers for country management endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import {
+  listCountries,
+  getCountry,
+  createCountry,
+  updateCountry,
+  deleteCountry,
+} from '../services/country.service';
+import { CreateCountryInput, UpdateCountryInput } from '../types/branch.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * List countries
+ * GET /api/countries
+ */
+export const getCountries = asyncHandler(async (_req: Request, res: Response) => {
+  const countries = await listCountries();
+
+  return sendSuccess(res, countries, 'Countries retrieved successfully');
+});
+
+/**
+ * Get a single country
+ * GET /api/countries/:id
+ */
+export const getCountryById = asyncHandler(async (req: Request, res: Response) => {
+  const country = await getCountry(Number(req.params.id));
+
+  return sendSuccess(res, country, 'Country retrieved successfully');
+});
+
+/**
+ * Create a country
+ * POST /api/countries
+ */
+export const postCountry = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as CreateCountryInput;
+  const country = await createCountry(input, getActor(req));
+
+  return sendSuccess(res, country, 'Country created successfully', 201);
+});
+
+/**
+ * Update a country
+ * PATCH /api/countries/:id
+ */
+export const patchCountry = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateCountryInput;
+  const country = await updateCountry(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, country, 'Country updated successfully');
+});
+
+/**
+ * Delete a country
+ * DELETE /api/countries/:id
+ */
+export const removeCountry = asyncHandler(async (req: Request, res: Response) => {
+  await deleteCountry(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Country deleted successfully');
+});
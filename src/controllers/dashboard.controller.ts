@@ -5,34 +5,42 @@
 
 import { Request, Response } from 'express';
 import { getDashboardData } from '../services/dashboard.service';
-import { parseFilters, getDefaultFilters, validateFilters } from '../services/filter.service';
-import { getFilterOptions } from '../repositories/data.repository';
+import { getStageTimeAnalytics } from '../services/stage.service';
+import { getTimeSeriesData } from '../services/timeseries.service';
+import {
+  parseFilters,
+  getDefaultFilters,
+  getRequestFilters,
+  prepareFilters,
+} from '../services/filter.service';
+import { getSavedView, getDefaultViewFilters, mergeViewFilters } from '../services/savedView.service';
+import { getFilterOptions, getDependentFilterOptions } from '../repositories/data.repository';
 import { sendSuccess, sendError } from '../utils/apiResponse';
 import { asyncHandler } from '../middleware/error.middleware';
+import { getActor } from '../utils/audit';
+import { AppError } from '../utils/AppError';
 import logger from '../utils/logger';
 import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import { TimeSeriesGranularity, TimeSeriesGroup } from '../types/dashboard.types';
 
 /**
  * Get dashboard data
- * GET /api/dashboard
+ * GET /api/dashboard?view=<id>
+ * A saved view supplies the filters; explicit query parameters override it. Without
+ * any parameters the caller's default view (or the last 30 days) is used.
  */
 export const getDashboard = asyncHandler(async (req: Request, res: Response) => {
   try {
-    // Parse filters from query parameters
-    const filters = Object.keys(req.query).length > 0
-      ? parseFilters(req.query as Record<string, any>)
-      : getDefaultFilters();
-
-    // Validate filters
-    const validation = validateFilters(filters);
-    if (!validation.valid) {
-      return sendError(
-        res,
-        'Invalid filter parameters',
-        400,
-        validation.errors.join(', ')
-      );
-    }
+    const { view, ...query } = req.query as Record<string, any>;
+    const actor = getActor(req);
+
+    // Parse, validate and resolve filters from the view and/or query parameters
+    const filters = view
+      ? await prepareFilters(mergeViewFilters((await getSavedView(Number(view), actor)).filters, query))
+      : Object.keys(query).length > 0
+        ? await getRequestFilters(query)
+        : await prepareFilters((await getDefaultViewFilters(actor)) ?? getDefaultFilters());
 
     logger.info('Fetching dashboard data', { filters });
 
@@ -45,6 +53,10 @@ export const getDashboard = asyncHandler(async (req: Request, res: Response) =>
       'Dashboard data retrieved successfully'
     );
   } catch (error: any) {
+    // Operational errors (e.g. a currency without FX rates) keep their status code
+    if (error instanceof AppError) {
+      throw error;
+    }
     logger.error('Error fetching dashboard data:', error);
     return sendError(
       res,
@@ -57,12 +69,36 @@ export const getDashboard = asyncHandler(async (req: Request, res: Response) =>
 
 /**
  * Get filter options
- * GET /api/dashboard/filters
+ * GET /api/dashboard/filters?includeInactive=true
+ * With dashboard filters in the query, only options still reachable under them are
+ * returned, each with its lead count and revenue
  */
-export const getFilters = asyncHandler(async (_req: Request, res: Response) => {
+export const getFilters = asyncHandler(async (req: Request, res: Response) => {
   try {
+    const includeInactive = req.query.includeInactive === 'true';
+    const filters = parseFilters(req.query as Record<string, any>);
+
+    if (Object.keys(filters).length > 0) {
+      const resolved = await prepareFilters(filters);
+      const dependentKey = `filter:options:dependent:${includeInactive ? 'all:' : ''}${serializeFilters(resolved)}`;
+      const cachedDependent = cache.get(dependentKey);
+
+      if (cachedDependent) {
+        logger.info('Returning cached dependent filter options');
+        return sendSuccess(res, cachedDependent, 'Filter options retrieved successfully (cached)');
+      }
+
+      logger.info('Fetching dependent filter options', { filters: resolved });
+      const dependent = await getDependentFilterOptions(resolved, includeInactive);
+
+      // Shorter TTL than the global options: counts move with every lead update
+      cache.set(dependentKey, dependent, 300);
+
+      return sendSuccess(res, dependent, 'Filter options retrieved successfully');
+    }
+
     // Check cache first
-    const cacheKey = 'filter:options';
+    const cacheKey = includeInactive ? 'filter:options:all' : 'filter:options';
     const cached = cache.get(cacheKey);
 
     if (cached) {
@@ -77,10 +113,11 @@ export const getFilters = asyncHandler(async (_req: Request, res: Response) => {
     logger.info('Fetching fresh filter options');
 
     // Get filter options from database
-    const options = await getFilterOptions();
+    const options = await getFilterOptions(includeInactive);
 
     // Add "All" option to each filter
     const optionsWithAll = {
+      countries: [{ value: '', label: 'All Countries' }, ...options.countries],
       branches: [{ value: '', label: 'All Branches' }, ...options.branches],
       agents: [{ value: '', label: 'All Agents' }, ...options.agents],
       products: [{ value: '', label: 'All Products' }, ...options.products],
@@ -97,6 +134,9 @@ export const getFilters = asyncHandler(async (_req: Request, res: Response) => {
       'Filter options retrieved successfully'
     );
   } catch (error: any) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     logger.error('Error fetching filter options:', error);
     return sendError(
       res,
@@ -107,3 +147,72 @@ export const getFilters = asyncHandler(async (_req: Request, res: Response) => {
   }
 });
 
+
+/**
+ * Get time-in-stage analytics
+ * GET /api/dashboard/stage-times
+ */
+export const getStageTimes = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const filters = await getRequestFilters(req.query as Record<string, any>);
+
+    logger.info('Fetching stage time analytics', { filters });
+
+    const data = await getStageTimeAnalytics(filters);
+
+    return sendSuccess(
+      res,
+      data,
+      'Stage time analytics retrieved successfully'
+    );
+  } catch (error: any) {
+    // Operational errors (e.g. an ambiguous agent name) keep their status code
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logger.error('Error fetching stage time analytics:', error);
+    return sendError(
+      res,
+      'Failed to retrieve stage time analytics',
+      500,
+      error.message
+    );
+  }
+});
+
+/**
+ * Get lead and revenue time series
+ * GET /api/dashboard/timeseries?granularity=week&groupBy=branch
+ */
+export const getTimeSeries = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { granularity, groupBy, ...query } = req.query as Record<string, any>;
+    const filters = await getRequestFilters(query);
+
+    logger.info('Fetching time series', { filters, granularity, groupBy });
+
+    const data = await getTimeSeriesData(
+      filters,
+      (granularity || 'day') as TimeSeriesGranularity,
+      (groupBy || null) as TimeSeriesGroup | null
+    );
+
+    return sendSuccess(
+      res,
+      data,
+      'Time series retrieved successfully'
+    );
+  } catch (error: any) {
+    // Operational errors (e.g. too many buckets) keep their status code
+    if (error instanceof AppError) {
+      throw error;
+    }
+    logger.error('Error fetching time series:', error);
+    return sendError(
+      res,
+      'Failed to retrieve time series',
+      500,
+      error.message
+    );
+  }
+});
@@ -0,0 +1,23 @@
+/**
+ * Ingest Controller
+ * HTTP request handlers for CRM webhook endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { ingestLeadEvents } from '../services/ingest.service';
+import { LeadEventInput } from '../types/ingest.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Ingest a batch of CRM lead events
+ * POST /api/ingest/lead-events
+ */
+export const postLeadEvents = asyncHandler(async (req: Request, res: Response) => {
+  const { events } = matchedData(req, { locations: ['body'] }) as { events: LeadEventInput[] };
+  const result = await ingestLeadEvents(events, getActor(req));
+
+  return sendSuccess(res, result, 'Lead events processed successfully');
+});
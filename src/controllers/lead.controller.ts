@@ -0,0 +1,97 @@
+/**
+ * Lead Controller
+ * HTTP request handlers for lead endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { getLead, createLead, updateLead, deleteLead } from '../services/lead.service';
+import { importLeadsFromCsv } from '../services/import.service';
+import { listLeadCalls, logCall } from '../services/call.service';
+import { CreateLeadInput, UpdateLeadInput } from '../types/lead.types';
+import { LogCallInput } from '../types/call.types';
+import { sendSuccess, sendError } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Get a single lead
+ * GET /api/leads/:id
+ */
+export const getLeadById = asyncHandler(async (req: Request, res: Response) => {
+  const lead = await getLead(Number(req.params.id));
+
+  return sendSuccess(res, lead, 'Lead retrieved successfully');
+});
+
+/**
+ * Create a lead
+ * POST /api/leads
+ */
+export const postLead = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as CreateLeadInput;
+  const lead = await createLead(input, getActor(req));
+
+  return sendSuccess(res, lead, 'Lead created successfully', 201);
+});
+
+/**
+ * Update a lead
+ * PATCH /api/leads/:id
+ */
+export const patchLead = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateLeadInput;
+  const lead = await updateLead(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, lead, 'Lead updated successfully');
+});
+
+/**
+ * Soft-delete a lead
+ * DELETE /api/leads/:id
+ */
+export const removeLead = asyncHandler(async (req: Request, res: Response) => {
+  await deleteLead(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Lead deleted successfully');
+});
+
+/**
+ * List the calls made to a lead
+ * GET /api/leads/:id/calls
+ */
+export const getLeadCalls = asyncHandler(async (req: Request, res: Response) => {
+  const calls = await listLeadCalls(Number(req.params.id));
+
+  return sendSuccess(res, calls, 'Calls retrieved successfully');
+});
+
+/**
+ * Log a call attempt against a lead
+ * POST /api/leads/:id/calls
+ */
+export const postLeadCall = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as LogCallInput;
+  const call = await logCall(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, call, 'Call logged successfully', 201);
+});
+
+/**
+ * Bulk import leads from a CSV body
+ * POST /api/leads/import?dryRun=true
+ */
+export const importLeads = asyncHandler(async (req: Request, res: Response) => {
+  if (typeof req.body !== 'string' || req.body.trim() === '') {
+    return sendError(res, 'Request body must be CSV text (Content-Type: text/csv)', 400);
+  }
+
+  const dryRun = req.query.dryRun === 'true';
+  const result = await importLeadsFromCsv(req.body, { dryRun }, getActor(req));
+
+  const message = dryRun
+    ? `Dry run complete: ${result.accepted.length} rows valid, ${result.errors.length} rejected`
+    : `Import complete: ${result.accepted.length} leads imported, ${result.errors.length} rejected`;
+
+  return sendSuccess(res, result, message, dryRun || result.accepted.length === 0 ? 200 : 201);
+});
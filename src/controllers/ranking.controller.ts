@@ -0,0 +1,49 @@
+/**
+ * Ranking Controller
+ * HTTP request handlers for branch rankings and ranking settings
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { getRequestFilters } from '../services/filter.service';
+import {
+  getBranchRankingTable,
+  getRankingSettings,
+  updateRankingSettings,
+} from '../services/ranking.service';
+import { UpdateRankingSettingsInput } from '../types/ranking.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * Get every branch ranked by score with a per-component breakdown
+ * GET /api/rankings/branches?dateRange=last30days
+ */
+export const getBranchRankings = asyncHandler(async (req: Request, res: Response) => {
+  const filters = await getRequestFilters(req.query as Record<string, any>);
+  const table = await getBranchRankingTable(filters);
+
+  return sendSuccess(res, table, 'Branch rankings retrieved successfully');
+});
+
+/**
+ * Get the ranking normalisation method and weights
+ * GET /api/rankings/settings
+ */
+export const getSettings = asyncHandler(async (_req: Request, res: Response) => {
+  const settings = await getRankingSettings();
+
+  return sendSuccess(res, settings, 'Ranking settings retrieved successfully');
+});
+
+/**
+ * Change the ranking normalisation method and/or weights
+ * PUT /api/rankings/settings
+ */
+export const putSettings = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateRankingSettingsInput;
+  const settings = await updateRankingSettings(input, getActor(req));
+
+  return sendSuccess(res, settings, 'Ranking settings updated successfully');
+});
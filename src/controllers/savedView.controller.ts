@@ -0,0 +1,70 @@
+/**
+ * Saved View Controller
+ * HTTP request handlers for saved dashboard view endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import {
+  listSavedViews,
+  getSavedView,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+} from '../services/savedView.service';
+import { CreateSavedViewInput, UpdateSavedViewInput } from '../types/savedView.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * List the saved views visible to the caller
+ * GET /api/saved-views
+ */
+export const getSavedViews = asyncHandler(async (req: Request, res: Response) => {
+  const views = await listSavedViews(getActor(req));
+
+  return sendSuccess(res, views, 'Saved views retrieved successfully');
+});
+
+/**
+ * Get a single saved view
+ * GET /api/saved-views/:id
+ */
+export const getSavedViewById = asyncHandler(async (req: Request, res: Response) => {
+  const view = await getSavedView(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, view, 'Saved view retrieved successfully');
+});
+
+/**
+ * Create a saved view
+ * POST /api/saved-views
+ */
+export const postSavedView = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as CreateSavedViewInput;
+  const view = await createSavedView(input, getActor(req));
+
+  return sendSuccess(res, view, 'Saved view created successfully', 201);
+});
+
+/**
+ * Update a saved view
+ * PATCH /api/saved-views/:id
+ */
+export const patchSavedView = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as UpdateSavedViewInput;
+  const view = await updateSavedView(Number(req.params.id), input, getActor(req));
+
+  return sendSuccess(res, view, 'Saved view updated successfully');
+});
+
+/**
+ * Delete a saved view
+ * DELETE /api/saved-views/:id
+ */
+export const removeSavedView = asyncHandler(async (req: Request, res: Response) => {
+  await deleteSavedView(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Saved view deleted successfully');
+});
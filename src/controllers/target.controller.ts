@@ -0,0 +1,55 @@
+/**
+ * Target Controller
+ * HTTP request handlers for target endpoints
+ */
+
+import { Request, Response } from 'express';
+import { matchedData } from 'express-validator';
+import { listTargets, setTarget, deleteTarget } from '../services/target.service';
+import { SetTargetInput, TargetListOptions } from '../types/target.types';
+import { sendSuccess } from '../utils/apiResponse';
+import { getActor } from '../utils/audit';
+import { asyncHandler } from '../middleware/error.middleware';
+
+/**
+ * List targets
+ * GET /api/targets?branchId=1&agentId=2&from=2025-01-01&to=2025-04-01
+ */
+export const getTargets = asyncHandler(async (req: Request, res: Response) => {
+  const { branchId, agentId, from, to } = req.query as Record<string, string | undefined>;
+  const options: TargetListOptions = {
+    branchId: branchId ? Number(branchId) : undefined,
+    agentId: agentId ? Number(agentId) : undefined,
+    from,
+    to,
+  };
+  const targets = await listTargets(options);
+
+  return sendSuccess(res, targets, 'Targets retrieved successfully');
+});
+
+/**
+ * Set a target (creates it, or updates the target for the same scope and period)
+ * POST /api/targets
+ */
+export const postTarget = asyncHandler(async (req: Request, res: Response) => {
+  const input = matchedData(req, { locations: ['body'] }) as SetTargetInput;
+  const { target, created } = await setTarget(input, getActor(req));
+
+  return sendSuccess(
+    res,
+    target,
+    created ? 'Target created successfully' : 'Target updated successfully',
+    created ? 201 : 200
+  );
+});
+
+/**
+ * Delete a target
+ * DELETE /api/targets/:id
+ */
+export const removeTarget = asyncHandler(async (req: Request, res: Response) => {
+  await deleteTarget(Number(req.params.id), getActor(req));
+
+  return sendSuccess(res, null, 'Target deleted successfully');
+});
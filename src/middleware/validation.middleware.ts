@@ -33,42 +33,806 @@ export const validate = (validations: ValidationChain[]) => {
 /**
  * Dashboard query parameter validators
  */
-import { query } from 'express-validator';
+import { query, body, param } from 'express-validator';
+import { LEAD_STATUSES, LEAD_PRODUCTS, LEAD_SEGMENTS } from '../types/lead.types';
+import { CALL_OUTCOMES } from '../types/call.types';
+import { AUDIT_ENTITY_TYPES } from '../types/audit.types';
+import { LEAD_EVENT_TYPES, MAX_INGEST_EVENTS } from '../types/ingest.types';
+import {
+  COMPARISON_PERIODS,
+  DATE_RANGES,
+  RANGE_FILTERS,
+  TIME_SERIES_GRANULARITIES,
+  TIME_SERIES_GROUPS,
+} from '../types/dashboard.types';
+import { SAVED_VIEW_SCOPES } from '../types/savedView.types';
+import { ALERT_ENTITY_TYPES, ALERT_METRICS, ALERT_STATUSES } from '../types/alert.types';
+import { RANKING_COMPONENTS, RANKING_METHODS } from '../types/ranking.types';
+import {
+  COHORT_PERIODS,
+  FUNNEL_BREAKDOWNS,
+  MAX_FORECAST_HORIZON,
+  TAT_BREAKDOWNS,
+} from '../types/analytics.types';
+import { isDateBound, parseDateBound } from '../utils/dateRange';
+import { EXCLUDE_PREFIX, MAX_FILTER_VALUES, splitFilterValues } from '../utils/filters';
+
+/**
+ * Multi-value filter: repeated and/or comma-separated values, a "!" prefix excludes a value
+ */
+const valueListQuery = (field: string) =>
+  query(field)
+    .optional({ values: 'falsy' })
+    .custom((_value, { req }) => {
+      // Check the whole parameter: repeated values are otherwise validated one at a time
+      const values = splitFilterValues(req.query?.[field]);
+      return (
+        values.length <= MAX_FILTER_VALUES &&
+        values.every(
+          (item) => item.slice(item.startsWith(EXCLUDE_PREFIX) ? EXCLUDE_PREFIX.length : 0).length <= 100
+        )
+      );
+    })
+    .withMessage(
+      `${field} accepts up to ${MAX_FILTER_VALUES} values of at most 100 characters each`
+    );
+
+/**
+ * Multi-value ID filter: positive integers, repeated and/or comma-separated, "!" excludes
+ */
+const idListQuery = (field: string) =>
+  query(field)
+    .optional({ values: 'falsy' })
+    .custom((_value, { req }) => {
+      const values = splitFilterValues(req.query?.[field]);
+      return values.length <= MAX_FILTER_VALUES && values.every((item) => /^!?[1-9]\d*$/.test(item));
+    })
+    .withMessage(`${field} accepts up to ${MAX_FILTER_VALUES} positive integer IDs`);
 
 export const validateDashboardQuery = [
   query('dateRange')
     .optional({ values: 'falsy' })
-    .isIn(['last7days', 'last30days', 'last90days', 'lastYear', 'all'])
-    .withMessage('dateRange must be one of: last7days, last30days, last90days, lastYear, all'),
+    .isIn([...DATE_RANGES])
+    .withMessage(`dateRange must be one of: ${DATE_RANGES.join(', ')}`),
+
+  query('startDate')
+    .optional({ values: 'falsy' })
+    .custom(isDateBound)
+    .withMessage('startDate must be a date (YYYY-MM-DD) or a timestamp (YYYY-MM-DDTHH:mm[:ss])'),
+
+  query('endDate')
+    .optional({ values: 'falsy' })
+    .custom(isDateBound)
+    .withMessage('endDate must be a date (YYYY-MM-DD) or a timestamp (YYYY-MM-DDTHH:mm[:ss])')
+    .bail()
+    .custom((value: string, { req }) => {
+      const startDate = req.query?.startDate;
+      return (
+        !isDateBound(startDate) ||
+        parseDateBound(startDate, 'start') < parseDateBound(value, 'end')
+      );
+    })
+    .withMessage('endDate must be after startDate'),
+
+  valueListQuery('country'),
+
+  valueListQuery('branch'),
+
+  valueListQuery('agent'),
+
+  valueListQuery('product'),
+
+  valueListQuery('segment'),
+
+  valueListQuery('campaign'),
+
+  query('status')
+    .optional({ values: 'falsy' })
+    .custom((_value, { req }) => {
+      const values = splitFilterValues(req.query?.status);
+      return values.every((item) =>
+        (LEAD_STATUSES as readonly string[]).includes(
+          item.slice(item.startsWith(EXCLUDE_PREFIX) ? EXCLUDE_PREFIX.length : 0)
+        )
+      );
+    })
+    .withMessage(`status accepts: ${LEAD_STATUSES.join(', ')}`),
+
+  idListQuery('branchId'),
+
+  idListQuery('agentId'),
+
+  query([...RANGE_FILTERS])
+    .optional({ values: 'falsy' })
+    .isFloat({ min: 0 })
+    .withMessage('minRevenue, maxRevenue, minDaysToContact and maxDaysToContact must be non-negative numbers'),
+
+  query('maxRevenue')
+    .optional({ values: 'falsy' })
+    .custom((value: string, { req }) => !req.query?.minRevenue || Number(req.query.minRevenue) <= Number(value))
+    .withMessage('maxRevenue must not be less than minRevenue'),
+
+  query('maxDaysToContact')
+    .optional({ values: 'falsy' })
+    .custom(
+      (value: string, { req }) =>
+        !req.query?.minDaysToContact || Number(req.query.minDaysToContact) <= Number(value)
+    )
+    .withMessage('maxDaysToContact must not be less than minDaysToContact'),
+
+  query('contacted')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('contacted must be true or false'),
+
+  query('compareTo')
+    .optional({ values: 'falsy' })
+    .isIn([...COMPARISON_PERIODS])
+    .withMessage(`compareTo must be one of: ${COMPARISON_PERIODS.join(', ')}`),
 
-  query('branch')
+  query('currency')
     .optional({ values: 'falsy' })
     .trim()
-    .isLength({ max: 100 })
-    .withMessage('branch must not exceed 100 characters'),
+    .matches(/^[A-Za-z]{3}$/)
+    .withMessage('currency must be a 3-letter ISO 4217 code'),
+
+  query('includeDeleted')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('includeDeleted must be true or false'),
+
+  query('view')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('view must be a positive integer'),
+];
+
+
+/**
+ * Time series query validator: dashboard filters plus bucket size and grouping
+ */
+export const validateTimeSeriesQuery = [
+  ...validateDashboardQuery,
+
+  query('granularity')
+    .optional({ values: 'falsy' })
+    .isIn([...TIME_SERIES_GRANULARITIES])
+    .withMessage(`granularity must be one of: ${TIME_SERIES_GRANULARITIES.join(', ')}`),
+
+  query('groupBy')
+    .optional({ values: 'falsy' })
+    .isIn([...TIME_SERIES_GROUPS])
+    .withMessage(`groupBy must be one of: ${TIME_SERIES_GROUPS.join(', ')}`),
+];
 
-  query('agent')
+/**
+ * Funnel query validator: dashboard filters plus an optional breakdown
+ */
+export const validateFunnelQuery = [
+  ...validateDashboardQuery,
+
+  query('breakdown')
+    .optional({ values: 'falsy' })
+    .isIn([...FUNNEL_BREAKDOWNS])
+    .withMessage(`breakdown must be one of: ${FUNNEL_BREAKDOWNS.join(', ')}`),
+];
+
+/**
+ * Cohort query validator: dashboard filters plus the cohort period
+ */
+export const validateCohortQuery = [
+  ...validateDashboardQuery,
+
+  query('period')
+    .optional({ values: 'falsy' })
+    .isIn([...COHORT_PERIODS])
+    .withMessage(`period must be one of: ${COHORT_PERIODS.join(', ')}`),
+];
+
+/**
+ * Turn around time distribution query validator: dashboard filters plus the breakdown
+ */
+export const validateTatDistributionQuery = [
+  ...validateDashboardQuery,
+
+  query('breakdown')
     .optional({ values: 'falsy' })
+    .isIn([...TAT_BREAKDOWNS])
+    .withMessage(`breakdown must be one of: ${TAT_BREAKDOWNS.join(', ')}`),
+];
+
+/**
+ * Forecast query validator: dashboard filters (the history window) plus horizon and mode
+ */
+export const validateForecastQuery = [
+  ...validateDashboardQuery,
+
+  query('horizon')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1, max: MAX_FORECAST_HORIZON })
+    .withMessage(`horizon must be an integer between 1 and ${MAX_FORECAST_HORIZON} days`),
+
+  query('backtest')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('backtest must be true or false'),
+];
+
+/**
+ * Numeric :id route parameter validator
+ */
+export const validateIdParam = [
+  param('id')
+    .isInt({ min: 1 })
+    .withMessage('id must be a positive integer')
+    .toInt(),
+];
+
+/**
+ * Shared validators for optional lead fields
+ */
+const leadFieldValidators = [
+  body('status')
+    .optional()
+    .isIn([...LEAD_STATUSES])
+    .withMessage(`status must be one of: ${LEAD_STATUSES.join(', ')}`),
+
+  body('product')
+    .optional({ values: 'null' })
+    .isIn([...LEAD_PRODUCTS])
+    .withMessage(`product must be one of: ${LEAD_PRODUCTS.join(', ')}`),
+
+  body('segment')
+    .optional({ values: 'null' })
+    .isIn([...LEAD_SEGMENTS])
+    .withMessage(`segment must be one of: ${LEAD_SEGMENTS.join(', ')}`),
+
+  body('campaign')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('campaign must be 1-100 characters'),
+
+  body('revenue')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('revenue must be a non-negative number')
+    .toFloat(),
+
+  body('currency')
+    .optional()
+    .isString()
+    .trim()
+    .toUpperCase()
+    .matches(/^[A-Z]{3}$/)
+    .withMessage('currency must be a 3-letter ISO 4217 code'),
+];
+
+/**
+ * Create lead body validator
+ */
+export const validateCreateLead = [
+  body('branchId')
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer')
+    .toInt(),
+
+  body('agentId')
+    .isInt({ min: 1 })
+    .withMessage('agentId must be a positive integer')
+    .toInt(),
+
+  ...leadFieldValidators,
+];
+
+/**
+ * Update lead body validator
+ */
+export const validateUpdateLead = [
+  ...validateIdParam,
+
+  body('branchId')
+    .not()
+    .exists()
+    .withMessage('branchId cannot be changed'),
+
+  body('agentId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('agentId must be a positive integer')
+    .toInt(),
+
+  ...leadFieldValidators,
+];
+
+/**
+ * Lead CSV import query validator
+ */
+export const validateLeadImport = [
+  query('dryRun')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('dryRun must be true or false'),
+];
+
+/**
+ * Log call body validator
+ */
+export const validateLogCall = [
+  ...validateIdParam,
+
+  body('outcome')
+    .isIn([...CALL_OUTCOMES])
+    .withMessage(`outcome must be one of: ${CALL_OUTCOMES.join(', ')}`),
+
+  body('agentId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('agentId must be a positive integer')
+    .toInt(),
+
+  body('durationSeconds')
+    .optional()
+    .isInt({ min: 0, max: 86400 })
+    .withMessage('durationSeconds must be an integer between 0 and 86400')
+    .toInt(),
+
+  body('calledAt')
+    .optional()
+    .isISO8601()
+    .withMessage('calledAt must be an ISO 8601 date'),
+
+  body('notes')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('notes must not exceed 1000 characters'),
+];
+
+/**
+ * CRM lead event batch validator
+ */
+export const validateIngestLeadEvents = [
+  body('events')
+    .isArray({ min: 1, max: MAX_INGEST_EVENTS })
+    .withMessage(`events must be an array of 1 to ${MAX_INGEST_EVENTS} events`),
+
+  body('events.*.idempotencyKey')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('idempotencyKey is required and must not exceed 200 characters'),
+
+  body('events.*.externalId')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('externalId is required and must not exceed 100 characters'),
+
+  body('events.*.type')
+    .isIn([...LEAD_EVENT_TYPES])
+    .withMessage(`type must be one of: ${LEAD_EVENT_TYPES.join(', ')}`),
+
+  body('events.*.occurredAt')
+    .isISO8601()
+    .withMessage('occurredAt must be an ISO 8601 date'),
+
+  body('events.*.data')
+    .optional()
+    .isObject()
+    .withMessage('data must be an object'),
+
+  body('events.*.data.branch')
+    .optional()
+    .isString()
     .trim()
     .isLength({ max: 100 })
-    .withMessage('agent must not exceed 100 characters'),
+    .withMessage('data.branch must not exceed 100 characters'),
 
-  query('product')
-    .optional({ values: 'falsy' })
+  body('events.*.data.agent')
+    .optional()
+    .isString()
     .trim()
     .isLength({ max: 100 })
-    .withMessage('product must not exceed 100 characters'),
+    .withMessage('data.agent must not exceed 100 characters'),
 
-  query('segment')
-    .optional({ values: 'falsy' })
+  body('events.*.data.campaign')
+    .optional({ values: 'null' })
+    .isString()
     .trim()
     .isLength({ max: 100 })
-    .withMessage('segment must not exceed 100 characters'),
+    .withMessage('data.campaign must not exceed 100 characters'),
+
+  body('events.*.data.revenue')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('data.revenue must be a non-negative number')
+    .toFloat(),
 
-  query('campaign')
+  body('events.*.data.currency')
+    .optional()
+    .matches(/^[A-Za-z]{3}$/)
+    .withMessage('data.currency must be a 3-letter ISO 4217 code')
+    .toUpperCase(),
+];
+
+/**
+ * Create / update country body validators
+ */
+export const validateCreateCountry = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name is required and must not exceed 100 characters'),
+
+  body('code')
+    .isString()
+    .trim()
+    .isISO31661Alpha2()
+    .withMessage('code must be an ISO 3166-1 alpha-2 country code'),
+];
+
+export const validateUpdateCountry = [
+  ...validateIdParam,
+
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name must be 1-100 characters'),
+
+  body('code')
+    .optional()
+    .isString()
+    .trim()
+    .isISO31661Alpha2()
+    .withMessage('code must be an ISO 3166-1 alpha-2 country code'),
+];
+
+/**
+ * Branch list query validator
+ */
+export const validateBranchList = [
+  query('countryId')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('countryId must be a positive integer'),
+];
+
+/**
+ * Create / update branch body validators
+ */
+export const validateCreateBranch = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name is required and must not exceed 100 characters'),
+
+  body('countryId')
+    .isInt({ min: 1 })
+    .withMessage('countryId must be a positive integer')
+    .toInt(),
+];
+
+export const validateUpdateBranch = [
+  ...validateIdParam,
+
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name must be 1-100 characters'),
+
+  body('countryId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('countryId must be a positive integer')
+    .toInt(),
+];
+
+/**
+ * Agent list query validator
+ */
+export const validateAgentList = [
+  query('branchId')
     .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer'),
+
+  query('includeInactive')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('includeInactive must be true or false'),
+];
+
+/**
+ * Create / update agent body validators
+ */
+export const validateCreateAgent = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name is required and must not exceed 100 characters'),
+
+  body('branchId')
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer')
+    .toInt(),
+
+  body('email')
+    .optional({ values: 'null' })
+    .isEmail()
+    .withMessage('email must be a valid email address'),
+];
+
+export const validateUpdateAgent = [
+  ...validateIdParam,
+
+  body('name')
+    .optional()
+    .isString()
     .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name must be 1-100 characters'),
+
+  body('email')
+    .optional({ values: 'null' })
+    .isEmail()
+    .withMessage('email must be a valid email address'),
+
+  body('branchId')
+    .not()
+    .exists()
+    .withMessage('use POST /api/agents/:id/transfer to move an agent to another branch'),
+];
+
+/**
+ * Agent transfer body validator
+ */
+export const validateTransferAgent = [
+  ...validateIdParam,
+
+  body('branchId')
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer')
+    .toInt(),
+
+  body('effectiveDate')
+    .optional()
+    .isISO8601()
+    .withMessage('effectiveDate must be an ISO 8601 date'),
+];
+
+/**
+ * Target list query validator
+ */
+export const validateTargetList = [
+  query(['branchId', 'agentId'])
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('branchId and agentId must be positive integers'),
+
+  query(['from', 'to'])
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('from and to must be ISO 8601 dates'),
+];
+
+/**
+ * Set target body validator
+ */
+export const validateSetTarget = [
+  body(['branchId', 'agentId'])
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('branchId and agentId must be positive integers')
+    .toInt(),
+
+  body(['periodStart', 'periodEnd'])
+    .isISO8601()
+    .withMessage('periodStart and periodEnd are required ISO 8601 dates'),
+
+  body('revenueTarget')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('revenueTarget must be a non-negative number')
+    .toFloat(),
+
+  body('leadTarget')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('leadTarget must be a non-negative integer')
+    .toInt(),
+];
+
+/**
+ * Audit event query validator
+ */
+export const validateAuditQuery = [
+  query('entityType')
+    .optional({ values: 'falsy' })
+    .isIn([...AUDIT_ENTITY_TYPES])
+    .withMessage(`entityType must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`),
+
+  query('entityId')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('entityId must be a positive integer'),
+
+  query('actor')
+    .optional({ values: 'falsy' })
     .isLength({ max: 100 })
-    .withMessage('campaign must not exceed 100 characters'),
+    .withMessage('actor must not exceed 100 characters'),
+
+  query(['from', 'to'])
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('from and to must be ISO 8601 dates'),
+
+  query('page')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('page must be a positive integer'),
+
+  query('pageSize')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1, max: 200 })
+    .withMessage('pageSize must be between 1 and 200'),
 ];
 
+/**
+ * Alert list query validator
+ */
+export const validateAlertQuery = [
+  query('status')
+    .optional({ values: 'falsy' })
+    .isIn([...ALERT_STATUSES])
+    .withMessage(`status must be one of: ${ALERT_STATUSES.join(', ')}`),
+
+  query('entityType')
+    .optional({ values: 'falsy' })
+    .isIn([...ALERT_ENTITY_TYPES])
+    .withMessage(`entityType must be one of: ${ALERT_ENTITY_TYPES.join(', ')}`),
+
+  query('entityId')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('entityId must be a positive integer'),
+
+  query('metric')
+    .optional({ values: 'falsy' })
+    .isIn([...ALERT_METRICS])
+    .withMessage(`metric must be one of: ${ALERT_METRICS.join(', ')}`),
+
+  query(['from', 'to'])
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('from and to must be ISO 8601 dates'),
+
+  query('page')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('page must be a positive integer'),
+
+  query('pageSize')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1, max: 200 })
+    .withMessage('pageSize must be between 1 and 200'),
+];
+
+/**
+ * Resolve alert validator
+ */
+export const validateResolveAlert = [
+  ...validateIdParam,
+
+  body('resolution')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('resolution must not exceed 500 characters'),
+];
+
+/**
+ * Ranking settings body validators
+ * Weights are relative and may be given for any subset of components
+ */
+export const validateUpdateRankingSettings = [
+  body('method')
+    .optional()
+    .isIn([...RANKING_METHODS])
+    .withMessage(`method must be one of: ${RANKING_METHODS.join(', ')}`),
+
+  body('weights')
+    .optional()
+    .isObject()
+    .withMessage('weights must be an object')
+    .custom((weights: Record<string, unknown>) => {
+      const unknown = Object.keys(weights).filter(
+        (key) => !(RANKING_COMPONENTS as readonly string[]).includes(key)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`weights only accepts: ${RANKING_COMPONENTS.join(', ')}`);
+      }
+      return true;
+    }),
+
+  body(RANKING_COMPONENTS.map((component) => `weights.${component}`))
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('each weight must be a number between 0 and 100')
+    .toFloat(),
+];
+
+/**
+ * Create / update saved view body validators
+ * Filters use the /api/dashboard query parameter names; they are checked in the service
+ */
+export const validateCreateSavedView = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name is required and must not exceed 100 characters'),
+
+  body('filters')
+    .optional()
+    .isObject()
+    .withMessage('filters must be an object of dashboard filter parameters'),
+
+  body('isDefault')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('isDefault must be true or false'),
+
+  body('scope')
+    .optional()
+    .isIn([...SAVED_VIEW_SCOPES])
+    .withMessage(`scope must be one of: ${SAVED_VIEW_SCOPES.join(', ')}`),
+
+  body('branchId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer')
+    .toInt(),
+];
+
+export const validateUpdateSavedView = [
+  ...validateIdParam,
+
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('name must be 1-100 characters'),
+
+  body('filters')
+    .optional()
+    .isObject()
+    .withMessage('filters must be an object of dashboard filter parameters'),
+
+  body('isDefault')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('isDefault must be true or false'),
+
+  body('scope')
+    .optional()
+    .isIn([...SAVED_VIEW_SCOPES])
+    .withMessage(`scope must be one of: ${SAVED_VIEW_SCOPES.join(', ')}`),
+
+  body('branchId')
+    .optional({ values: 'null' })
+    .isInt({ min: 1 })
+    .withMessage('branchId must be a positive integer')
+    .toInt(),
+];
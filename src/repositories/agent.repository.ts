@@ -0,0 +1,301 @@
+/**
+ * Agent Repository
+ * Data access layer for agent management using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import { AgentDetails, AgentListOptions } from '../types/branch.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const agentInclude = {
+  branch: true,
+  _count: {
+    select: { leads: { where: { deletedAt: null } } },
+  },
+} satisfies Prisma.AgentInclude;
+
+type AgentWithRelations = Prisma.AgentGetPayload<{ include: typeof agentInclude }>;
+
+/**
+ * Map a Prisma agent (with branch and lead count) to the API shape
+ */
+const toAgentDetails = (agent: AgentWithRelations): AgentDetails => ({
+  id: agent.id,
+  name: agent.name,
+  email: agent.email,
+  branchId: agent.branchId,
+  branchName: agent.branch.name,
+  active: agent.active,
+  deactivatedAt: agent.deactivatedAt?.toISOString() || null,
+  leadCount: agent._count.leads,
+  createdAt: agent.createdAt.toISOString(),
+  updatedAt: agent.updatedAt.toISOString(),
+});
+
+/**
+ * List agents that have not been deleted, hiding inactive agents unless requested
+ */
+export const findAgents = async (options: AgentListOptions = {}): Promise<AgentDetails[]> => {
+  try {
+    const where: Prisma.AgentWhereInput = { deletedAt: null };
+
+    if (options.branchId) {
+      where.branchId = options.branchId;
+    }
+
+    if (!options.includeInactive) {
+      where.active = true;
+    }
+
+    const agents = await prisma.agent.findMany({
+      where,
+      include: agentInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return agents.map(toAgentDetails);
+  } catch (error) {
+    logger.error('Error fetching agents:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find an agent by ID, including their branch assignment history
+ * Deleted agents are ignored
+ */
+export const findAgentById = async (id: number): Promise<AgentDetails | null> => {
+  try {
+    const agent = await prisma.agent.findFirst({
+      where: { id, deletedAt: null },
+      include: {
+        ...agentInclude,
+        assignments: {
+          include: { branch: true },
+          orderBy: { effectiveFrom: 'asc' },
+        },
+      },
+    });
+
+    if (!agent) {
+      return null;
+    }
+
+    return {
+      ...toAgentDetails(agent),
+      assignments: agent.assignments.map((assignment) => ({
+        branchId: assignment.branchId,
+        branchName: assignment.branch.name,
+        effectiveFrom: assignment.effectiveFrom.toISOString(),
+        effectiveTo: assignment.effectiveTo?.toISOString() || null,
+      })),
+    };
+  } catch (error) {
+    logger.error('Error fetching agent:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a live agent by exact name within a branch
+ */
+export const findAgentByName = async (
+  branchId: number,
+  name: string
+): Promise<{ id: number } | null> => {
+  return prisma.agent.findFirst({
+    where: { branchId, name, deletedAt: null },
+    select: { id: true },
+    orderBy: { id: 'asc' },
+  });
+};
+
+/**
+ * Find agents by exact name (used to resolve name filters to IDs)
+ * Deleted agents are only included when requested
+ */
+export const findAgentsByNames = async (
+  names: string[],
+  includeDeleted: boolean = false
+): Promise<Array<{ id: number; name: string; branchName: string }>> => {
+  const agents = await prisma.agent.findMany({
+    where: { name: { in: names }, ...(includeDeleted ? {} : { deletedAt: null }) },
+    select: { id: true, name: true, branch: { select: { name: true } } },
+    orderBy: { id: 'asc' },
+  });
+
+  return agents.map((agent) => ({ id: agent.id, name: agent.name, branchName: agent.branch.name }));
+};
+
+/**
+ * Find branch and agent name pairs that only match inactive live agents
+ * (imported leads cannot be assigned to them)
+ */
+export const findInactiveAgentNames = async (): Promise<
+  Array<{ branch: string; agent: string }>
+> => {
+  const agents = await prisma.agent.findMany({
+    where: { deletedAt: null },
+    select: { name: true, active: true, branch: { select: { name: true } } },
+  });
+
+  const key = (agent: (typeof agents)[number]): string => `${agent.branch.name}\u0000${agent.name}`;
+  const active = new Set(agents.filter((agent) => agent.active).map(key));
+
+  return agents
+    .filter((agent) => !agent.active && !active.has(key(agent)))
+    .map((agent) => ({ branch: agent.branch.name, agent: agent.name }));
+};
+
+/**
+ * Find the branch of the live agent with this email
+ */
+export const findAgentBranchByEmail = async (email: string): Promise<number | null> => {
+  const agent = await prisma.agent.findFirst({
+    where: { email, deletedAt: null },
+    select: { branchId: true },
+    orderBy: { id: 'asc' },
+  });
+
+  return agent?.branchId ?? null;
+};
+
+/**
+ * Insert a new agent along with their first branch assignment
+ */
+export const insertAgent = async (
+  data: Prisma.AgentUncheckedCreateInput,
+  db: DbClient = prisma
+): Promise<AgentDetails> => {
+  try {
+    const now = new Date();
+    const agent = await db.agent.create({
+      data: {
+        ...data,
+        createdAt: now,
+        assignments: {
+          create: { branchId: data.branchId, effectiveFrom: now },
+        },
+      },
+      include: agentInclude,
+    });
+
+    return toAgentDetails(agent);
+  } catch (error) {
+    logger.error('Error creating agent:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing agent
+ */
+export const updateAgentById = async (
+  id: number,
+  data: Prisma.AgentUncheckedUpdateInput,
+  db: DbClient = prisma
+): Promise<AgentDetails> => {
+  try {
+    const agent = await db.agent.update({
+      where: { id },
+      data,
+      include: agentInclude,
+    });
+
+    return toAgentDetails(agent);
+  } catch (error) {
+    logger.error('Error updating agent:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the start of an agent's current branch assignment
+ * Agents created before assignment history existed fall back to their creation date
+ */
+export const findCurrentAssignmentStart = async (agentId: number): Promise<Date | null> => {
+  const [assignment, agent] = await Promise.all([
+    prisma.agentBranchAssignment.findFirst({
+      where: { agentId, effectiveTo: null },
+      orderBy: { effectiveFrom: 'desc' },
+    }),
+    prisma.agent.findUnique({ where: { id: agentId }, select: { createdAt: true } }),
+  ]);
+
+  return assignment?.effectiveFrom ?? agent?.createdAt ?? null;
+};
+
+/**
+ * Move an agent to another branch from an effective date
+ * Closes the current assignment, opens a new one and re-homes the agent's leads
+ * created on or after the effective date. Earlier leads keep their branch.
+ */
+export const transferAgentToBranch = async (
+  agentId: number,
+  branchId: number,
+  effectiveFrom: Date,
+  db: DbClient = prisma
+): Promise<{ agent: AgentDetails; reassignedLeads: number }> => {
+  try {
+    return await runInTransaction(async (tx) => {
+      const current = await tx.agent.findUniqueOrThrow({ where: { id: agentId } });
+
+      const closed = await tx.agentBranchAssignment.updateMany({
+        where: { agentId, effectiveTo: null },
+        data: { effectiveTo: effectiveFrom },
+      });
+
+      // Backfill the original posting for agents that pre-date assignment history
+      if (closed.count === 0) {
+        await tx.agentBranchAssignment.create({
+          data: {
+            agentId,
+            branchId: current.branchId,
+            effectiveFrom: current.createdAt,
+            effectiveTo: effectiveFrom,
+          },
+        });
+      }
+
+      await tx.agentBranchAssignment.create({
+        data: { agentId, branchId, effectiveFrom },
+      });
+
+      const reassigned = await tx.lead.updateMany({
+        where: {
+          agentId,
+          branchId: current.branchId,
+          createdAt: { gte: effectiveFrom },
+        },
+        data: { branchId },
+      });
+
+      const agent = await tx.agent.update({
+        where: { id: agentId },
+        data: { branchId },
+        include: agentInclude,
+      });
+
+      return { agent: toAgentDetails(agent), reassignedLeads: reassigned.count };
+    }, db);
+  } catch (error) {
+    logger.error('Error transferring agent:', error);
+    throw error;
+  }
+};
+
+/**
+ * Soft-delete an agent; their assignment history, calls and targets are kept
+ */
+export const deleteAgentById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    await db.agent.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  } catch (error) {
+    logger.error('Error deleting agent:', error);
+    throw error;
+  }
+};
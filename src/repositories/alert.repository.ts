@@ -0,0 +1,143 @@
+/**
+ * Alert Repository
+ * Data access layer for anomaly detection alerts using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { AlertDetails, AlertQuery, NewAlert } from '../types/alert.types';
+import logger from '../utils/logger';
+import type { Prisma, Alert } from '@prisma/client';
+
+/**
+ * Map a Prisma alert to the API shape
+ */
+const toAlertDetails = (alert: Alert): AlertDetails => ({
+  id: alert.id,
+  entityType: alert.entityType,
+  entityId: alert.entityId,
+  entityName: alert.entityName,
+  metric: alert.metric,
+  day: alert.day.toISOString(),
+  value: alert.value,
+  baseline: alert.baseline,
+  zScore: alert.zScore,
+  direction: alert.direction,
+  status: alert.status,
+  acknowledgedBy: alert.acknowledgedBy,
+  acknowledgedAt: alert.acknowledgedAt?.toISOString() || null,
+  resolvedBy: alert.resolvedBy,
+  resolvedAt: alert.resolvedAt?.toISOString() || null,
+  resolution: alert.resolution,
+  createdAt: alert.createdAt.toISOString(),
+  updatedAt: alert.updatedAt.toISOString(),
+});
+
+/**
+ * Find one page of alerts, most recent day first, with the total match count
+ */
+export const findAlerts = async (
+  query: AlertQuery
+): Promise<{ items: AlertDetails[]; total: number }> => {
+  try {
+    const where: Prisma.AlertWhereInput = {};
+
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.entityType) {
+      where.entityType = query.entityType;
+    }
+    if (query.entityId) {
+      where.entityId = query.entityId;
+    }
+    if (query.metric) {
+      where.metric = query.metric;
+    }
+    if (query.from || query.to) {
+      where.day = {
+        ...(query.from ? { gte: new Date(query.from) } : {}),
+        ...(query.to ? { lt: new Date(query.to) } : {}),
+      };
+    }
+
+    const [alerts, total] = await Promise.all([
+      prisma.alert.findMany({
+        where,
+        orderBy: [{ day: 'desc' }, { id: 'desc' }],
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.alert.count({ where }),
+    ]);
+
+    return { items: alerts.map(toAlertDetails), total };
+  } catch (error) {
+    logger.error('Error fetching alerts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find an alert by ID
+ */
+export const findAlertById = async (id: number): Promise<AlertDetails | null> => {
+  try {
+    const alert = await prisma.alert.findUnique({ where: { id } });
+
+    return alert ? toAlertDetails(alert) : null;
+  } catch (error) {
+    logger.error('Error fetching alert:', error);
+    throw error;
+  }
+};
+
+/**
+ * Store alerts for days that are not on record yet
+ * An entity, metric and day already flagged keeps its existing alert (and status)
+ */
+export const saveNewAlerts = async (alerts: NewAlert[]): Promise<number> => {
+  if (alerts.length === 0) return 0;
+
+  try {
+    const key = (alert: { entityType: string; entityId: number; metric: string; day: Date }) =>
+      `${alert.entityType}:${alert.entityId}:${alert.metric}:${alert.day.getTime()}`;
+
+    const days = [...new Set(alerts.map((alert) => alert.day.getTime()))].map((t) => new Date(t));
+    const existing = await prisma.alert.findMany({
+      where: { day: { in: days } },
+      select: { entityType: true, entityId: true, metric: true, day: true },
+    });
+    const recorded = new Set(existing.map(key));
+    const fresh = alerts.filter((alert) => !recorded.has(key(alert)));
+
+    if (fresh.length > 0) {
+      await prisma.alert.createMany({ data: fresh });
+    }
+
+    return fresh.length;
+  } catch (error) {
+    logger.error('Error saving alerts:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing alert
+ */
+export const updateAlertById = async (
+  id: number,
+  data: Prisma.AlertUpdateInput,
+  db: DbClient = prisma
+): Promise<AlertDetails> => {
+  try {
+    const alert = await db.alert.update({
+      where: { id },
+      data,
+    });
+
+    return toAlertDetails(alert);
+  } catch (error) {
+    logger.error('Error updating alert:', error);
+    throw error;
+  }
+};
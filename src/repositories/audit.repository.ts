@@ -0,0 +1,87 @@
+/**
+ * Audit Repository
+ * Data access layer for audit events using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { AuditChanges, AuditEventDetails, AuditEventQuery } from '../types/audit.types';
+import logger from '../utils/logger';
+import type { Prisma, AuditEvent } from '@prisma/client';
+
+/**
+ * Map a Prisma audit event to the API shape
+ */
+const toAuditEventDetails = (event: AuditEvent): AuditEventDetails => ({
+  id: event.id,
+  actor: event.actor,
+  action: event.action,
+  entityType: event.entityType,
+  entityId: event.entityId,
+  changes: JSON.parse(event.changes) as AuditChanges,
+  createdAt: event.createdAt.toISOString(),
+});
+
+/**
+ * Insert an audit event
+ */
+export const insertAuditEvent = async (
+  data: {
+    actor: string;
+    action: string;
+    entityType: string;
+    entityId: number | null;
+    changes: AuditChanges;
+  },
+  db: DbClient = prisma
+): Promise<void> => {
+  try {
+    await db.auditEvent.create({
+      data: { ...data, changes: JSON.stringify(data.changes) },
+    });
+  } catch (error) {
+    logger.error('Error recording audit event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find one page of audit events, newest first, with the total match count
+ */
+export const findAuditEvents = async (
+  query: AuditEventQuery
+): Promise<{ items: AuditEventDetails[]; total: number }> => {
+  try {
+    const where: Prisma.AuditEventWhereInput = {};
+
+    if (query.entityType) {
+      where.entityType = query.entityType;
+    }
+    if (query.entityId) {
+      where.entityId = query.entityId;
+    }
+    if (query.actor) {
+      where.actor = query.actor;
+    }
+    if (query.from || query.to) {
+      where.createdAt = {
+        ...(query.from ? { gte: new Date(query.from) } : {}),
+        ...(query.to ? { lt: new Date(query.to) } : {}),
+      };
+    }
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { items: events.map(toAuditEventDetails), total };
+  } catch (error) {
+    logger.error('Error fetching audit events:', error);
+    throw error;
+  }
+};
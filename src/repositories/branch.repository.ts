@@ -0,0 +1,155 @@
+/**
+ * Branch Repository
+ * Data access layer for branch management using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { BranchDetails } from '../types/branch.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const branchInclude = {
+  country: {
+    select: { name: true },
+  },
+  agents: {
+    where: { deletedAt: null },
+    select: { active: true },
+  },
+  _count: {
+    select: { leads: { where: { deletedAt: null } } },
+  },
+} satisfies Prisma.BranchInclude;
+
+type BranchWithCounts = Prisma.BranchGetPayload<{ include: typeof branchInclude }>;
+
+/**
+ * Map a Prisma branch (with agent and lead counts) to the API shape
+ */
+const toBranchDetails = (branch: BranchWithCounts): BranchDetails => ({
+  id: branch.id,
+  name: branch.name,
+  countryId: branch.countryId,
+  countryName: branch.country?.name ?? null,
+  agentCount: branch.agents.length,
+  activeAgentCount: branch.agents.filter((a) => a.active).length,
+  leadCount: branch._count.leads,
+  createdAt: branch.createdAt.toISOString(),
+  updatedAt: branch.updatedAt.toISOString(),
+});
+
+/**
+ * List all branches that have not been deleted, optionally within one country
+ */
+export const findBranches = async (countryId?: number): Promise<BranchDetails[]> => {
+  try {
+    const branches = await prisma.branch.findMany({
+      where: { deletedAt: null, ...(countryId ? { countryId } : {}) },
+      include: branchInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return branches.map(toBranchDetails);
+  } catch (error) {
+    logger.error('Error fetching branches:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a branch by ID, ignoring deleted branches
+ */
+export const findBranchById = async (id: number): Promise<BranchDetails | null> => {
+  try {
+    const branch = await prisma.branch.findFirst({
+      where: { id, deletedAt: null },
+      include: branchInclude,
+    });
+
+    return branch ? toBranchDetails(branch) : null;
+  } catch (error) {
+    logger.error('Error fetching branch:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a branch by exact name, including deleted branches (names stay reserved)
+ */
+export const findBranchByName = async (
+  name: string
+): Promise<{ id: number; deletedAt: Date | null } | null> => {
+  return prisma.branch.findUnique({
+    where: { name },
+    select: { id: true, deletedAt: true },
+  });
+};
+
+/**
+ * Get the names of deleted branches
+ */
+export const findDeletedBranchNames = async (): Promise<string[]> => {
+  const branches = await prisma.branch.findMany({
+    where: { deletedAt: { not: null } },
+    select: { name: true },
+  });
+
+  return branches.map((branch) => branch.name);
+};
+
+/**
+ * Insert a new branch
+ */
+export const insertBranch = async (
+  data: Prisma.BranchUncheckedCreateInput,
+  db: DbClient = prisma
+): Promise<BranchDetails> => {
+  try {
+    const branch = await db.branch.create({
+      data,
+      include: branchInclude,
+    });
+
+    return toBranchDetails(branch);
+  } catch (error) {
+    logger.error('Error creating branch:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing branch
+ */
+export const updateBranchById = async (
+  id: number,
+  data: Prisma.BranchUncheckedUpdateInput,
+  db: DbClient = prisma
+): Promise<BranchDetails> => {
+  try {
+    const branch = await db.branch.update({
+      where: { id },
+      data,
+      include: branchInclude,
+    });
+
+    return toBranchDetails(branch);
+  } catch (error) {
+    logger.error('Error updating branch:', error);
+    throw error;
+  }
+};
+
+/**
+ * Soft-delete a branch; its history and targets are kept
+ */
+export const deleteBranchById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    await db.branch.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  } catch (error) {
+    logger.error('Error deleting branch:', error);
+    throw error;
+  }
+};
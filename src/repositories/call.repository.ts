@@ -0,0 +1,75 @@
+/**
+ * Call Repository
+ * Data access layer for call activity using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { CallActivityDetails } from '../types/call.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const callInclude = {
+  agent: { select: { name: true } },
+} satisfies Prisma.CallActivityInclude;
+
+type CallWithAgent = Prisma.CallActivityGetPayload<{ include: typeof callInclude }>;
+
+/**
+ * Map a Prisma call activity to the API shape
+ */
+const toCallActivityDetails = (call: CallWithAgent): CallActivityDetails => ({
+  id: call.id,
+  leadId: call.leadId,
+  agentId: call.agentId,
+  agentName: call.agent.name,
+  outcome: call.outcome,
+  durationSeconds: call.durationSeconds,
+  calledAt: call.calledAt.toISOString(),
+  notes: call.notes,
+  createdAt: call.createdAt.toISOString(),
+});
+
+/**
+ * List the calls made to a lead, most recent first
+ */
+export const findCallsForLead = async (leadId: number): Promise<CallActivityDetails[]> => {
+  try {
+    const calls = await prisma.callActivity.findMany({
+      where: { leadId },
+      include: callInclude,
+      orderBy: [{ calledAt: 'desc' }, { id: 'desc' }],
+    });
+
+    return calls.map(toCallActivityDetails);
+  } catch (error) {
+    logger.error('Error fetching calls:', error);
+    throw error;
+  }
+};
+
+/**
+ * Insert a call activity
+ */
+export const insertCall = async (
+  data: Prisma.CallActivityUncheckedCreateInput,
+  db: DbClient = prisma
+): Promise<CallActivityDetails> => {
+  try {
+    const call = await db.callActivity.create({
+      data,
+      include: callInclude,
+    });
+
+    return toCallActivityDetails(call);
+  } catch (error) {
+    logger.error('Error logging call:', error);
+    throw error;
+  }
+};
+
+/**
+ * Count the calls logged by an agent
+ */
+export const countCallsByAgent = async (agentId: number): Promise<number> => {
+  return prisma.callActivity.count({ where: { agentId } });
+};
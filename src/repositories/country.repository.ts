@@ -0,0 +1,120 @@
+/**
+ * Country Repository
+ * Data access layer for country management using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import { CountryDetails } from '../types/branch.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const countryInclude = {
+  _count: {
+    select: { branches: { where: { deletedAt: null } } },
+  },
+} satisfies Prisma.CountryInclude;
+
+type CountryWithCounts = Prisma.CountryGetPayload<{ include: typeof countryInclude }>;
+
+/**
+ * Map a Prisma country (with branch count) to the API shape
+ */
+const toCountryDetails = (country: CountryWithCounts): CountryDetails => ({
+  id: country.id,
+  name: country.name,
+  code: country.code,
+  branchCount: country._count.branches,
+  createdAt: country.createdAt.toISOString(),
+  updatedAt: country.updatedAt.toISOString(),
+});
+
+/**
+ * List all countries
+ */
+export const findCountries = async (): Promise<CountryDetails[]> => {
+  try {
+    const countries = await prisma.country.findMany({
+      include: countryInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return countries.map(toCountryDetails);
+  } catch (error) {
+    logger.error('Error fetching countries:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a country by ID
+ */
+export const findCountryById = async (id: number): Promise<CountryDetails | null> => {
+  const country = await prisma.country.findUnique({
+    where: { id },
+    include: countryInclude,
+  });
+
+  return country ? toCountryDetails(country) : null;
+};
+
+/**
+ * Find a country whose name or code matches
+ */
+export const findCountryByNameOrCode = async (
+  name: string,
+  code: string
+): Promise<{ id: number; name: string; code: string } | null> => {
+  return prisma.country.findFirst({
+    where: { OR: [{ name }, { code }] },
+    select: { id: true, name: true, code: true },
+  });
+};
+
+/**
+ * Insert a new country
+ */
+export const insertCountry = async (
+  data: Prisma.CountryCreateInput,
+  db: DbClient = prisma
+): Promise<CountryDetails> => {
+  try {
+    const country = await db.country.create({ data, include: countryInclude });
+    return toCountryDetails(country);
+  } catch (error) {
+    logger.error('Error creating country:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing country
+ */
+export const updateCountryById = async (
+  id: number,
+  data: Prisma.CountryUpdateInput,
+  db: DbClient = prisma
+): Promise<CountryDetails> => {
+  try {
+    const country = await db.country.update({ where: { id }, data, include: countryInclude });
+    return toCountryDetails(country);
+  } catch (error) {
+    logger.error('Error updating country:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a country
+ */
+export const deleteCountryById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    // Only deleted branches can still point at the country; detach them first
+    await runInTransaction(async (tx) => {
+      await tx.branch.updateMany({ where: { countryId: id }, data: { countryId: null } });
+      await tx.country.delete({ where: { id } });
+    }, db);
+  } catch (error) {
+    logger.error('Error deleting country:', error);
+    throw error;
+  }
+};
@@ -4,9 +4,26 @@
  */
 
 import { prisma } from '../utils/prisma';
-import { DashboardFilters } from '../types/dashboard.types';
+import {
+  DashboardFilters,
+  DependentFilterOptions,
+  FilterOptionWithCounts,
+  PercentileSummary,
+  RANGE_FILTERS,
+  TimeSeriesGroup,
+  ValueFilter,
+} from '../types/dashboard.types';
+import { findTargetPeriods, sumProratedTargets } from './target.repository';
+import { loadFxConverter } from './fx.repository';
+import { appConfig } from '../config/app.config';
+import { epochMs } from '../utils/database';
+import { FxConverter } from '../types/fx.types';
+import { CallOutcome, SUCCESSFUL_CALL_OUTCOMES } from '../types/call.types';
+import { resolveDateWindow, splitDateWindow } from '../utils/dateRange';
+import { getZonedParts } from '../utils/timezone';
+import { mean, summarisePercentiles } from '../utils/statistics';
 import logger from '../utils/logger';
-import type { Prisma } from '@prisma/client';
+import { Prisma } from '@prisma/client';
 
 export interface LeadRow {
   id: number;
@@ -17,6 +34,7 @@ export interface LeadRow {
   segment: string | null;
   campaign: string | null;
   revenue: number;
+  currency: string;
   created_at: string;
   updated_at: string;
   contacted_at: string | null;
@@ -35,74 +53,366 @@ export interface BranchRow {
   name: string;
 }
 
+export interface CallingPatternStat {
+  totalCalls: number;
+  successfulCalls: number;
+  successRate: number;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 /**
- * Get date range filter for queries
+ * Get the date filter for a window: inclusive start (when bounded), exclusive end
  */
-const getDateRangeFilter = (dateRange?: string): Date | undefined => {
-  const now = new Date();
-  let startDate: Date;
-
-  switch (dateRange) {
-    case 'last7days':
-      startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      break;
-    case 'last30days':
-      startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-      break;
-    case 'last90days':
-      startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      break;
-    case 'lastYear':
-      startDate = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-      break;
-    case 'all':
-    default:
-      return undefined;
-  }
-
-  return startDate;
+const getDateRangeFilter = (filters: DashboardFilters): Prisma.DateTimeFilter => {
+  const window = resolveDateWindow(filters);
+  return {
+    ...(window.start ? { gte: window.start } : {}),
+    lt: window.end,
+  };
 };
 
+/**
+ * Match a required name against a value filter
+ */
+const matchValues = (filter: ValueFilter): Prisma.StringFilter => ({
+  ...(filter.in ? { in: filter.in } : {}),
+  ...(filter.notIn ? { notIn: filter.notIn } : {}),
+});
+
+/**
+ * Match a foreign key against an ID filter
+ */
+const matchIds = (filter: ValueFilter<number>): Prisma.IntFilter => ({
+  ...(filter.in ? { in: filter.in } : {}),
+  ...(filter.notIn ? { notIn: filter.notIn } : {}),
+});
+
+/**
+ * Match an optional lead field against a value filter
+ * Exclusions keep leads without a value ("every campaign except X" includes leads with no campaign)
+ */
+const matchOptionalValues = (
+  field: 'product' | 'segment' | 'campaign',
+  filter: ValueFilter
+): Prisma.LeadWhereInput =>
+  filter.in
+    ? { [field]: matchValues(filter) }
+    : { OR: [{ [field]: null }, { [field]: { notIn: filter.notIn } }] };
+
+/**
+ * Match a branch's country against a value filter
+ * Exclusions keep branches without a country
+ */
+const matchCountry = (filter: ValueFilter): Prisma.BranchWhereInput =>
+  filter.in
+    ? { country: { name: matchValues(filter) } }
+    : { OR: [{ countryId: null }, { country: { name: { notIn: filter.notIn } } }] };
+
+/**
+ * Match a number between optional inclusive bounds
+ */
+const matchRange = (min: number | undefined, max: number | undefined): Prisma.FloatFilter => ({
+  ...(min !== undefined ? { gte: min } : {}),
+  ...(max !== undefined ? { lte: max } : {}),
+});
+
 /**
  * Build WHERE clause from filters
  */
 const buildWhereClause = (filters: DashboardFilters): Prisma.LeadWhereInput => {
   const where: Prisma.LeadWhereInput = {};
 
-  if (filters.branch) {
-    where.branch = {
-      name: filters.branch,
-    };
+  // Soft-deleted leads are left out unless explicitly requested. Branches and agents
+  // can only be deleted once they have no live leads, so this covers them too.
+  if (!filters.includeDeleted) {
+    where.deletedAt = null;
+  }
+
+  if (filters.branch || filters.country) {
+    const branchWhere: Prisma.BranchWhereInput = {};
+
+    if (filters.branch) {
+      branchWhere.name = matchValues(filters.branch);
+    }
+
+    if (filters.country) {
+      branchWhere.AND = [matchCountry(filters.country)];
+    }
+
+    where.branch = branchWhere;
   }
 
+  if (filters.branchId) {
+    where.branchId = matchIds(filters.branchId);
+  }
+
+  if (filters.agentId) {
+    where.agentId = matchIds(filters.agentId);
+  }
+
+  // Agent names are normally resolved to IDs first; matching by name is kept for direct callers
   if (filters.agent) {
     where.agent = {
-      name: filters.agent,
+      name: matchValues(filters.agent),
     };
   }
 
-  if (filters.product) {
-    where.product = filters.product;
+  const optionalFields = (['product', 'segment', 'campaign'] as const).filter(
+    (field) => filters[field]
+  );
+  if (optionalFields.length > 0) {
+    where.AND = optionalFields.map((field) => matchOptionalValues(field, filters[field]!));
   }
 
-  if (filters.segment) {
-    where.segment = filters.segment;
+  if (filters.status) {
+    where.status = matchValues(filters.status);
   }
 
-  if (filters.campaign) {
-    where.campaign = filters.campaign;
+  if (filters.contacted !== undefined) {
+    where.contactedAt = filters.contacted ? { not: null } : null;
   }
 
-  const dateFilter = getDateRangeFilter(filters.dateRange);
-  if (dateFilter) {
-    where.createdAt = {
-      gte: dateFilter,
+  where.createdAt = getDateRangeFilter(filters);
+
+  // Revenue in the reporting currency and days to contact aren't lead columns; both are
+  // read from the lead_metrics view, so the bounds become a subquery of this clause
+  if (RANGE_FILTERS.some((key) => filters[key] !== undefined)) {
+    where.metrics = {
+      some: {
+        currency: filters.currency ?? appConfig.baseCurrency,
+        ...(filters.minRevenue !== undefined || filters.maxRevenue !== undefined
+          ? { revenue: matchRange(filters.minRevenue, filters.maxRevenue) }
+          : {}),
+        ...(filters.minDaysToContact !== undefined || filters.maxDaysToContact !== undefined
+          ? { daysToContact: matchRange(filters.minDaysToContact, filters.maxDaysToContact) }
+          : {}),
+      },
     };
   }
 
   return where;
 };
 
+/**
+ * Match a SQL column against a value filter
+ */
+const sqlMatchValues = (column: Prisma.Sql, filter: ValueFilter<string | number>): Prisma.Sql[] => [
+  ...(filter.in ? [Prisma.sql`${column} IN (${Prisma.join(filter.in)})`] : []),
+  ...(filter.notIn ? [Prisma.sql`${column} NOT IN (${Prisma.join(filter.notIn)})`] : []),
+];
+
+/**
+ * Build the SQL conditions of buildWhereClause for raw aggregate queries
+ * Expects the lead as `l` joined to its branch as `br` and its agent as `a`.
+ */
+const buildSqlConditions = (filters: DashboardFilters): Prisma.Sql => {
+  const conditions: Prisma.Sql[] = [];
+  const createdAt = Prisma.raw(epochMs('l.created_at'));
+
+  if (!filters.includeDeleted) {
+    conditions.push(Prisma.sql`l.deleted_at IS NULL`);
+  }
+
+  if (filters.branch) {
+    conditions.push(...sqlMatchValues(Prisma.sql`br.name`, filters.branch));
+  }
+
+  if (filters.country) {
+    const inCountries = (names: string[]) =>
+      Prisma.sql`br.country_id IN (SELECT id FROM countries WHERE name IN (${Prisma.join(names)}))`;
+    conditions.push(
+      filters.country.in
+        ? Prisma.join(
+            [
+              inCountries(filters.country.in),
+              ...(filters.country.notIn
+                ? [Prisma.sql`NOT ${inCountries(filters.country.notIn)}`]
+                : []),
+            ],
+            ' AND '
+          )
+        : Prisma.sql`(br.country_id IS NULL OR NOT ${inCountries(filters.country.notIn!)})`
+    );
+  }
+
+  if (filters.branchId) {
+    conditions.push(...sqlMatchValues(Prisma.sql`l.branch_id`, filters.branchId));
+  }
+
+  if (filters.agentId) {
+    conditions.push(...sqlMatchValues(Prisma.sql`l.agent_id`, filters.agentId));
+  }
+
+  if (filters.agent) {
+    conditions.push(...sqlMatchValues(Prisma.sql`a.name`, filters.agent));
+  }
+
+  for (const field of ['product', 'segment', 'campaign'] as const) {
+    const filter = filters[field];
+    if (!filter) continue;
+
+    const column = Prisma.raw(`l.${field}`);
+    conditions.push(
+      filter.in
+        ? Prisma.join(sqlMatchValues(column, filter), ' AND ')
+        : Prisma.sql`(${column} IS NULL OR ${column} NOT IN (${Prisma.join(filter.notIn!)}))`
+    );
+  }
+
+  if (filters.status) {
+    conditions.push(...sqlMatchValues(Prisma.sql`l.status`, filters.status));
+  }
+
+  if (filters.contacted !== undefined) {
+    conditions.push(
+      filters.contacted
+        ? Prisma.sql`l.contacted_at IS NOT NULL`
+        : Prisma.sql`l.contacted_at IS NULL`
+    );
+  }
+
+  const window = resolveDateWindow(filters);
+  if (window.start) {
+    conditions.push(Prisma.sql`${createdAt} >= ${window.start.getTime()}`);
+  }
+  conditions.push(Prisma.sql`${createdAt} < ${window.end.getTime()}`);
+
+  if (RANGE_FILTERS.some((key) => filters[key] !== undefined)) {
+    const bounds = [
+      ['revenue', filters.minRevenue, filters.maxRevenue],
+      ['days_to_contact', filters.minDaysToContact, filters.maxDaysToContact],
+    ] as const;
+    const metricConditions = [
+      Prisma.sql`m.lead_id = l.id`,
+      Prisma.sql`m.currency = ${filters.currency ?? appConfig.baseCurrency}`,
+      ...bounds.flatMap(([column, min, max]) => [
+        ...(min !== undefined ? [Prisma.sql`m.${Prisma.raw(column)} >= ${min}`] : []),
+        ...(max !== undefined ? [Prisma.sql`m.${Prisma.raw(column)} <= ${max}`] : []),
+      ]),
+    ];
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM lead_metrics m WHERE ${Prisma.join(metricConditions, ' AND ')})`
+    );
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+/**
+ * Load the converter into the filters' reporting currency, unless the caller passes one
+ * (a service making several queries for one request loads the rates once)
+ */
+const resolveConverter = async (
+  filters: DashboardFilters,
+  converter?: FxConverter
+): Promise<FxConverter> => converter ?? loadFxConverter(filters.currency);
+
+/**
+ * Get the creation date of the earliest lead matching the filters
+ */
+export const getEarliestLeadDate = async (filters: DashboardFilters): Promise<Date | null> => {
+  const earliest = await prisma.lead.aggregate({
+    where: buildWhereClause(filters),
+    _min: { createdAt: true },
+  });
+
+  return earliest._min.createdAt;
+};
+
+/**
+ * Split the filtered window into equal chart periods
+ * Open-ended windows start at the earliest matching lead
+ */
+const getChartPeriods = async (
+  filters: DashboardFilters,
+  periods: number
+): Promise<Array<{ start: Date; end: Date; label: string }>> => {
+  const window = resolveDateWindow(filters);
+  let start = window.start;
+
+  if (!start) {
+    start =
+      (await getEarliestLeadDate(filters)) ??
+      new Date(window.end.getTime() - periods * 24 * 60 * 60 * 1000);
+  }
+
+  return splitDateWindow(start, window.end, periods);
+};
+
+/**
+ * Convert a lead's revenue at the rate for its conversion date
+ * (creation date for leads without one)
+ */
+const convertRevenue = (
+  fx: FxConverter,
+  lead: { revenue: number; currency: string; createdAt: Date; convertedAt: Date | null }
+): number => fx.convert(lead.revenue, lead.currency, lead.convertedAt ?? lead.createdAt);
+
+/**
+ * Mean and percentiles of days from creation to first contact over contacted leads
+ */
+const summariseTurnAroundTime = (
+  leads: Array<{ createdAt: Date; contactedAt: Date | null }>
+): { mean: number; percentiles: PercentileSummary } => {
+  const days = leads
+    .filter((l) => l.contactedAt)
+    .map((l) => (l.contactedAt!.getTime() - l.createdAt.getTime()) / (1000 * 60 * 60 * 24));
+
+  return { mean: Number(mean(days).toFixed(2)), percentiles: summarisePercentiles(days) };
+};
+
+/**
+ * Pick the targets a filter's agents or branches own
+ */
+const buildTargetOwnerScope = (filters: DashboardFilters): Prisma.TargetWhereInput => {
+  if (filters.agentId) {
+    return { agentId: matchIds(filters.agentId) };
+  }
+
+  if (filters.agent) {
+    return { agent: { name: matchValues(filters.agent) } };
+  }
+
+  if (filters.branchId?.in) {
+    return { branchId: matchIds(filters.branchId) };
+  }
+
+  if (filters.branchId) {
+    return { branchId: matchIds(filters.branchId), branch: { deletedAt: null } };
+  }
+
+  if (filters.branch?.in) {
+    return { branch: { name: matchValues(filters.branch) } };
+  }
+
+  if (filters.branch) {
+    return { branch: { deletedAt: null, name: matchValues(filters.branch) } };
+  }
+
+  return { branchId: { not: null }, branch: { deletedAt: null } };
+};
+
+/**
+ * Build target scope from filters
+ * Agent targets when filtering by agent, otherwise branch targets
+ * (all live branches unless a branch is selected), limited to the selected countries
+ */
+export const buildTargetScope = (filters: DashboardFilters): Prisma.TargetWhereInput => {
+  const scope = buildTargetOwnerScope(filters);
+  if (!filters.country) {
+    return scope;
+  }
+
+  const inCountry = matchCountry(filters.country);
+  return {
+    AND: [
+      scope,
+      filters.agentId || filters.agent ? { agent: { branch: inCountry } } : { branch: inCountry },
+    ],
+  };
+};
+
 /**
  * Get all leads with filters
  */
@@ -128,6 +438,7 @@ export const getLeads = async (filters: DashboardFilters): Promise<LeadRow[]> =>
       segment: lead.segment,
       campaign: lead.campaign,
       revenue: lead.revenue,
+      currency: lead.currency,
       created_at: lead.createdAt.toISOString(),
       updated_at: lead.updatedAt.toISOString(),
       contacted_at: lead.contactedAt?.toISOString() || null,
@@ -176,32 +487,37 @@ export const getLeadsByBranchOverTime = async (
 ): Promise<
   Array<{
     period: string;
+    periodStart: string;
+    periodEnd: string;
     leads: number;
     conversionRate: number;
   }>
 > => {
-  const now = new Date();
-  const periodDays =
-    filters.dateRange === 'last7days' ? 1 : filters.dateRange === 'last30days' ? 4 : 7;
-
-  const results: Array<{ period: string; leads: number; conversionRate: number }> = [];
+  const results: Array<{
+    period: string;
+    periodStart: string;
+    periodEnd: string;
+    leads: number;
+    conversionRate: number;
+  }> = [];
 
-  for (let i = periods - 1; i >= 0; i--) {
-    const periodStart = new Date(now.getTime() - (i + 1) * periodDays * 24 * 60 * 60 * 1000);
-    const periodEnd = new Date(now.getTime() - i * periodDays * 24 * 60 * 60 * 1000);
+  const scope = buildWhereClause(filters);
 
-    const where = buildWhereClause(filters);
-    where.createdAt = {
-      gte: periodStart,
-      lt: periodEnd,
+  for (const period of await getChartPeriods(filters, periods)) {
+    const where: Prisma.LeadWhereInput = {
+      ...scope,
+      createdAt: {
+        gte: period.start,
+        lt: period.end,
+      },
     };
 
+    // Combined with AND so a status filter still applies to the converted count
     const [totalLeads, convertedLeads] = await Promise.all([
       prisma.lead.count({ where }),
       prisma.lead.count({
         where: {
-          ...where,
-          status: 'Product/Service Sold',
+          AND: [where, { status: 'Product/Service Sold' }],
         },
       }),
     ]);
@@ -209,7 +525,9 @@ export const getLeadsByBranchOverTime = async (
     const conversionRate = totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0;
 
     results.push({
-      period: `${i + 1}${i === 0 ? 'st' : i === 1 ? 'nd' : i === 2 ? 'rd' : 'th'}`,
+      period: period.label,
+      periodStart: period.start.toISOString(),
+      periodEnd: period.end.toISOString(),
       leads: totalLeads,
       conversionRate: Number(conversionRate.toFixed(2)),
     });
@@ -223,55 +541,208 @@ export const getLeadsByBranchOverTime = async (
  */
 export const getRevenueByBranchOverTime = async (
   filters: DashboardFilters,
-  periods: number = 7
+  periods: number = 7,
+  converter?: FxConverter
 ): Promise<
   Array<{
     period: string;
+    periodStart: string;
+    periodEnd: string;
     revenue: number;
     target?: number;
   }>
 > => {
-  const now = new Date();
-  const periodDays =
-    filters.dateRange === 'last7days' ? 1 : filters.dateRange === 'last30days' ? 4 : 7;
-
-  const results: Array<{ period: string; revenue: number; target?: number }> = [];
-
-  for (let i = periods - 1; i >= 0; i--) {
-    const periodStart = new Date(now.getTime() - (i + 1) * periodDays * 24 * 60 * 60 * 1000);
-    const periodEnd = new Date(now.getTime() - i * periodDays * 24 * 60 * 60 * 1000);
-
-    const where = buildWhereClause(filters);
-    where.createdAt = {
-      gte: periodStart,
-      lt: periodEnd,
+  const results: Array<{
+    period: string;
+    periodStart: string;
+    periodEnd: string;
+    revenue: number;
+    target?: number;
+  }> = [];
+  const fx = await resolveConverter(filters, converter);
+  const chartPeriods = await getChartPeriods(filters, periods);
+  const scope = buildWhereClause(filters);
+
+  // Load targets overlapping the whole charted window once, then prorate per period
+  const targets = await findTargetPeriods(
+    buildTargetScope(filters),
+    chartPeriods[0].start,
+    chartPeriods[chartPeriods.length - 1].end
+  );
+
+  for (const period of chartPeriods) {
+    const periodStart = period.start;
+    const periodEnd = period.end;
+
+    const where: Prisma.LeadWhereInput = {
+      AND: [
+        { ...scope, createdAt: { gte: periodStart, lt: periodEnd } },
+        { status: 'Product/Service Sold' },
+      ],
     };
-    where.status = 'Product/Service Sold';
 
-    const result = await prisma.lead.aggregate({
+    const sold = await prisma.lead.findMany({
       where,
-      _sum: {
-        revenue: true,
-      },
+      select: { revenue: true, currency: true, createdAt: true, convertedAt: true },
     });
 
-    const revenue = result._sum.revenue || 0;
+    const revenue = sold.reduce((sum, lead) => sum + convertRevenue(fx, lead), 0);
+    const { revenueTarget } = sumProratedTargets(targets, periodStart, periodEnd);
 
     results.push({
-      period: `${i + 1}${i === 0 ? 'st' : i === 1 ? 'nd' : i === 2 ? 'rd' : 'th'}`,
+      period: period.label,
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
       revenue: Number(revenue.toFixed(2)),
-      target: Number((revenue * 1.1).toFixed(2)), // 10% above revenue as target
+      target: Number(fx.convert(revenueTarget, appConfig.baseCurrency, periodEnd).toFixed(2)),
     });
   }
 
   return results;
 };
 
+/**
+ * Count leads and sum converted revenue per calendar bucket (and series, when grouped)
+ * The database does the bucketing: only one row per bucket and series comes back.
+ * Revenue is converted to the reporting currency through the lead_metrics view;
+ * `unconvertedCurrency` names a lead currency without rates, if any sold lead has one.
+ */
+export const getTimeSeriesTotals = async (
+  filters: DashboardFilters,
+  buckets: Array<{ start: Date; end: Date }>,
+  groupBy: TimeSeriesGroup | null
+): Promise<
+  Array<{
+    bucket: number;
+    key: string | null;
+    label: string;
+    leads: number;
+    convertedLeads: number;
+    revenue: number;
+    unconvertedCurrency: string | null;
+  }>
+> => {
+  if (buckets.length === 0) {
+    return [];
+  }
+
+  try {
+    const createdAt = Prisma.raw(epochMs('l.created_at'));
+    const bucketRows = Prisma.join(
+      buckets.map(
+        (bucket, i) => Prisma.sql`(${i}, ${bucket.start.getTime()}, ${bucket.end.getTime()})`
+      )
+    );
+    const [key, label] =
+      groupBy === 'branch'
+        ? [Prisma.sql`CAST(l.branch_id AS TEXT)`, Prisma.sql`br.name`]
+        : groupBy === 'agent'
+          ? [Prisma.sql`CAST(l.agent_id AS TEXT)`, Prisma.sql`a.name || ' (' || ab.name || ')'`]
+          : groupBy === 'product'
+            ? [Prisma.sql`l.product`, Prisma.sql`COALESCE(l.product, 'No product')`]
+            : [Prisma.sql`NULL`, Prisma.sql`'All leads'`];
+    const sold = Prisma.sql`l.status = 'Product/Service Sold'`;
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        bucket: number | bigint;
+        key: string | null;
+        label: string;
+        leads: number | bigint;
+        converted: number | bigint;
+        revenue: number;
+        unconverted_currency: string | null;
+      }>
+    >`
+      WITH buckets (idx, start_ms, end_ms) AS (VALUES ${bucketRows})
+      SELECT
+        b.idx AS bucket,
+        ${key} AS key,
+        ${label} AS label,
+        COUNT(*) AS leads,
+        SUM(CASE WHEN ${sold} THEN 1 ELSE 0 END) AS converted,
+        TOTAL(CASE WHEN ${sold} THEN metric.revenue ELSE 0 END) AS revenue,
+        MAX(CASE WHEN ${sold} AND metric.revenue IS NULL THEN l.currency END) AS unconverted_currency
+      FROM leads l
+      JOIN branches br ON br.id = l.branch_id
+      JOIN agents a ON a.id = l.agent_id
+      JOIN branches ab ON ab.id = a.branch_id
+      JOIN buckets b ON ${createdAt} >= b.start_ms AND ${createdAt} < b.end_ms
+      LEFT JOIN lead_metrics metric
+        ON metric.lead_id = l.id AND metric.currency = ${filters.currency ?? appConfig.baseCurrency}
+      WHERE ${buildSqlConditions(filters)}
+      GROUP BY b.idx, ${key}
+      ORDER BY b.idx
+    `;
+
+    return rows.map((row) => ({
+      bucket: Number(row.bucket),
+      key: row.key,
+      label: row.label,
+      leads: Number(row.leads),
+      convertedLeads: Number(row.converted),
+      revenue: row.revenue,
+      unconvertedCurrency: row.unconverted_currency,
+    }));
+  } catch (error) {
+    logger.error('Error fetching time series totals:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the funnel timestamps of filtered leads with the fields funnels can be broken down by
+ */
+export const getFunnelLeads = async (
+  filters: DashboardFilters
+): Promise<
+  Array<{
+    createdAt: Date;
+    contactedAt: Date | null;
+    convertedAt: Date | null;
+    branchId: number;
+    branchName: string;
+    agentId: number;
+    agentName: string;
+    product: string | null;
+    segment: string | null;
+    campaign: string | null;
+  }>
+> => {
+  try {
+    const leads = await prisma.lead.findMany({
+      where: buildWhereClause(filters),
+      select: {
+        createdAt: true,
+        contactedAt: true,
+        convertedAt: true,
+        product: true,
+        segment: true,
+        campaign: true,
+        branchId: true,
+        agentId: true,
+        branch: { select: { name: true } },
+        agent: { select: { name: true, branch: { select: { name: true } } } },
+      },
+    });
+
+    return leads.map(({ branch, agent, ...lead }) => ({
+      ...lead,
+      branchName: branch.name,
+      agentName: `${agent.name} (${agent.branch.name})`,
+    }));
+  } catch (error) {
+    logger.error('Error fetching funnel leads:', error);
+    throw error;
+  }
+};
+
 /**
  * Get agent performance data
  */
 export const getAgentPerformance = async (
-  filters: DashboardFilters
+  filters: DashboardFilters,
+  converter?: FxConverter
 ): Promise<
   Array<{
     agentId: string;
@@ -280,26 +751,21 @@ export const getAgentPerformance = async (
     revenue: number;
     conversionRate: number;
     turnAroundTime: number;
+    turnAroundTimePercentiles: PercentileSummary;
   }>
 > => {
   try {
     const where = buildWhereClause(filters);
+    const fx = await resolveConverter(filters, converter);
 
+    // Agents are selected through their leads' branch, so history from before a
+    // transfer stays with the branch that handled it
     const agents = await prisma.agent.findMany({
-      where: filters.branch
-        ? {
-            branch: {
-              name: filters.branch,
-            },
-            leads: {
-              some: where,
-            },
-          }
-        : {
-            leads: {
-              some: where,
-            },
-          },
+      where: {
+        leads: {
+          some: where,
+        },
+      },
       include: {
         leads: {
           where,
@@ -313,22 +779,9 @@ export const getAgentPerformance = async (
         const convertedLeads = agent.leads.filter((l) => l.status === 'Product/Service Sold').length;
         const totalRevenue = agent.leads
           .filter((l) => l.status === 'Product/Service Sold')
-          .reduce((sum, l) => sum + l.revenue, 0);
-
-        // Calculate turn around time
-        const contactedLeads = agent.leads.filter((l) => l.contactedAt);
-        let avgTAT = 0;
-        if (contactedLeads.length > 0) {
-          const totalDays = contactedLeads.reduce((sum, l) => {
-            if (l.contactedAt && l.createdAt) {
-              const days =
-                (l.contactedAt.getTime() - l.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-              return sum + days;
-            }
-            return sum;
-          }, 0);
-          avgTAT = totalDays / contactedLeads.length;
-        }
+          .reduce((sum, l) => sum + convertRevenue(fx, l), 0);
+
+        const tat = summariseTurnAroundTime(agent.leads);
 
         const conversionRate = totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0;
 
@@ -338,7 +791,8 @@ export const getAgentPerformance = async (
           leads: totalLeads,
           revenue: Number(totalRevenue.toFixed(2)),
           conversionRate: Number(conversionRate.toFixed(2)),
-          turnAroundTime: Number(avgTAT.toFixed(2)),
+          turnAroundTime: tat.mean,
+          turnAroundTimePercentiles: tat.percentiles,
         };
       })
       .filter((agent) => agent.leads > 0)
@@ -362,6 +816,7 @@ export const getTopPerformingAgents = async (
     id: string;
     name: string;
     turnAroundTime: number;
+    turnAroundTimePercentiles: PercentileSummary;
     conversionRate: number;
     branch: string;
   }>
@@ -370,20 +825,11 @@ export const getTopPerformingAgents = async (
     const where = buildWhereClause(filters);
 
     const agents = await prisma.agent.findMany({
-      where: filters.branch
-        ? {
-            branch: {
-              name: filters.branch,
-            },
-            leads: {
-              some: where,
-            },
-          }
-        : {
-            leads: {
-              some: where,
-            },
-          },
+      where: {
+        leads: {
+          some: where,
+        },
+      },
       include: {
         branch: true,
         leads: {
@@ -397,27 +843,15 @@ export const getTopPerformingAgents = async (
         const totalLeads = agent.leads.length;
         const convertedLeads = agent.leads.filter((l) => l.status === 'Product/Service Sold').length;
 
-        // Calculate turn around time
-        const contactedLeads = agent.leads.filter((l) => l.contactedAt);
-        let avgTAT = 0;
-        if (contactedLeads.length > 0) {
-          const totalDays = contactedLeads.reduce((sum, l) => {
-            if (l.contactedAt && l.createdAt) {
-              const days =
-                (l.contactedAt.getTime() - l.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-              return sum + days;
-            }
-            return sum;
-          }, 0);
-          avgTAT = totalDays / contactedLeads.length;
-        }
+        const tat = summariseTurnAroundTime(agent.leads);
 
         const conversionRate = totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0;
 
         return {
           id: String(agent.id),
           name: agent.name,
-          turnAroundTime: Number(avgTAT.toFixed(2)),
+          turnAroundTime: tat.mean,
+          turnAroundTimePercentiles: tat.percentiles,
           conversionRate: Number(conversionRate.toFixed(2)),
           branch: agent.branch.name,
           convertedLeads,
@@ -444,7 +878,8 @@ export const getTopPerformingAgents = async (
  * Get branch agent ranking
  */
 export const getBranchAgentRanking = async (
-  filters: DashboardFilters
+  filters: DashboardFilters,
+  converter?: FxConverter
 ): Promise<
   Array<{
     agentName: string;
@@ -455,22 +890,14 @@ export const getBranchAgentRanking = async (
 > => {
   try {
     const where = buildWhereClause(filters);
+    const fx = await resolveConverter(filters, converter);
 
     const agents = await prisma.agent.findMany({
-      where: filters.branch
-        ? {
-            branch: {
-              name: filters.branch,
-            },
-            leads: {
-              some: where,
-            },
-          }
-        : {
-            leads: {
-              some: where,
-            },
-          },
+      where: {
+        leads: {
+          some: where,
+        },
+      },
       include: {
         leads: {
           where,
@@ -478,17 +905,29 @@ export const getBranchAgentRanking = async (
       },
     });
 
+    // Agent targets prorated to the requested date range
+    const { start: rangeStart, end: rangeEnd } = resolveDateWindow(filters);
+    const targets = await findTargetPeriods(
+      { agentId: { in: agents.map((agent) => agent.id) } },
+      rangeStart,
+      rangeEnd
+    );
+
     const results = agents.map((agent) => {
-      const totalRevenue = agent.leads.reduce((sum, l) => sum + l.revenue, 0);
       const realisedRevenue = agent.leads
         .filter((l) => l.status === 'Product/Service Sold')
-        .reduce((sum, l) => sum + l.revenue, 0);
+        .reduce((sum, l) => sum + convertRevenue(fx, l), 0);
+      const { revenueTarget } = sumProratedTargets(
+        targets.filter((t) => t.agentId === agent.id),
+        rangeStart,
+        rangeEnd
+      );
 
       return {
         agentName: agent.name,
-        target: Number((totalRevenue * 1.1).toFixed(2)),
+        target: Number(fx.convert(revenueTarget, appConfig.baseCurrency, rangeEnd).toFixed(2)),
         realised: Number(realisedRevenue.toFixed(2)),
-        currency: 'KES',
+        currency: fx.currency,
       };
     });
 
@@ -503,25 +942,37 @@ export const getBranchAgentRanking = async (
  * Get all branches with their performance metrics
  */
 export const getAllBranchesPerformance = async (
-  filters: DashboardFilters
+  filters: DashboardFilters,
+  converter?: FxConverter
 ): Promise<
   Array<{
     branchId: number;
     branchName: string;
+    countryId: number | null;
+    countryName: string | null;
     totalLeads: number;
     totalRevenue: number;
     conversionRate: number;
     avgTurnAroundTime: number;
+    turnAroundTimePercentiles: PercentileSummary;
   }>
 > => {
   try {
-    const where = buildWhereClause(filters);
-    delete where.branch; // Remove branch filter to get all branches
+    const fx = await resolveConverter(filters, converter);
+    // Remove branch filters to get all branches
+    const unscoped = buildWhereClause(filters);
+    delete unscoped.branch;
+    delete unscoped.branchId;
 
     const branches = await prisma.branch.findMany({
+      where: {
+        ...(filters.includeDeleted ? {} : { deletedAt: null }),
+        ...(filters.country ? matchCountry(filters.country) : {}),
+      },
       include: {
+        country: true,
         leads: {
-          where,
+          where: unscoped,
         },
       },
     });
@@ -531,31 +982,22 @@ export const getAllBranchesPerformance = async (
       const convertedLeads = branch.leads.filter((l) => l.status === 'Product/Service Sold').length;
       const totalRevenue = branch.leads
         .filter((l) => l.status === 'Product/Service Sold')
-        .reduce((sum, l) => sum + l.revenue, 0);
-
-      // Calculate turn around time
-      const contactedLeads = branch.leads.filter((l) => l.contactedAt);
-      let avgTAT = 0;
-      if (contactedLeads.length > 0) {
-        const totalDays = contactedLeads.reduce((sum, l) => {
-          if (l.contactedAt && l.createdAt) {
-            const days = (l.contactedAt.getTime() - l.createdAt.getTime()) / (1000 * 60 * 60 * 24);
-            return sum + days;
-          }
-          return sum;
-        }, 0);
-        avgTAT = totalDays / contactedLeads.length;
-      }
+        .reduce((sum, l) => sum + convertRevenue(fx, l), 0);
+
+      const tat = summariseTurnAroundTime(branch.leads);
 
       const conversionRate = totalLeads > 0 ? (convertedLeads / totalLeads) * 100 : 0;
 
       return {
         branchId: branch.id,
         branchName: branch.name,
+        countryId: branch.countryId,
+        countryName: branch.country?.name ?? null,
         totalLeads,
         totalRevenue: Number(totalRevenue.toFixed(2)),
         conversionRate: Number(conversionRate.toFixed(2)),
-        avgTurnAroundTime: Number(avgTAT.toFixed(2)),
+        avgTurnAroundTime: tat.mean,
+        turnAroundTimePercentiles: tat.percentiles,
       };
     });
   } catch (error) {
@@ -566,64 +1008,76 @@ export const getAllBranchesPerformance = async (
 
 /**
  * Get calling pattern analysis for insights
+ * Built from every logged call attempt: a call is successful when its outcome is in
+ * SUCCESSFUL_CALL_OUTCOMES. The date range applies to when the call was made.
  */
 export const getCallingPatternAnalysis = async (
   filters: DashboardFilters
 ): Promise<{
   bestCallingHour: { hour: number; successRate: number };
-  hourlyStats: Array<{
-    hour: number;
-    totalCalls: number;
-    successfulCalls: number;
-    successRate: number;
-  }>;
+  bestCallingDay: { day: number; dayName: string; successRate: number } | null;
+  hourlyStats: CallingPatternStat[];
+  dayOfWeekStats: Array<CallingPatternStat & { dayName: string }>;
 }> => {
   try {
-    const where = buildWhereClause(filters);
-    where.contactedAt = {
-      not: null,
-    };
+    const leadWhere = buildWhereClause(filters);
+    delete leadWhere.createdAt;
 
-    const leads = await prisma.lead.findMany({
-      where,
+    const calls = await prisma.callActivity.findMany({
+      where: {
+        lead: leadWhere,
+        calledAt: getDateRangeFilter(filters),
+      },
       select: {
-        contactedAt: true,
-        status: true,
+        calledAt: true,
+        outcome: true,
       },
     });
 
-    // Group by hour
-    const hourlyData: Record<
-      number,
-      { totalCalls: number; successfulCalls: number }
-    > = {};
-
-    leads.forEach((lead) => {
-      if (!lead.contactedAt) return;
-      const hour = lead.contactedAt.getHours();
-      if (!hourlyData[hour]) {
-        hourlyData[hour] = { totalCalls: 0, successfulCalls: 0 };
-      }
-      hourlyData[hour].totalCalls++;
-      if (lead.status === 'Product/Service Sold') {
-        hourlyData[hour].successfulCalls++;
+    // Group by hour of day and day of week
+    const hourlyData: Record<number, { totalCalls: number; successfulCalls: number }> = {};
+    const dailyData: Record<number, { totalCalls: number; successfulCalls: number }> = {};
+
+    calls.forEach((call) => {
+      const successful = SUCCESSFUL_CALL_OUTCOMES.includes(call.outcome as CallOutcome);
+      const { hour, weekday: day } = getZonedParts(call.calledAt, appConfig.timezone);
+
+      for (const [data, key] of [
+        [hourlyData, hour],
+        [dailyData, day],
+      ] as const) {
+        if (!data[key]) {
+          data[key] = { totalCalls: 0, successfulCalls: 0 };
+        }
+        data[key].totalCalls++;
+        if (successful) {
+          data[key].successfulCalls++;
+        }
       }
     });
 
-    const hourlyStats = Object.entries(hourlyData)
-      .map(([hour, data]) => {
-        const successRate =
-          data.totalCalls > 0 ? (data.successfulCalls / data.totalCalls) * 100 : 0;
-        return {
-          hour: Number(hour),
-          totalCalls: data.totalCalls,
-          successfulCalls: data.successfulCalls,
-          successRate: Number(successRate.toFixed(2)),
-        };
-      })
-      .sort((a, b) => a.hour - b.hour);
+    const toStats = (data: Record<number, { totalCalls: number; successfulCalls: number }>) =>
+      Object.entries(data)
+        .map(([key, stat]) => {
+          const successRate =
+            stat.totalCalls > 0 ? (stat.successfulCalls / stat.totalCalls) * 100 : 0;
+          return {
+            key: Number(key),
+            totalCalls: stat.totalCalls,
+            successfulCalls: stat.successfulCalls,
+            successRate: Number(successRate.toFixed(2)),
+          };
+        })
+        .sort((a, b) => a.key - b.key);
+
+    const hourlyStats = toStats(hourlyData).map(({ key, ...stat }) => ({ hour: key, ...stat }));
+    const dayOfWeekStats = toStats(dailyData).map(({ key, ...stat }) => ({
+      day: key,
+      dayName: DAY_NAMES[key],
+      ...stat,
+    }));
 
-    // Find the best calling hour
+    // Find the best calling hour and day
     let bestCallingHour = { hour: 9, successRate: 0 };
     if (hourlyStats.length > 0) {
       const best = hourlyStats.reduce((max, current) =>
@@ -632,9 +1086,19 @@ export const getCallingPatternAnalysis = async (
       bestCallingHour = { hour: best.hour, successRate: best.successRate };
     }
 
+    let bestCallingDay: { day: number; dayName: string; successRate: number } | null = null;
+    if (dayOfWeekStats.length > 0) {
+      const best = dayOfWeekStats.reduce((max, current) =>
+        current.successRate > max.successRate ? current : max
+      );
+      bestCallingDay = { day: best.day, dayName: best.dayName, successRate: best.successRate };
+    }
+
     return {
       bestCallingHour,
+      bestCallingDay,
       hourlyStats,
+      dayOfWeekStats,
     };
   } catch (error) {
     logger.error('Error fetching calling pattern analysis:', error);
@@ -644,12 +1108,28 @@ export const getCallingPatternAnalysis = async (
 
 /**
  * Get unique filter options from the database
- * Returns distinct values for branches, agents, products, segments, and campaigns
+ * Returns distinct values for countries, branches, agents, products, segments, and campaigns
+ * Branch and agent options use IDs as values (for branchId / agentId) since agent names aren't unique
+ * Inactive agents are left out unless includeInactive is set
  */
-export const getFilterOptions = async () => {
+export const getFilterOptions = async (includeInactive: boolean = false) => {
   try {
+    // Get all countries
+    const countries = await prisma.country.findMany({
+      select: {
+        id: true,
+        name: true,
+      },
+      orderBy: {
+        name: 'asc',
+      },
+    });
+
     // Get all branches
     const branches = await prisma.branch.findMany({
+      where: {
+        deletedAt: null,
+      },
       select: {
         id: true,
         name: true,
@@ -661,6 +1141,7 @@ export const getFilterOptions = async () => {
 
     // Get all agents
     const agents = await prisma.agent.findMany({
+      where: includeInactive ? { deletedAt: null } : { active: true, deletedAt: null },
       select: {
         id: true,
         name: true,
@@ -678,6 +1159,7 @@ export const getFilterOptions = async () => {
     // Get distinct products (excluding null values)
     const products = await prisma.lead.findMany({
       where: {
+        deletedAt: null,
         product: {
           not: null,
         },
@@ -694,6 +1176,7 @@ export const getFilterOptions = async () => {
     // Get distinct segments (excluding null values)
     const segments = await prisma.lead.findMany({
       where: {
+        deletedAt: null,
         segment: {
           not: null,
         },
@@ -710,6 +1193,7 @@ export const getFilterOptions = async () => {
     // Get distinct campaigns (excluding null values)
     const campaigns = await prisma.lead.findMany({
       where: {
+        deletedAt: null,
         campaign: {
           not: null,
         },
@@ -724,9 +1208,10 @@ export const getFilterOptions = async () => {
     });
 
     return {
-      branches: branches.map(b => ({ value: b.name, label: b.name })),
+      countries: countries.map(c => ({ value: c.name, label: c.name })),
+      branches: branches.map(b => ({ value: String(b.id), label: b.name })),
       agents: agents.map(a => ({
-        value: a.name,
+        value: String(a.id),
         label: `${a.name} (${a.branch.name})`
       })),
       products: products
@@ -744,3 +1229,153 @@ export const getFilterOptions = async () => {
     throw error;
   }
 };
+
+/**
+ * Get the filter options reachable under the current filters, with lead counts and revenue
+ * Each dimension is counted with every filter except its own, so selecting a branch
+ * narrows the agents on offer but still lists the other branches.
+ * Inactive agents are left out unless includeInactive is set
+ */
+export const getDependentFilterOptions = async (
+  filters: DashboardFilters,
+  includeInactive: boolean = false
+): Promise<DependentFilterOptions> => {
+  try {
+    const fx = await loadFxConverter(filters.currency);
+    const leadSelect = {
+      status: true,
+      revenue: true,
+      currency: true,
+      createdAt: true,
+      convertedAt: true,
+      product: true,
+      segment: true,
+      campaign: true,
+      branchId: true,
+      agentId: true,
+      branch: { select: { name: true, country: { select: { name: true } } } },
+      agent: { select: { name: true, active: true, branch: { select: { name: true } } } },
+    } satisfies Prisma.LeadSelect;
+    type OptionLead = Prisma.LeadGetPayload<{ select: typeof leadSelect }>;
+
+    // Leads under the filters minus the given keys; dimensions without a selection share one query
+    const loaded = new Map<string, Promise<OptionLead[]>>();
+    const loadLeads = (omit: Array<keyof DashboardFilters>): Promise<OptionLead[]> => {
+      const active = omit.filter((key) => filters[key] !== undefined);
+      const cacheKey = active.join(',');
+      if (!loaded.has(cacheKey)) {
+        const scoped = { ...filters };
+        active.forEach((key) => delete scoped[key]);
+        loaded.set(
+          cacheKey,
+          prisma.lead.findMany({ where: buildWhereClause(scoped), select: leadSelect })
+        );
+      }
+      return loaded.get(cacheKey)!;
+    };
+
+    const countOptions = (
+      leads: OptionLead[],
+      option: (lead: OptionLead) => { value: string; label: string } | null
+    ): FilterOptionWithCounts[] => {
+      const options = new Map<string, FilterOptionWithCounts>();
+      for (const lead of leads) {
+        const key = option(lead);
+        if (!key) continue;
+
+        const entry = options.get(key.value) || { ...key, leads: 0, revenue: 0 };
+        entry.leads++;
+        if (lead.status === 'Product/Service Sold') {
+          entry.revenue += convertRevenue(fx, lead);
+        }
+        options.set(key.value, entry);
+      }
+
+      return [...options.values()]
+        .map((entry) => ({ ...entry, revenue: Number(entry.revenue.toFixed(2)) }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    };
+
+    const [countries, branches, agents, products, segments, campaigns] = await Promise.all([
+      loadLeads(['country']).then((leads) =>
+        countOptions(leads, (lead) => {
+          const name = lead.branch.country?.name;
+          return name ? { value: name, label: name } : null;
+        })
+      ),
+      loadLeads(['branch', 'branchId']).then((leads) =>
+        countOptions(leads, (lead) => ({ value: String(lead.branchId), label: lead.branch.name }))
+      ),
+      loadLeads(['agent', 'agentId']).then((leads) =>
+        countOptions(
+          leads.filter((lead) => includeInactive || lead.agent.active),
+          (lead) => ({
+            value: String(lead.agentId),
+            label: `${lead.agent.name} (${lead.agent.branch.name})`,
+          })
+        )
+      ),
+      ...(['product', 'segment', 'campaign'] as const).map((field) =>
+        loadLeads([field]).then((leads) =>
+          countOptions(leads, (lead) => (lead[field] ? { value: lead[field]!, label: lead[field]! } : null))
+        )
+      ),
+    ]);
+
+    return { currency: fx.currency, countries, branches, agents, products, segments, campaigns, filters };
+  } catch (error) {
+    logger.error('Error fetching dependent filter options:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get status change history for filtered leads
+ * Changes are returned in chronological order per lead
+ */
+export const getLeadStatusHistory = async (
+  filters: DashboardFilters
+): Promise<
+  Array<{
+    leadId: number;
+    branchId: number;
+    branchName: string;
+    agentId: number;
+    agentName: string;
+    changes: Array<{ fromStatus: string | null; toStatus: string; changedAt: Date }>;
+  }>
+> => {
+  try {
+    const leads = await prisma.lead.findMany({
+      where: {
+        ...buildWhereClause(filters),
+        statusChanges: {
+          some: {},
+        },
+      },
+      select: {
+        id: true,
+        branchId: true,
+        agentId: true,
+        branch: { select: { name: true } },
+        agent: { select: { name: true } },
+        statusChanges: {
+          select: { fromStatus: true, toStatus: true, changedAt: true },
+          orderBy: [{ changedAt: 'asc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    return leads.map((lead) => ({
+      leadId: lead.id,
+      branchId: lead.branchId,
+      branchName: lead.branch.name,
+      agentId: lead.agentId,
+      agentName: lead.agent.name,
+      changes: lead.statusChanges,
+    }));
+  } catch (error) {
+    logger.error('Error fetching lead status history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * FX Repository
+ * Data access layer for FX rates using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import { buildFxConverter } from '../utils/fx';
+import { FxConverter, FxRatePoint } from '../types/fx.types';
+import { appConfig } from '../config/app.config';
+import logger from '../utils/logger';
+
+/**
+ * Get all FX rates, oldest first
+ */
+export const findFxRates = async (): Promise<FxRatePoint[]> => {
+  return prisma.fxRate.findMany({
+    select: { currency: true, rateDate: true, rate: true },
+    orderBy: [{ currency: 'asc' }, { rateDate: 'asc' }],
+  });
+};
+
+/**
+ * Get the currencies that have at least one rate
+ */
+export const findFxCurrencies = async (): Promise<string[]> => {
+  const rows = await prisma.fxRate.findMany({
+    distinct: ['currency'],
+    select: { currency: true },
+    orderBy: { currency: 'asc' },
+  });
+
+  return rows.map((row) => row.currency);
+};
+
+/**
+ * Insert or replace FX rates keyed by currency and date
+ */
+export const upsertFxRates = async (
+  rates: FxRatePoint[],
+  db: DbClient = prisma
+): Promise<number> => {
+  try {
+    await runInTransaction(async (tx) => {
+      for (const rate of rates) {
+        await tx.fxRate.upsert({
+          where: { currency_rateDate: { currency: rate.currency, rateDate: rate.rateDate } },
+          create: rate,
+          update: { rate: rate.rate },
+        });
+      }
+    }, db);
+
+    return rates.length;
+  } catch (error) {
+    logger.error('Error saving FX rates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Load a converter into the requested currency (defaults to the base currency)
+ */
+export const loadFxConverter = async (currency?: string): Promise<FxConverter> => {
+  const rates = await findFxRates();
+  return buildFxConverter(rates, appConfig.baseCurrency, currency ?? appConfig.baseCurrency);
+};
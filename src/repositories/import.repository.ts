@@ -0,0 +1,144 @@
+/**
+ * Import Repository
+ * Transactional writes for bulk lead import using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import { ValidatedLeadImportRow, LeadImportAcceptedRow } from '../types/import.types';
+import logger from '../utils/logger';
+
+const agentKey = (branch: string, agent: string): string => `${branch}\u0000${agent}`;
+
+/**
+ * Resolve branch and agent names to IDs (creating missing ones) and insert the leads,
+ * all inside a single transaction. On a dry run nothing is created and IDs of
+ * not-yet-existing branches and agents are reported as null.
+ * Only active agents are matched; rows for inactive ones are rejected during validation.
+ */
+export const writeImportedLeads = async (
+  rows: ValidatedLeadImportRow[],
+  dryRun: boolean,
+  db: DbClient = prisma
+): Promise<{
+  accepted: LeadImportAcceptedRow[];
+  createdBranches: string[];
+  createdAgents: string[];
+}> => {
+  try {
+    return await runInTransaction(async (tx) => {
+      const branchIds = new Map<string, number | null>();
+      const agentIds = new Map<string, number | null>();
+      const createdBranches: string[] = [];
+      const createdAgents: string[] = [];
+
+      // A new agent's posting starts with their earliest imported lead
+      const firstLeadAt = new Map<string, Date>();
+      for (const row of rows) {
+        const key = agentKey(row.branch, row.agent);
+        const first = firstLeadAt.get(key);
+        if (!first || row.createdAt < first) {
+          firstLeadAt.set(key, row.createdAt);
+        }
+      }
+
+      for (const row of rows) {
+        if (branchIds.has(row.branch)) continue;
+
+        const existing = await tx.branch.findUnique({ where: { name: row.branch } });
+        if (existing) {
+          branchIds.set(row.branch, existing.id);
+        } else {
+          const created = dryRun
+            ? null
+            : await tx.branch.create({ data: { name: row.branch, countryId: row.countryId } });
+          branchIds.set(row.branch, created?.id ?? null);
+          createdBranches.push(row.branch);
+        }
+      }
+
+      for (const row of rows) {
+        const key = agentKey(row.branch, row.agent);
+        if (agentIds.has(key)) continue;
+
+        const branchId = branchIds.get(row.branch) ?? null;
+        const existing =
+          branchId !== null
+            ? await tx.agent.findFirst({
+                where: { name: row.agent, branchId, active: true, deletedAt: null },
+                orderBy: { id: 'asc' },
+              })
+            : null;
+
+        if (existing) {
+          agentIds.set(key, existing.id);
+        } else {
+          const created =
+            dryRun || branchId === null
+              ? null
+              : await tx.agent.create({
+                  data: {
+                    name: row.agent,
+                    branchId,
+                    email: row.agentEmail,
+                    assignments: {
+                      create: { branchId, effectiveFrom: firstLeadAt.get(key)! },
+                    },
+                  },
+                });
+          agentIds.set(key, created?.id ?? null);
+          createdAgents.push(`${row.agent} (${row.branch})`);
+        }
+      }
+
+      if (dryRun) {
+        return {
+          accepted: rows.map((row) => ({
+            line: row.line,
+            leadId: null,
+            branchId: branchIds.get(row.branch) ?? null,
+            agentId: agentIds.get(agentKey(row.branch, row.agent)) ?? null,
+          })),
+          createdBranches,
+          createdAgents,
+        };
+      }
+
+      // Leads are inserted one at a time so each accepted row maps to its own lead,
+      // together with the initial status in the status history
+      const accepted: LeadImportAcceptedRow[] = [];
+      for (const row of rows) {
+        const lead = await tx.lead.create({
+          data: {
+            branchId: branchIds.get(row.branch)!,
+            agentId: agentIds.get(agentKey(row.branch, row.agent))!,
+            status: row.status,
+            product: row.product,
+            segment: row.segment,
+            campaign: row.campaign,
+            revenue: row.revenue,
+            currency: row.currency,
+            createdAt: row.createdAt,
+            contactedAt: row.contactedAt,
+            convertedAt: row.convertedAt,
+            statusChanges: {
+              create: { fromStatus: null, toStatus: row.status, changedAt: row.createdAt },
+            },
+          },
+          select: { id: true, branchId: true, agentId: true },
+        });
+
+        accepted.push({
+          line: row.line,
+          leadId: lead.id,
+          branchId: lead.branchId,
+          agentId: lead.agentId,
+        });
+      }
+
+      return { accepted, createdBranches, createdAgents };
+    }, db);
+  } catch (error) {
+    logger.error('Error importing leads:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * Ingest Repository
+ * Data access layer for CRM lead events using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import {
+  IngestedLead,
+  IngestedLeadState,
+  IngestedLeadUpdate,
+  LeadEventData,
+  LeadEventType,
+  ReceivedLeadEvent,
+  StoredLeadEvent,
+} from '../types/ingest.types';
+import { LeadStatusValue } from '../types/lead.types';
+import logger from '../utils/logger';
+
+/**
+ * Get the idempotency keys that have already been received
+ */
+export const findExistingEventKeys = async (keys: string[]): Promise<Set<string>> => {
+  const events = await prisma.leadEvent.findMany({
+    where: { idempotencyKey: { in: keys } },
+    select: { idempotencyKey: true },
+  });
+
+  return new Set(events.map((event) => event.idempotencyKey));
+};
+
+/**
+ * Get every stored event for the given external IDs in the order they happened
+ */
+export const findLeadEventsByExternalIds = async (
+  externalIds: string[]
+): Promise<StoredLeadEvent[]> => {
+  const events = await prisma.leadEvent.findMany({
+    where: { externalId: { in: externalIds } },
+    orderBy: [{ occurredAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return events.map((event) => ({
+    id: event.id,
+    idempotencyKey: event.idempotencyKey,
+    externalId: event.externalId,
+    type: event.type as LeadEventType,
+    occurredAt: event.occurredAt,
+    data: JSON.parse(event.data) as LeadEventData,
+  }));
+};
+
+/**
+ * Get the existing leads for the given external IDs, with their status history
+ * Soft-deleted leads are included (flagged by deletedAt) since they still hold the external ID
+ */
+export const findIngestedLeads = async (
+  externalIds: string[]
+): Promise<Map<string, IngestedLead>> => {
+  const leads = await prisma.lead.findMany({
+    where: { externalId: { in: externalIds } },
+    include: {
+      statusChanges: {
+        orderBy: [{ changedAt: 'asc' }, { id: 'asc' }],
+        select: { toStatus: true, changedAt: true },
+      },
+    },
+  });
+
+  return new Map(
+    leads.map((lead) => [
+      lead.externalId!,
+      {
+        id: lead.id,
+        externalId: lead.externalId!,
+        status: lead.status as LeadStatusValue,
+        revenue: lead.revenue,
+        currency: lead.currency,
+        createdAt: lead.createdAt,
+        contactedAt: lead.contactedAt,
+        convertedAt: lead.convertedAt,
+        deletedAt: lead.deletedAt,
+        history: lead.statusChanges.map((change) => ({
+          toStatus: change.toStatus as LeadStatusValue,
+          changedAt: change.changedAt,
+        })),
+      },
+    ])
+  );
+};
+
+/**
+ * Store newly received events for one external ID together with their effect on its
+ * lead: a new lead, changes merged into the existing one, or nothing while the lead
+ * waits for its created event. Events are never stored without being applied; a key
+ * stored concurrently by a retry fails the whole write. Returns the lead ID, if any.
+ */
+export const saveLeadEvents = async (
+  events: ReceivedLeadEvent[],
+  lead: IngestedLeadState | IngestedLeadUpdate | null,
+  db: DbClient = prisma
+): Promise<number | null> => {
+  try {
+    return await runInTransaction(async (tx) => {
+      await tx.leadEvent.createMany({
+        data: events.map((event) => ({
+          idempotencyKey: event.idempotencyKey,
+          externalId: event.externalId,
+          type: event.type,
+          occurredAt: event.occurredAt,
+          data: JSON.stringify(event.data),
+        })),
+      });
+
+      if (!lead) return null;
+
+      const { statusChanges, ignoredEventKeys: _ignored, ...fields } = lead;
+      let leadId: number;
+
+      if ('leadId' in fields) {
+        const { leadId: id, ...changes } = fields;
+        leadId = id;
+        // Only leads an event actually moved are touched, so later edits are kept otherwise
+        if (statusChanges.length > 0) {
+          await tx.lead.update({ where: { id }, data: changes });
+        }
+      } else {
+        leadId = (await tx.lead.create({ data: fields, select: { id: true } })).id;
+      }
+
+      if (statusChanges.length > 0) {
+        await tx.leadStatusChange.createMany({
+          data: statusChanges.map((change) => ({ leadId, ...change })),
+        });
+      }
+
+      return leadId;
+    }, db);
+  } catch (error) {
+    logger.error('Error saving lead events:', error);
+    throw error;
+  }
+};
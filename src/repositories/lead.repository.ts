@@ -0,0 +1,133 @@
+/**
+ * Lead Repository
+ * Data access layer for lead write operations using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { LeadDetails } from '../types/lead.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const leadInclude = {
+  branch: true,
+  agent: true,
+} satisfies Prisma.LeadInclude;
+
+type LeadWithRelations = Prisma.LeadGetPayload<{ include: typeof leadInclude }>;
+
+/**
+ * Map a Prisma lead (with branch and agent) to the API shape
+ */
+const toLeadDetails = (lead: LeadWithRelations): LeadDetails => ({
+  id: lead.id,
+  branchId: lead.branchId,
+  branchName: lead.branch.name,
+  agentId: lead.agentId,
+  agentName: lead.agent.name,
+  status: lead.status,
+  product: lead.product,
+  segment: lead.segment,
+  campaign: lead.campaign,
+  revenue: lead.revenue,
+  currency: lead.currency,
+  createdAt: lead.createdAt.toISOString(),
+  updatedAt: lead.updatedAt.toISOString(),
+  contactedAt: lead.contactedAt?.toISOString() || null,
+  convertedAt: lead.convertedAt?.toISOString() || null,
+});
+
+/**
+ * Find a lead by ID, ignoring deleted leads
+ */
+export const findLeadById = async (id: number): Promise<LeadDetails | null> => {
+  try {
+    const lead = await prisma.lead.findFirst({
+      where: { id, deletedAt: null },
+      include: leadInclude,
+    });
+
+    return lead ? toLeadDetails(lead) : null;
+  } catch (error) {
+    logger.error('Error fetching lead:', error);
+    throw error;
+  }
+};
+
+/**
+ * Insert a new lead
+ */
+export const insertLead = async (
+  data: Prisma.LeadUncheckedCreateInput,
+  db: DbClient = prisma
+): Promise<LeadDetails> => {
+  try {
+    const lead = await db.lead.create({
+      data,
+      include: leadInclude,
+    });
+
+    return toLeadDetails(lead);
+  } catch (error) {
+    logger.error('Error creating lead:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update an existing lead
+ */
+export const updateLeadById = async (
+  id: number,
+  data: Prisma.LeadUncheckedUpdateInput,
+  db: DbClient = prisma
+): Promise<LeadDetails> => {
+  try {
+    const lead = await db.lead.update({
+      where: { id },
+      data,
+      include: leadInclude,
+    });
+
+    return toLeadDetails(lead);
+  } catch (error) {
+    logger.error('Error updating lead:', error);
+    throw error;
+  }
+};
+
+/**
+ * Soft-delete a lead; it drops out of dashboard metrics but keeps its history
+ */
+export const deleteLeadById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    await db.lead.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  } catch (error) {
+    logger.error('Error deleting lead:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find an agent by ID (used to validate lead assignment)
+ */
+export const findAgentForLead = async (
+  id: number
+): Promise<{ id: number; branchId: number; active: boolean } | null> => {
+  return prisma.agent.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true, branchId: true, active: true },
+  });
+};
+
+/**
+ * Find a branch by ID (used to validate lead assignment)
+ */
+export const findBranchForLead = async (id: number): Promise<{ id: number } | null> => {
+  return prisma.branch.findFirst({
+    where: { id, deletedAt: null },
+    select: { id: true },
+  });
+};
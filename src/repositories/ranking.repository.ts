@@ -0,0 +1,75 @@
+/**
+ * Ranking Repository
+ * Data access layer for organisation-wide ranking settings using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { RankingMethod, RankingSettings, RankingWeights } from '../types/ranking.types';
+import logger from '../utils/logger';
+import type { RankingSettings as RankingSettingsRow } from '@prisma/client';
+
+/**
+ * The organisation's settings live in a single row
+ */
+const SETTINGS_ID = 1;
+
+/**
+ * Map the Prisma settings row to the API shape
+ */
+const toRankingSettings = (row: RankingSettingsRow): RankingSettings => ({
+  method: row.method as RankingMethod,
+  weights: {
+    revenue: row.revenueWeight,
+    conversionRate: row.conversionWeight,
+    leads: row.leadsWeight,
+    turnAroundTime: row.tatWeight,
+  },
+  updatedBy: row.updatedBy,
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+/**
+ * Find the organisation's ranking settings (null until they are first saved)
+ */
+export const findRankingSettings = async (): Promise<RankingSettings | null> => {
+  try {
+    const row = await prisma.rankingSettings.findUnique({ where: { id: SETTINGS_ID } });
+
+    return row ? toRankingSettings(row) : null;
+  } catch (error) {
+    logger.error('Error fetching ranking settings:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create or replace the organisation's ranking settings
+ */
+export const saveRankingSettings = async (
+  method: RankingMethod,
+  weights: RankingWeights,
+  updatedBy: string,
+  db: DbClient = prisma
+): Promise<RankingSettings> => {
+  try {
+    const data = {
+      method,
+      revenueWeight: weights.revenue,
+      conversionWeight: weights.conversionRate,
+      leadsWeight: weights.leads,
+      tatWeight: weights.turnAroundTime,
+      updatedBy,
+    };
+
+    const row = await db.rankingSettings.upsert({
+      where: { id: SETTINGS_ID },
+      create: { id: SETTINGS_ID, ...data },
+      update: data,
+    });
+
+    return toRankingSettings(row);
+  } catch (error) {
+    logger.error('Error saving ranking settings:', error);
+    throw error;
+  }
+};
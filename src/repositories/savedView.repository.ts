@@ -0,0 +1,149 @@
+/**
+ * Saved View Repository
+ * Data access layer for saved dashboard views using Prisma ORM
+ */
+
+import { DbClient, prisma, runInTransaction } from '../utils/prisma';
+import { DashboardFilters } from '../types/dashboard.types';
+import { SavedViewDetails, SavedViewScope, SavedViewViewer } from '../types/savedView.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const savedViewInclude = {
+  branch: { select: { name: true } },
+} satisfies Prisma.SavedViewInclude;
+
+type SavedViewWithBranch = Prisma.SavedViewGetPayload<{ include: typeof savedViewInclude }>;
+
+/**
+ * Map a Prisma saved view to the API shape
+ */
+const toSavedViewDetails = (view: SavedViewWithBranch): SavedViewDetails => ({
+  id: view.id,
+  name: view.name,
+  owner: view.owner,
+  filters: JSON.parse(view.filters) as DashboardFilters,
+  isDefault: view.isDefault,
+  scope: view.scope as SavedViewScope,
+  branchId: view.branchId,
+  branchName: view.branch?.name ?? null,
+  createdAt: view.createdAt.toISOString(),
+  updatedAt: view.updatedAt.toISOString(),
+});
+
+/**
+ * Views a viewer may see: their own, organisation-wide ones and those shared with their branch
+ */
+const visibleTo = (viewer: SavedViewViewer): Prisma.SavedViewWhereInput => ({
+  OR: [
+    { owner: viewer.actor },
+    { scope: 'organisation' },
+    ...(viewer.branchId !== null ? [{ scope: 'branch', branchId: viewer.branchId }] : []),
+  ],
+});
+
+/**
+ * List the views visible to a viewer, their own first
+ */
+export const findSavedViews = async (viewer: SavedViewViewer): Promise<SavedViewDetails[]> => {
+  try {
+    const views = await prisma.savedView.findMany({
+      where: visibleTo(viewer),
+      include: savedViewInclude,
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    });
+
+    return views
+      .map(toSavedViewDetails)
+      .sort((a, b) => Number(b.owner === viewer.actor) - Number(a.owner === viewer.actor));
+  } catch (error) {
+    logger.error('Error fetching saved views:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a view by ID if the viewer may see it
+ */
+export const findSavedViewById = async (
+  id: number,
+  viewer: SavedViewViewer
+): Promise<SavedViewDetails | null> => {
+  try {
+    const view = await prisma.savedView.findFirst({
+      where: { id, ...visibleTo(viewer) },
+      include: savedViewInclude,
+    });
+
+    return view ? toSavedViewDetails(view) : null;
+  } catch (error) {
+    logger.error('Error fetching saved view:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find an owner's default view
+ */
+export const findDefaultSavedView = async (owner: string): Promise<SavedViewDetails | null> => {
+  const view = await prisma.savedView.findFirst({
+    where: { owner, isDefault: true },
+    include: savedViewInclude,
+  });
+
+  return view ? toSavedViewDetails(view) : null;
+};
+
+/**
+ * Find an owner's view by name (names are unique per owner)
+ */
+export const findSavedViewByName = async (
+  owner: string,
+  name: string
+): Promise<{ id: number } | null> => {
+  return prisma.savedView.findUnique({
+    where: { owner_name: { owner, name } },
+    select: { id: true },
+  });
+};
+
+/**
+ * Insert or update a view; making it the default clears the owner's previous default
+ */
+export const saveSavedView = async (
+  data: Prisma.SavedViewUncheckedCreateInput,
+  id?: number,
+  db: DbClient = prisma
+): Promise<SavedViewDetails> => {
+  try {
+    return await runInTransaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.savedView.updateMany({
+          where: { owner: data.owner, isDefault: true, ...(id ? { id: { not: id } } : {}) },
+          data: { isDefault: false },
+        });
+      }
+
+      const view = id
+        ? await tx.savedView.update({ where: { id }, data, include: savedViewInclude })
+        : await tx.savedView.create({ data, include: savedViewInclude });
+
+      return toSavedViewDetails(view);
+    }, db);
+  } catch (error) {
+    logger.error('Error saving saved view:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a view
+ */
+export const deleteSavedViewById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    await db.savedView.delete({ where: { id } });
+  } catch (error) {
+    logger.error('Error deleting saved view:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * Target Repository
+ * Data access layer for revenue and lead targets using Prisma ORM
+ */
+
+import { DbClient, prisma } from '../utils/prisma';
+import { TargetDetails, TargetListOptions, TargetPeriod } from '../types/target.types';
+import logger from '../utils/logger';
+import type { Prisma } from '@prisma/client';
+
+const targetInclude = {
+  branch: { select: { name: true } },
+  agent: { select: { name: true } },
+} satisfies Prisma.TargetInclude;
+
+type TargetWithRelations = Prisma.TargetGetPayload<{ include: typeof targetInclude }>;
+
+/**
+ * Map a Prisma target to the API shape
+ */
+const toTargetDetails = (target: TargetWithRelations): TargetDetails => ({
+  id: target.id,
+  scope: target.agentId !== null ? 'agent' : 'branch',
+  branchId: target.branchId,
+  branchName: target.branch?.name ?? null,
+  agentId: target.agentId,
+  agentName: target.agent?.name ?? null,
+  periodStart: target.periodStart.toISOString(),
+  periodEnd: target.periodEnd.toISOString(),
+  revenueTarget: target.revenueTarget,
+  leadTarget: target.leadTarget,
+  createdAt: target.createdAt.toISOString(),
+  updatedAt: target.updatedAt.toISOString(),
+});
+
+/**
+ * Sum targets prorated to the part of each target period that falls inside [start, end)
+ * A missing start means "from the beginning of time"
+ */
+export const sumProratedTargets = (
+  targets: TargetPeriod[],
+  start: Date | undefined,
+  end: Date
+): { revenueTarget: number; leadTarget: number } => {
+  return targets.reduce(
+    (totals, target) => {
+      const periodMs = target.periodEnd.getTime() - target.periodStart.getTime();
+      const overlapStart = Math.max(target.periodStart.getTime(), start?.getTime() ?? -Infinity);
+      const overlapEnd = Math.min(target.periodEnd.getTime(), end.getTime());
+      const overlapMs = overlapEnd - overlapStart;
+
+      if (periodMs <= 0 || overlapMs <= 0) {
+        return totals;
+      }
+
+      const share = overlapMs / periodMs;
+      return {
+        revenueTarget: totals.revenueTarget + target.revenueTarget * share,
+        leadTarget: totals.leadTarget + target.leadTarget * share,
+      };
+    },
+    { revenueTarget: 0, leadTarget: 0 }
+  );
+};
+
+/**
+ * Find targets matching a scope whose period overlaps [start, end)
+ */
+export const findTargetPeriods = async (
+  where: Prisma.TargetWhereInput,
+  start: Date | undefined,
+  end: Date
+): Promise<Array<TargetPeriod & { branchId: number | null; agentId: number | null }>> => {
+  return prisma.target.findMany({
+    where: {
+      ...where,
+      periodStart: { lt: end },
+      ...(start ? { periodEnd: { gt: start } } : {}),
+    },
+    select: {
+      branchId: true,
+      agentId: true,
+      periodStart: true,
+      periodEnd: true,
+      revenueTarget: true,
+      leadTarget: true,
+    },
+  });
+};
+
+/**
+ * List targets
+ */
+export const findTargets = async (options: TargetListOptions = {}): Promise<TargetDetails[]> => {
+  try {
+    const where: Prisma.TargetWhereInput = {};
+
+    if (options.branchId) {
+      where.branchId = options.branchId;
+    }
+    if (options.agentId) {
+      where.agentId = options.agentId;
+    }
+    if (options.to) {
+      where.periodStart = { lt: new Date(options.to) };
+    }
+    if (options.from) {
+      where.periodEnd = { gt: new Date(options.from) };
+    }
+
+    const targets = await prisma.target.findMany({
+      where,
+      include: targetInclude,
+      orderBy: [{ periodStart: 'asc' }, { id: 'asc' }],
+    });
+
+    return targets.map(toTargetDetails);
+  } catch (error) {
+    logger.error('Error fetching targets:', error);
+    throw error;
+  }
+};
+
+/**
+ * Find a target by ID
+ */
+export const findTargetById = async (id: number): Promise<TargetDetails | null> => {
+  const target = await prisma.target.findUnique({
+    where: { id },
+    include: targetInclude,
+  });
+
+  return target ? toTargetDetails(target) : null;
+};
+
+/**
+ * Find targets for the same branch or agent whose period overlaps [start, end)
+ */
+export const findOverlappingTargets = async (
+  scope: { branchId: number | null; agentId: number | null },
+  start: Date,
+  end: Date
+): Promise<Array<{ id: number; periodStart: Date; periodEnd: Date }>> => {
+  return prisma.target.findMany({
+    where: {
+      branchId: scope.branchId,
+      agentId: scope.agentId,
+      periodStart: { lt: end },
+      periodEnd: { gt: start },
+    },
+    select: { id: true, periodStart: true, periodEnd: true },
+  });
+};
+
+/**
+ * Insert or update a target
+ */
+export const saveTarget = async (
+  id: number | null,
+  data: Prisma.TargetUncheckedCreateInput,
+  db: DbClient = prisma
+): Promise<TargetDetails> => {
+  try {
+    const target = id
+      ? await db.target.update({ where: { id }, data, include: targetInclude })
+      : await db.target.create({ data, include: targetInclude });
+
+    return toTargetDetails(target);
+  } catch (error) {
+    logger.error('Error saving target:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a target
+ */
+export const deleteTargetById = async (id: number, db: DbClient = prisma): Promise<void> => {
+  try {
+    await db.target.delete({ where: { id } });
+  } catch (error) {
+    logger.error('Error deleting target:', error);
+    throw error;
+  }
+};
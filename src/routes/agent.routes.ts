@@ -0,0 +1,81 @@
+/**
+ * Agent Routes
+ * Route definitions for agent management endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getAgents,
+  getAgentById,
+  postAgent,
+  patchAgent,
+  postAgentTransfer,
+  postAgentDeactivate,
+  postAgentReactivate,
+  removeAgent,
+} from '../controllers/agent.controller';
+import {
+  validate,
+  validateIdParam,
+  validateAgentList,
+  validateCreateAgent,
+  validateUpdateAgent,
+  validateTransferAgent,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/agents
+ * List agents; inactive agents are hidden unless includeInactive=true
+ */
+router.get('/', apiRateLimit, validate(validateAgentList), getAgents);
+
+/**
+ * POST /api/agents
+ * Create an agent
+ */
+router.post('/', apiRateLimit, validate(validateCreateAgent), postAgent);
+
+/**
+ * GET /api/agents/:id
+ * Get a single agent with branch assignment history
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getAgentById);
+
+/**
+ * PATCH /api/agents/:id
+ * Update an agent's name or email
+ */
+router.patch('/:id', apiRateLimit, validate(validateUpdateAgent), patchAgent);
+
+/**
+ * POST /api/agents/:id/transfer
+ * Move an agent to another branch from an effective date
+ */
+router.post('/:id/transfer', apiRateLimit, validate(validateTransferAgent), postAgentTransfer);
+
+/**
+ * POST /api/agents/:id/deactivate
+ * Deactivate an agent, keeping their historical leads
+ */
+router.post('/:id/deactivate', apiRateLimit, validate(validateIdParam), postAgentDeactivate);
+
+/**
+ * POST /api/agents/:id/reactivate
+ * Reactivate a deactivated agent
+ */
+router.post('/:id/reactivate', apiRateLimit, validate(validateIdParam), postAgentReactivate);
+
+/**
+ * DELETE /api/agents/:id
+ * Delete an agent that has no leads
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeAgent);
+
+export default router;
@@ -0,0 +1,51 @@
+/**
+ * Alert Routes
+ * Route definitions for anomaly alert endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getAlerts,
+  getAlertById,
+  postAlertAcknowledge,
+  postAlertResolve,
+} from '../controllers/alert.controller';
+import {
+  validate,
+  validateIdParam,
+  validateAlertQuery,
+  validateResolveAlert,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/alerts
+ * List alerts (paginated), optionally by status, entity, metric and day
+ */
+router.get('/', apiRateLimit, validate(validateAlertQuery), getAlerts);
+
+/**
+ * GET /api/alerts/:id
+ * Get a single alert
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getAlertById);
+
+/**
+ * POST /api/alerts/:id/acknowledge
+ * Acknowledge an open alert
+ */
+router.post('/:id/acknowledge', apiRateLimit, validate(validateIdParam), postAlertAcknowledge);
+
+/**
+ * POST /api/alerts/:id/resolve
+ * Resolve an alert, optionally with a resolution note
+ */
+router.post('/:id/resolve', apiRateLimit, validate(validateResolveAlert), postAlertResolve);
+
+export default router;
@@ -0,0 +1,61 @@
+/**
+ * Analytics Routes
+ * Route definitions for lead analytics endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getFunnel,
+  getCohorts,
+  getTurnAroundTimeDistribution,
+  getForecast,
+} from '../controllers/analytics.controller';
+import {
+  validate,
+  validateFunnelQuery,
+  validateCohortQuery,
+  validateTatDistributionQuery,
+  validateForecastQuery,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/analytics/funnel
+ * Get lead counts, step conversion rates and median time between funnel steps,
+ * optionally broken down by branch, agent, product, segment or campaign
+ */
+router.get('/funnel', apiRateLimit, validate(validateFunnelQuery), getFunnel);
+
+/**
+ * GET /api/analytics/cohorts
+ * Get contact and conversion rates 1, 7, 14 and 30 days after creation for leads
+ * grouped by creation week or month
+ */
+router.get('/cohorts', apiRateLimit, validate(validateCohortQuery), getCohorts);
+
+/**
+ * GET /api/analytics/tat-distribution
+ * Get the mean, median, p75, p90, p95 and histogram of days from creation to first
+ * contact, optionally per branch or agent
+ */
+router.get(
+  '/tat-distribution',
+  apiRateLimit,
+  validate(validateTatDistributionQuery),
+  getTurnAroundTimeDistribution
+);
+
+/**
+ * GET /api/analytics/forecast
+ * Project daily leads and sold revenue with prediction intervals, or backtest the model
+ * against the most recent days of history
+ */
+router.get('/forecast', apiRateLimit, validate(validateForecastQuery), getForecast);
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * Audit Routes
+ * Route definitions for audit trail endpoints
+ */
+
+import { Router } from 'express';
+import { getAuditEvents } from '../controllers/audit.controller';
+import { validate, validateAuditQuery } from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/audit-events
+ * List audit events (paginated), optionally by entity and actor
+ */
+router.get('/', apiRateLimit, validate(validateAuditQuery), getAuditEvents);
+
+export default router;
@@ -0,0 +1,59 @@
+/**
+ * Branch Routes
+ * Route definitions for branch management endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getBranches,
+  getBranchById,
+  postBranch,
+  patchBranch,
+  removeBranch,
+} from '../controllers/branch.controller';
+import {
+  validate,
+  validateIdParam,
+  validateCreateBranch,
+  validateUpdateBranch,
+  validateBranchList,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/branches
+ * List branches with agent and lead counts
+ */
+router.get('/', apiRateLimit, validate(validateBranchList), getBranches);
+
+/**
+ * POST /api/branches
+ * Create a branch
+ */
+router.post('/', apiRateLimit, validate(validateCreateBranch), postBranch);
+
+/**
+ * GET /api/branches/:id
+ * Get a single branch
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getBranchById);
+
+/**
+ * PATCH /api/branches/:id
+ * Rename a branch
+ */
+router.patch('/:id', apiRateLimit, validate(validateUpdateBranch), patchBranch);
+
+/**
+ * DELETE /api/branches/:id
+ * Delete a branch with no agents, leads or agent history
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeBranch);
+
+export default router;
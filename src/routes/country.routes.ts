@@ -0,0 +1,58 @@
+/**
+ * Country Routes
+ * Route definitions for country management endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getCountries,
+  getCountryById,
+  postCountry,
+  patchCountry,
+  removeCountry,
+} from '../controllers/country.controller';
+import {
+  validate,
+  validateIdParam,
+  validateCreateCountry,
+  validateUpdateCountry,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/countries
+ * List countries with branch counts
+ */
+router.get('/', apiRateLimit, getCountries);
+
+/**
+ * POST /api/countries
+ * Create a country
+ */
+router.post('/', apiRateLimit, validate(validateCreateCountry), postCountry);
+
+/**
+ * GET /api/countries/:id
+ * Get a single country
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getCountryById);
+
+/**
+ * PATCH /api/countries/:id
+ * Update a country
+ */
+router.patch('/:id', apiRateLimit, validate(validateUpdateCountry), patchCountry);
+
+/**
+ * DELETE /api/countries/:id
+ * Delete a country with no branches
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeCountry);
+
+export default router;
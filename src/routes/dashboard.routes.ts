@@ -4,8 +4,17 @@
  */
 
 import { Router } from 'express';
-import { getDashboard, getFilters } from '../controllers/dashboard.controller';
-import { validateDashboardQuery, validate } from '../middleware/validation.middleware';
+import {
+  getDashboard,
+  getFilters,
+  getStageTimes,
+  getTimeSeries,
+} from '../controllers/dashboard.controller';
+import {
+  validateDashboardQuery,
+  validateTimeSeriesQuery,
+  validate,
+} from '../middleware/validation.middleware';
 import { apiRateLimit } from '../middleware/rateLimit.middleware';
 import { performanceMonitor } from '../middleware/performance.middleware';
 
@@ -16,9 +25,33 @@ router.use(performanceMonitor);
 
 /**
  * GET /api/dashboard/filters
- * Get available filter options
+ * Get available filter options; with dashboard filters, only the options still
+ * reachable under them (with lead counts and revenue)
  */
-router.get('/filters', apiRateLimit, getFilters);
+router.get('/filters', apiRateLimit, validate(validateDashboardQuery), getFilters);
+
+/**
+ * GET /api/dashboard/stage-times
+ * Get average and median time in each lead status per branch and agent
+ */
+router.get(
+  '/stage-times',
+  apiRateLimit,
+  validate(validateDashboardQuery),
+  getStageTimes
+);
+
+/**
+ * GET /api/dashboard/timeseries
+ * Get leads, conversions and revenue per day, week or month, optionally per
+ * branch, agent or product
+ */
+router.get(
+  '/timeseries',
+  apiRateLimit,
+  validate(validateTimeSeriesQuery),
+  getTimeSeries
+);
 
 /**
  * GET /api/dashboard
@@ -5,12 +5,52 @@
 
 import { Router } from 'express';
 import dashboardRoutes from './dashboard.routes';
+import leadRoutes from './lead.routes';
+import countryRoutes from './country.routes';
+import branchRoutes from './branch.routes';
+import agentRoutes from './agent.routes';
+import targetRoutes from './target.routes';
+import auditRoutes from './audit.routes';
+import ingestRoutes from './ingest.routes';
+import savedViewRoutes from './savedView.routes';
+import analyticsRoutes from './analytics.routes';
+import alertRoutes from './alert.routes';
+import rankingRoutes from './ranking.routes';
 
 const router = Router();
 
 // Dashboard routes
 router.use('/dashboard', dashboardRoutes);
 
+// Lead analytics routes
+router.use('/analytics', analyticsRoutes);
+
+// Ranking routes
+router.use('/rankings', rankingRoutes);
+
+// Anomaly alert routes
+router.use('/alerts', alertRoutes);
+
+// Saved dashboard view routes
+router.use('/saved-views', savedViewRoutes);
+
+// Lead routes
+router.use('/leads', leadRoutes);
+
+// Country, branch and agent management routes
+router.use('/countries', countryRoutes);
+router.use('/branches', branchRoutes);
+router.use('/agents', agentRoutes);
+
+// Target routes
+router.use('/targets', targetRoutes);
+
+// Audit trail routes
+router.use('/audit-events', auditRoutes);
+
+// CRM webhook routes
+router.use('/ingest', ingestRoutes);
+
 // Health check route (already in app.ts, but can be here too)
 router.get('/health', (_req, res) => {
   res.status(200).json({
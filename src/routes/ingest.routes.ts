@@ -0,0 +1,24 @@
+/**
+ * Ingest Routes
+ * Route definitions for CRM webhook endpoints
+ */
+
+import { Router } from 'express';
+import { postLeadEvents } from '../controllers/ingest.controller';
+import { validate, validateIngestLeadEvents } from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * POST /api/ingest/lead-events
+ * Ingest a batch of CRM lead events (created, contacted, converted, closed)
+ * Safe to retry: events are deduplicated by idempotencyKey
+ */
+router.post('/lead-events', apiRateLimit, validate(validateIngestLeadEvents), postLeadEvents);
+
+export default router;
@@ -0,0 +1,80 @@
+/**
+ * Lead Routes
+ * Route definitions for lead endpoints
+ */
+
+import express, { Router } from 'express';
+import {
+  getLeadById,
+  postLead,
+  patchLead,
+  removeLead,
+  importLeads,
+  getLeadCalls,
+  postLeadCall,
+} from '../controllers/lead.controller';
+import {
+  validate,
+  validateIdParam,
+  validateCreateLead,
+  validateUpdateLead,
+  validateLeadImport,
+  validateLogCall,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * POST /api/leads
+ * Create a lead
+ */
+router.post('/', apiRateLimit, validate(validateCreateLead), postLead);
+
+/**
+ * POST /api/leads/import
+ * Bulk import leads from CSV (text/csv body); ?dryRun=true validates without writing
+ */
+router.post(
+  '/import',
+  apiRateLimit,
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  validate(validateLeadImport),
+  importLeads
+);
+
+/**
+ * GET /api/leads/:id
+ * Get a single lead
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getLeadById);
+
+/**
+ * PATCH /api/leads/:id
+ * Update a lead; status changes must follow the allowed transitions
+ */
+router.patch('/:id', apiRateLimit, validate(validateUpdateLead), patchLead);
+
+/**
+ * DELETE /api/leads/:id
+ * Soft-delete a lead (excluded from dashboards unless includeDeleted=true)
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeLead);
+
+/**
+ * GET /api/leads/:id/calls
+ * List the calls made to a lead
+ */
+router.get('/:id/calls', apiRateLimit, validate(validateIdParam), getLeadCalls);
+
+/**
+ * POST /api/leads/:id/calls
+ * Log a call attempt (outcome, duration, agent)
+ */
+router.post('/:id/calls', apiRateLimit, validate(validateLogCall), postLeadCall);
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * Ranking Routes
+ * Route definitions for branch rankings and ranking settings
+ */
+
+import { Router } from 'express';
+import { getBranchRankings, getSettings, putSettings } from '../controllers/ranking.controller';
+import {
+  validate,
+  validateDashboardQuery,
+  validateUpdateRankingSettings,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/rankings/branches
+ * Rank every branch by normalised score, with each component's contribution
+ */
+router.get('/branches', apiRateLimit, validate(validateDashboardQuery), getBranchRankings);
+
+/**
+ * GET /api/rankings/settings
+ * Get the organisation's normalisation method and weights
+ */
+router.get('/settings', apiRateLimit, getSettings);
+
+/**
+ * PUT /api/rankings/settings
+ * Change the normalisation method and/or weights
+ */
+router.put('/settings', apiRateLimit, validate(validateUpdateRankingSettings), putSettings);
+
+export default router;
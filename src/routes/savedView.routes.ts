@@ -0,0 +1,58 @@
+/**
+ * Saved View Routes
+ * Route definitions for saved dashboard view endpoints
+ */
+
+import { Router } from 'express';
+import {
+  getSavedViews,
+  getSavedViewById,
+  postSavedView,
+  patchSavedView,
+  removeSavedView,
+} from '../controllers/savedView.controller';
+import {
+  validate,
+  validateIdParam,
+  validateCreateSavedView,
+  validateUpdateSavedView,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/saved-views
+ * List the caller's views plus those shared with their branch or the organisation
+ */
+router.get('/', apiRateLimit, getSavedViews);
+
+/**
+ * POST /api/saved-views
+ * Save a named filter combination
+ */
+router.post('/', apiRateLimit, validate(validateCreateSavedView), postSavedView);
+
+/**
+ * GET /api/saved-views/:id
+ * Get a saved view
+ */
+router.get('/:id', apiRateLimit, validate(validateIdParam), getSavedViewById);
+
+/**
+ * PATCH /api/saved-views/:id
+ * Update one of the caller's views
+ */
+router.patch('/:id', apiRateLimit, validate(validateUpdateSavedView), patchSavedView);
+
+/**
+ * DELETE /api/saved-views/:id
+ * Delete one of the caller's views
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeSavedView);
+
+export default router;
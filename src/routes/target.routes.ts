@@ -0,0 +1,40 @@
+/**
+ * Target Routes
+ * Route definitions for target endpoints
+ */
+
+import { Router } from 'express';
+import { getTargets, postTarget, removeTarget } from '../controllers/target.controller';
+import {
+  validate,
+  validateIdParam,
+  validateTargetList,
+  validateSetTarget,
+} from '../middleware/validation.middleware';
+import { apiRateLimit } from '../middleware/rateLimit.middleware';
+import { performanceMonitor } from '../middleware/performance.middleware';
+
+const router = Router();
+
+// Apply performance monitoring to all routes
+router.use(performanceMonitor);
+
+/**
+ * GET /api/targets
+ * List targets, optionally by branch, agent and period
+ */
+router.get('/', apiRateLimit, validate(validateTargetList), getTargets);
+
+/**
+ * POST /api/targets
+ * Set the revenue and lead target for a branch or agent over a period
+ */
+router.post('/', apiRateLimit, validate(validateSetTarget), postTarget);
+
+/**
+ * DELETE /api/targets/:id
+ * Delete a target
+ */
+router.delete('/:id', apiRateLimit, validate(validateIdParam), removeTarget);
+
+export default router;
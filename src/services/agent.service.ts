@@ -0,0 +1,253 @@
+/**
+ * Agent Service
+ * Business logic for agent management, transfers and deactivation
+ */
+
+import {
+  findAgents,
+  findAgentById,
+  insertAgent,
+  updateAgentById,
+  findCurrentAssignmentStart,
+  transferAgentToBranch,
+  deleteAgentById,
+} from '../repositories/agent.repository';
+import { findBranchById } from '../repositories/branch.repository';
+import { countCallsByAgent } from '../repositories/call.repository';
+import { withAuditEvent } from './audit.service';
+import {
+  AgentDetails,
+  AgentListOptions,
+  CreateAgentInput,
+  UpdateAgentInput,
+  TransferAgentInput,
+} from '../types/branch.types';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+/**
+ * Ensure the branch exists
+ */
+const assertBranchExists = async (branchId: number): Promise<void> => {
+  const branch = await findBranchById(branchId);
+  if (!branch) {
+    throw new AppError(`Branch ${branchId} not found`, 404);
+  }
+};
+
+/**
+ * List agents (active only unless includeInactive is set)
+ */
+export const listAgents = async (options: AgentListOptions = {}): Promise<AgentDetails[]> => {
+  return findAgents(options);
+};
+
+/**
+ * Get a single agent with their assignment history
+ */
+export const getAgent = async (id: number): Promise<AgentDetails> => {
+  const agent = await findAgentById(id);
+  if (!agent) {
+    throw new AppError(`Agent ${id} not found`, 404);
+  }
+  return agent;
+};
+
+/**
+ * Create an agent
+ */
+export const createAgent = async (
+  input: CreateAgentInput,
+  actor: string
+): Promise<AgentDetails> => {
+  await assertBranchExists(input.branchId);
+
+  const agent = await withAuditEvent(
+    (tx) =>
+      insertAgent(
+        {
+          name: input.name,
+          branchId: input.branchId,
+          email: input.email ?? null,
+        },
+        tx
+      ),
+    (agent) => ({ actor, action: 'create', entityType: 'agent', entityId: agent.id, after: agent })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Agent created', { agentId: agent.id, branchId: agent.branchId });
+  return agent;
+};
+
+/**
+ * Update an agent's name or email
+ */
+export const updateAgent = async (
+  id: number,
+  input: UpdateAgentInput,
+  actor: string
+): Promise<AgentDetails> => {
+  const existing = await getAgent(id);
+
+  const agent = await withAuditEvent(
+    (tx) => updateAgentById(id, input, tx),
+    (agent) => ({
+      actor,
+      action: 'update',
+      entityType: 'agent',
+      entityId: id,
+      before: existing,
+      after: agent,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+  cache.deleteByPrefix('dashboard:');
+
+  return agent;
+};
+
+/**
+ * Move an agent to another branch from an effective date (defaults to now)
+ */
+export const transferAgent = async (
+  id: number,
+  input: TransferAgentInput,
+  actor: string
+): Promise<{ agent: AgentDetails; reassignedLeads: number }> => {
+  const existing = await getAgent(id);
+
+  if (!existing.active) {
+    throw new AppError(`Agent ${id} is inactive and cannot be transferred`, 409);
+  }
+
+  if (existing.branchId === input.branchId) {
+    throw new AppError(`Agent ${id} already belongs to branch ${input.branchId}`, 409);
+  }
+
+  await assertBranchExists(input.branchId);
+
+  const now = new Date();
+  const effectiveFrom = input.effectiveDate ? new Date(input.effectiveDate) : now;
+
+  if (effectiveFrom.getTime() > now.getTime()) {
+    throw new AppError('effectiveDate cannot be in the future', 400);
+  }
+
+  const currentStart = await findCurrentAssignmentStart(id);
+  if (currentStart && effectiveFrom.getTime() <= currentStart.getTime()) {
+    throw new AppError(
+      `effectiveDate must be after the start of the current assignment (${currentStart.toISOString()})`,
+      409
+    );
+  }
+
+  const result = await withAuditEvent(
+    (tx) => transferAgentToBranch(id, input.branchId, effectiveFrom, tx),
+    (result) => ({
+      actor,
+      action: 'transfer',
+      entityType: 'agent',
+      entityId: id,
+      before: existing,
+      after: { ...result.agent, effectiveFrom, reassignedLeads: result.reassignedLeads },
+    })
+  );
+  cache.deleteByPrefix('filter:');
+  cache.deleteByPrefix('dashboard:');
+
+  logger.info('Agent transferred', {
+    agentId: id,
+    from: existing.branchId,
+    to: input.branchId,
+    effectiveFrom: effectiveFrom.toISOString(),
+    reassignedLeads: result.reassignedLeads,
+  });
+
+  return result;
+};
+
+/**
+ * Deactivate an agent; their historical leads are kept and still count in reports
+ */
+export const deactivateAgent = async (id: number, actor: string): Promise<AgentDetails> => {
+  const existing = await getAgent(id);
+
+  if (!existing.active) {
+    throw new AppError(`Agent ${id} is already inactive`, 409);
+  }
+
+  const agent = await withAuditEvent(
+    (tx) => updateAgentById(id, { active: false, deactivatedAt: new Date() }, tx),
+    (agent) => ({
+      actor,
+      action: 'update',
+      entityType: 'agent',
+      entityId: id,
+      before: existing,
+      after: agent,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Agent deactivated', { agentId: id });
+  return agent;
+};
+
+/**
+ * Reactivate a previously deactivated agent
+ */
+export const reactivateAgent = async (id: number, actor: string): Promise<AgentDetails> => {
+  const existing = await getAgent(id);
+
+  if (existing.active) {
+    throw new AppError(`Agent ${id} is already active`, 409);
+  }
+
+  const agent = await withAuditEvent(
+    (tx) => updateAgentById(id, { active: true, deactivatedAt: null }, tx),
+    (agent) => ({
+      actor,
+      action: 'update',
+      entityType: 'agent',
+      entityId: id,
+      before: existing,
+      after: agent,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Agent reactivated', { agentId: id });
+  return agent;
+};
+
+/**
+ * Soft-delete an agent that has no leads or calls; agents with history should be deactivated instead
+ */
+export const deleteAgent = async (id: number, actor: string): Promise<void> => {
+  const agent = await getAgent(id);
+
+  if (agent.leadCount > 0) {
+    throw new AppError(
+      `Agent ${id} has ${agent.leadCount} leads and cannot be deleted; deactivate the agent instead`,
+      409
+    );
+  }
+
+  const calls = await countCallsByAgent(id);
+  if (calls > 0) {
+    throw new AppError(
+      `Agent ${id} has ${calls} logged calls and cannot be deleted; deactivate the agent instead`,
+      409
+    );
+  }
+
+  await withAuditEvent(
+    (tx) => deleteAgentById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'agent', entityId: id, before: agent })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Agent deleted', { agentId: id });
+};
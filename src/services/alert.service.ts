@@ -0,0 +1,112 @@
+/**
+ * Alert Service
+ * Business logic for listing, acknowledging and resolving anomaly alerts
+ */
+
+import { findAlerts, findAlertById, updateAlertById } from '../repositories/alert.repository';
+import { withAuditEvent } from './audit.service';
+import { AlertDetails, AlertQuery, ResolveAlertInput } from '../types/alert.types';
+import { PaginatedResult } from '../types/audit.types';
+import { AppError } from '../utils/AppError';
+import logger from '../utils/logger';
+
+/**
+ * List alerts, most recent day first
+ */
+export const listAlerts = async (query: AlertQuery): Promise<PaginatedResult<AlertDetails>> => {
+  const { items, total } = await findAlerts(query);
+
+  return {
+    items,
+    page: query.page,
+    pageSize: query.pageSize,
+    total,
+    totalPages: Math.ceil(total / query.pageSize),
+  };
+};
+
+/**
+ * Get a single alert
+ */
+export const getAlert = async (id: number): Promise<AlertDetails> => {
+  const alert = await findAlertById(id);
+  if (!alert) {
+    throw new AppError(`Alert ${id} not found`, 404);
+  }
+  return alert;
+};
+
+/**
+ * Acknowledge an open alert: someone is looking into it
+ */
+export const acknowledgeAlert = async (id: number, actor: string): Promise<AlertDetails> => {
+  const existing = await getAlert(id);
+
+  if (existing.status !== 'open') {
+    throw new AppError(`Alert ${id} is already ${existing.status}`, 409);
+  }
+
+  const alert = await withAuditEvent(
+    (tx) =>
+      updateAlertById(
+        id,
+        {
+          status: 'acknowledged',
+          acknowledgedBy: actor,
+          acknowledgedAt: new Date(),
+        },
+        tx
+      ),
+    (alert) => ({
+      actor,
+      action: 'update',
+      entityType: 'alert',
+      entityId: id,
+      before: existing,
+      after: alert,
+    })
+  );
+
+  logger.info('Alert acknowledged', { alertId: id });
+  return alert;
+};
+
+/**
+ * Resolve an open or acknowledged alert, optionally with a note on what was found
+ */
+export const resolveAlert = async (
+  id: number,
+  input: ResolveAlertInput,
+  actor: string
+): Promise<AlertDetails> => {
+  const existing = await getAlert(id);
+
+  if (existing.status === 'resolved') {
+    throw new AppError(`Alert ${id} is already resolved`, 409);
+  }
+
+  const alert = await withAuditEvent(
+    (tx) =>
+      updateAlertById(
+        id,
+        {
+          status: 'resolved',
+          resolvedBy: actor,
+          resolvedAt: new Date(),
+          resolution: input.resolution ?? null,
+        },
+        tx
+      ),
+    (alert) => ({
+      actor,
+      action: 'update',
+      entityType: 'alert',
+      entityId: id,
+      before: existing,
+      after: alert,
+    })
+  );
+
+  logger.info('Alert resolved', { alertId: id });
+  return alert;
+};
@@ -0,0 +1,211 @@
+/**
+ * Anomaly Service
+ * Scheduled detection of unusual daily lead intake and conversion per branch and agent
+ */
+
+import { getFunnelLeads } from '../repositories/data.repository';
+import { findBranches } from '../repositories/branch.repository';
+import { findAgents } from '../repositories/agent.repository';
+import { saveNewAlerts } from '../repositories/alert.repository';
+import {
+  AlertEntityType,
+  AlertMetric,
+  AnomalyDetectionResult,
+  NewAlert,
+} from '../types/alert.types';
+import { appConfig } from '../config/app.config';
+import { getCalendarBuckets } from '../utils/dateRange';
+import { median, robustZScore } from '../utils/statistics';
+import logger from '../utils/logger';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Trailing days each day is compared against, and how many of them must have a value
+ */
+const WINDOW_DAYS = 28;
+const MIN_HISTORY_DAYS = 14;
+
+/**
+ * Robust z-score beyond which a day is flagged
+ */
+const Z_THRESHOLD = 3.5;
+
+/**
+ * Most recent days checked on each run, so a missed run is caught up on the next one
+ */
+const LOOKBACK_DAYS = 3;
+
+/**
+ * The conversion rate of a day counts sales within this many days of creation, so a day
+ * is only checked for conversion once it is this old
+ */
+const CONVERSION_DAYS = 7;
+
+/**
+ * Fewest leads for a day's conversion rate to be meaningful
+ */
+const MIN_RATE_LEADS = 5;
+
+interface DailySeries {
+  entityType: AlertEntityType;
+  entityId: number;
+  entityName: string;
+  leads: number[];
+  converted: number[];
+}
+
+/**
+ * Flag the candidate days of one metric that stand out from their trailing window
+ * Days without a value (null) are neither checked nor part of any window.
+ */
+export const flagDays = (
+  series: DailySeries,
+  metric: AlertMetric,
+  values: Array<number | null>,
+  candidates: number[],
+  days: Array<{ start: Date }>
+): NewAlert[] =>
+  candidates.flatMap((index) => {
+    const value = values[index];
+    const history = values
+      .slice(Math.max(0, index - WINDOW_DAYS), index)
+      .filter((v): v is number => v !== null);
+    if (value === null || history.length < MIN_HISTORY_DAYS) return [];
+
+    const zScore = robustZScore(value, history);
+    if (zScore === null || Math.abs(zScore) < Z_THRESHOLD) return [];
+
+    return [
+      {
+        entityType: series.entityType,
+        entityId: series.entityId,
+        entityName: series.entityName,
+        metric,
+        day: days[index].start,
+        value: Number(value.toFixed(2)),
+        baseline: Number(median(history).toFixed(2)),
+        zScore: Number(zScore.toFixed(2)),
+        direction: zScore < 0 ? 'drop' : 'spike',
+      },
+    ];
+  });
+
+/**
+ * Build daily per-branch and per-agent series for the recent past and store an alert for
+ * every recent day whose lead intake or conversion rate is unusual (|robust z| ≥ 3.5
+ * against the trailing 28 days). Only live branches and active agents are checked.
+ */
+export const detectAnomalies = async (now: Date = new Date()): Promise<AnomalyDetectionResult> => {
+  const spanDays = WINDOW_DAYS + CONVERSION_DAYS + LOOKBACK_DAYS + 1;
+  const days = getCalendarBuckets(new Date(now.getTime() - spanDays * DAY_MS), now, 'day').filter(
+    (day) => day.end <= now
+  );
+  const first = days[0].start;
+  const last = days[days.length - 1].end;
+
+  const [leads, branches, agents] = await Promise.all([
+    getFunnelLeads({ startDate: first.toISOString(), endDate: last.toISOString() }),
+    findBranches(),
+    findAgents(),
+  ]);
+
+  const empty = () => days.map(() => 0);
+  const series = new Map<string, DailySeries>();
+  for (const branch of branches) {
+    series.set(`branch:${branch.id}`, {
+      entityType: 'branch',
+      entityId: branch.id,
+      entityName: branch.name,
+      leads: empty(),
+      converted: empty(),
+    });
+  }
+  for (const agent of agents) {
+    series.set(`agent:${agent.id}`, {
+      entityType: 'agent',
+      entityId: agent.id,
+      entityName: `${agent.name} (${agent.branchName})`,
+      leads: empty(),
+      converted: empty(),
+    });
+  }
+
+  for (const lead of leads) {
+    const index = days.findIndex((day) => lead.createdAt >= day.start && lead.createdAt < day.end);
+    if (index === -1) continue;
+
+    const convertedInTime =
+      lead.convertedAt !== null &&
+      lead.convertedAt.getTime() - lead.createdAt.getTime() < CONVERSION_DAYS * DAY_MS;
+
+    for (const key of [`branch:${lead.branchId}`, `agent:${lead.agentId}`]) {
+      const target = series.get(key);
+      if (!target) continue;
+      target.leads[index]++;
+      if (convertedInTime) target.converted[index]++;
+    }
+  }
+
+  // Lead intake is checked for the last few days; conversion once those days are old enough
+  const indexes = days.map((_day, index) => index);
+  const intakeDays = indexes.slice(-LOOKBACK_DAYS);
+  const conversionDays = indexes
+    .filter((index) => days[index].end.getTime() + CONVERSION_DAYS * DAY_MS <= now.getTime())
+    .slice(-LOOKBACK_DAYS);
+
+  const flagged = [...series.values()].flatMap((entity) => [
+    ...flagDays(entity, 'leads', entity.leads, intakeDays, days),
+    ...flagDays(
+      entity,
+      'conversionRate',
+      entity.leads.map((count, index) =>
+        count >= MIN_RATE_LEADS ? (entity.converted[index] / count) * 100 : null
+      ),
+      conversionDays,
+      days
+    ),
+  ]);
+
+  const created = await saveNewAlerts(flagged);
+
+  const result: AnomalyDetectionResult = {
+    checkedFrom: days[Math.min(intakeDays[0], conversionDays[0])].start.toISOString(),
+    checkedTo: last.toISOString(),
+    series: series.size,
+    flagged: flagged.length,
+    created,
+  };
+
+  logger.info('Anomaly detection completed', result);
+  return result;
+};
+
+/**
+ * Run anomaly detection now and then every ANOMALY_CHECK_INTERVAL_MINUTES
+ * Returns the timer so it can be stopped on shutdown, or null when the job is disabled
+ */
+export const scheduleAnomalyDetection = (): NodeJS.Timeout | null => {
+  const minutes = appConfig.anomalyCheckIntervalMinutes;
+  if (minutes <= 0) {
+    logger.info('Anomaly detection job disabled');
+    return null;
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow run is not overlapped by the next one
+    if (running) return;
+    running = true;
+    try {
+      await detectAnomalies();
+    } catch (error) {
+      logger.error('Anomaly detection failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, minutes * 60 * 1000);
+};
@@ -0,0 +1,67 @@
+/**
+ * Audit Service
+ * Records who changed what and serves the audit trail
+ */
+
+import { insertAuditEvent, findAuditEvents } from '../repositories/audit.repository';
+import {
+  AuditEventDetails,
+  AuditEventInput,
+  AuditEventQuery,
+  PaginatedResult,
+} from '../types/audit.types';
+import { diffRecords } from '../utils/audit';
+import { DbClient, runInTransaction } from '../utils/prisma';
+
+/**
+ * Record a write in the audit trail, within the write's transaction when given one
+ * Updates that change nothing are not recorded
+ */
+export const recordAuditEvent = async (input: AuditEventInput, db?: DbClient): Promise<void> => {
+  const changes = diffRecords(input.before, input.after);
+  if (input.action === 'update' && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await insertAuditEvent(
+    {
+      actor: input.actor,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      changes,
+    },
+    db
+  );
+};
+
+/**
+ * Run a write and record its audit event in one transaction, so a change is never
+ * committed without its audit trail
+ */
+export const withAuditEvent = async <T>(
+  write: (tx: DbClient) => Promise<T>,
+  event: (result: T) => AuditEventInput
+): Promise<T> =>
+  runInTransaction(async (tx) => {
+    const result = await write(tx);
+    await recordAuditEvent(event(result), tx);
+    return result;
+  });
+
+/**
+ * List audit events, newest first
+ */
+export const listAuditEvents = async (
+  query: AuditEventQuery
+): Promise<PaginatedResult<AuditEventDetails>> => {
+  const { items, total } = await findAuditEvents(query);
+
+  return {
+    items,
+    page: query.page,
+    pageSize: query.pageSize,
+    total,
+    totalPages: Math.ceil(total / query.pageSize),
+  };
+};
@@ -0,0 +1,141 @@
+/**
+ * Branch Service
+ * Business logic for branch management
+ */
+
+import {
+  findBranches,
+  findBranchById,
+  findBranchByName,
+  insertBranch,
+  updateBranchById,
+  deleteBranchById,
+} from '../repositories/branch.repository';
+import { findCountryById } from '../repositories/country.repository';
+import { withAuditEvent } from './audit.service';
+import { BranchDetails, CreateBranchInput, UpdateBranchInput } from '../types/branch.types';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+/**
+ * Ensure no other branch already uses the name
+ */
+const assertNameAvailable = async (name: string, exceptId?: number): Promise<void> => {
+  const existing = await findBranchByName(name);
+  if (existing && existing.id !== exceptId) {
+    throw new AppError(
+      existing.deletedAt
+        ? `Branch "${name}" was deleted and its name cannot be reused`
+        : `Branch "${name}" already exists`,
+      409
+    );
+  }
+};
+
+/**
+ * Ensure the country exists
+ */
+const assertCountryExists = async (countryId: number): Promise<void> => {
+  if (!(await findCountryById(countryId))) {
+    throw new AppError(`Country ${countryId} not found`, 404);
+  }
+};
+
+/**
+ * List all branches, optionally within one country
+ */
+export const listBranches = async (countryId?: number): Promise<BranchDetails[]> => {
+  return findBranches(countryId);
+};
+
+/**
+ * Get a single branch
+ */
+export const getBranch = async (id: number): Promise<BranchDetails> => {
+  const branch = await findBranchById(id);
+  if (!branch) {
+    throw new AppError(`Branch ${id} not found`, 404);
+  }
+  return branch;
+};
+
+/**
+ * Create a branch
+ */
+export const createBranch = async (
+  input: CreateBranchInput,
+  actor: string
+): Promise<BranchDetails> => {
+  await assertNameAvailable(input.name);
+  await assertCountryExists(input.countryId);
+
+  const branch = await withAuditEvent(
+    (tx) => insertBranch({ name: input.name, countryId: input.countryId }, tx),
+    (branch) => ({
+      actor,
+      action: 'create',
+      entityType: 'branch',
+      entityId: branch.id,
+      after: branch,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Branch created', { branchId: branch.id });
+  return branch;
+};
+
+/**
+ * Rename a branch or move it to another country
+ */
+export const updateBranch = async (
+  id: number,
+  input: UpdateBranchInput,
+  actor: string
+): Promise<BranchDetails> => {
+  const existing = await getBranch(id);
+
+  if (input.name !== undefined) {
+    await assertNameAvailable(input.name, id);
+  }
+
+  if (input.countryId !== undefined) {
+    await assertCountryExists(input.countryId);
+  }
+
+  const branch = await withAuditEvent(
+    (tx) => updateBranchById(id, input, tx),
+    (branch) => ({
+      actor,
+      action: 'update',
+      entityType: 'branch',
+      entityId: id,
+      before: existing,
+      after: branch,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+  cache.deleteByPrefix('dashboard:');
+
+  return branch;
+};
+
+/**
+ * Soft-delete a branch that has no agents or leads left
+ */
+export const deleteBranch = async (id: number, actor: string): Promise<void> => {
+  const branch = await getBranch(id);
+
+  if (branch.agentCount > 0 || branch.leadCount > 0) {
+    throw new AppError(`Branch ${id} still has agents or leads and cannot be deleted`, 409);
+  }
+
+  await withAuditEvent(
+    (tx) => deleteBranchById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'branch', entityId: id, before: branch })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Branch deleted', { branchId: id });
+};
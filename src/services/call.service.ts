@@ -0,0 +1,80 @@
+/**
+ * Call Service
+ * Business logic for logging call attempts against leads
+ */
+
+import { findCallsForLead, insertCall } from '../repositories/call.repository';
+import { findAgentForLead } from '../repositories/lead.repository';
+import { CallActivityDetails, LogCallInput } from '../types/call.types';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+import { getLead } from './lead.service';
+import { withAuditEvent } from './audit.service';
+
+/**
+ * List the calls made to a lead
+ */
+export const listLeadCalls = async (leadId: number): Promise<CallActivityDetails[]> => {
+  await getLead(leadId);
+  return findCallsForLead(leadId);
+};
+
+/**
+ * Log a call attempt against a lead
+ * The caller defaults to the lead's agent; calls cannot be logged in the future
+ * or before the lead was created
+ */
+export const logCall = async (
+  leadId: number,
+  input: LogCallInput,
+  actor: string
+): Promise<CallActivityDetails> => {
+  const lead = await getLead(leadId);
+
+  const agentId = input.agentId ?? lead.agentId;
+  if (agentId !== lead.agentId) {
+    const agent = await findAgentForLead(agentId);
+    if (!agent) {
+      throw new AppError(`Agent ${agentId} not found`, 404);
+    }
+    if (agent.branchId !== lead.branchId) {
+      throw new AppError(`Agent ${agentId} does not belong to branch ${lead.branchId}`, 409);
+    }
+  }
+
+  const now = new Date();
+  const calledAt = input.calledAt ? new Date(input.calledAt) : now;
+  if (calledAt.getTime() > now.getTime()) {
+    throw new AppError('calledAt cannot be in the future', 400);
+  }
+  if (calledAt.getTime() < new Date(lead.createdAt).getTime()) {
+    throw new AppError('calledAt cannot be before the lead was created', 400);
+  }
+
+  const call = await withAuditEvent(
+    (tx) =>
+      insertCall(
+        {
+          leadId,
+          agentId,
+          outcome: input.outcome,
+          durationSeconds: input.durationSeconds ?? 0,
+          calledAt,
+          notes: input.notes ?? null,
+        },
+        tx
+      ),
+    (call) => ({
+      actor,
+      action: 'create',
+      entityType: 'callActivity',
+      entityId: call.id,
+      after: call,
+    })
+  );
+  cache.deleteByPrefix('dashboard:');
+
+  logger.info('Call logged', { callId: call.id, leadId, agentId, outcome: call.outcome });
+  return call;
+};
@@ -0,0 +1,101 @@
+/**
+ * Cohort Service
+ * Contact and conversion rates of leads grouped by creation week or month
+ */
+
+import { getFunnelLeads } from '../repositories/data.repository';
+import { DashboardFilters } from '../types/dashboard.types';
+import { CohortAnalysis, CohortPeriod, COHORT_DAYS } from '../types/analytics.types';
+import { appConfig } from '../config/app.config';
+import { getCalendarBuckets, resolveDateWindow } from '../utils/dateRange';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const percentage = (part: number, whole: number): number | null =>
+  whole > 0 ? Number(((part / whole) * 100).toFixed(2)) : null;
+
+/**
+ * Get cohort contact and conversion rates 1, 7, 14 and 30 days after creation
+ * A lead only counts towards a day once it is that old, so recent cohorts aren't
+ * penalised for time that hasn't passed yet. Rows cover every week or month in the
+ * window (empty cohorts included) and cells line up with `days`, ready for a heatmap.
+ */
+export const getCohortAnalysis = async (
+  filters: DashboardFilters,
+  period: CohortPeriod = 'week',
+  now: Date = new Date()
+): Promise<CohortAnalysis> => {
+  const cacheKey = `dashboard:cohorts:${period}:${serializeFilters(filters)}`;
+
+  const cached = cache.get<CohortAnalysis>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached cohort analysis');
+    return cached;
+  }
+
+  const window = resolveDateWindow(filters, now);
+  const leads = await getFunnelLeads(filters);
+
+  const start =
+    window.start ??
+    leads.reduce<Date | undefined>(
+      (earliest, lead) => (!earliest || lead.createdAt < earliest ? lead.createdAt : earliest),
+      undefined
+    );
+  const buckets = start ? getCalendarBuckets(start, window.end, period) : [];
+
+  // Walk the leads in creation order, moving to the next cohort as each one ends
+  const members = buckets.map((): typeof leads => []);
+  let index = 0;
+  for (const lead of [...leads].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    while (index < buckets.length && lead.createdAt >= buckets[index].end) {
+      index++;
+    }
+    if (index >= buckets.length) break;
+    if (lead.createdAt >= buckets[index].start) {
+      members[index].push(lead);
+    }
+  }
+
+  const cohorts = buckets.map((bucket, i) => {
+    return {
+      label: bucket.label,
+      start: bucket.start.toISOString(),
+      end: bucket.end.toISOString(),
+      partial: (window.start !== undefined && bucket.start < window.start) || bucket.end > window.end,
+      size: members[i].length,
+      cells: COHORT_DAYS.map((day) => {
+        const within = (at: Date | null, lead: { createdAt: Date }) =>
+          at !== null && at.getTime() - lead.createdAt.getTime() <= day * DAY_MS;
+        const eligible = members[i].filter((lead) => now.getTime() - lead.createdAt.getTime() >= day * DAY_MS);
+        const contacted = eligible.filter((lead) => within(lead.contactedAt, lead)).length;
+        const converted = eligible.filter((lead) => within(lead.convertedAt, lead)).length;
+
+        return {
+          day,
+          eligible: eligible.length,
+          contacted,
+          converted,
+          contactRate: percentage(contacted, eligible.length),
+          conversionRate: percentage(converted, eligible.length),
+        };
+      }),
+    };
+  });
+
+  const result: CohortAnalysis = {
+    period,
+    days: [...COHORT_DAYS],
+    timezone: appConfig.timezone,
+    cohorts,
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
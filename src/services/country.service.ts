@@ -0,0 +1,126 @@
+/**
+ * Country Service
+ * Business logic for country management
+ */
+
+import {
+  findCountries,
+  findCountryById,
+  findCountryByNameOrCode,
+  insertCountry,
+  updateCountryById,
+  deleteCountryById,
+} from '../repositories/country.repository';
+import { CountryDetails, CreateCountryInput, UpdateCountryInput } from '../types/branch.types';
+import { withAuditEvent } from './audit.service';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+/**
+ * Ensure no other country already uses the name or code
+ */
+const assertCountryAvailable = async (
+  name: string,
+  code: string,
+  exceptId?: number
+): Promise<void> => {
+  const existing = await findCountryByNameOrCode(name, code);
+  if (existing && existing.id !== exceptId) {
+    throw new AppError(`Country "${existing.name}" (${existing.code}) already exists`, 409);
+  }
+};
+
+/**
+ * List all countries
+ */
+export const listCountries = async (): Promise<CountryDetails[]> => {
+  return findCountries();
+};
+
+/**
+ * Get a single country
+ */
+export const getCountry = async (id: number): Promise<CountryDetails> => {
+  const country = await findCountryById(id);
+  if (!country) {
+    throw new AppError(`Country ${id} not found`, 404);
+  }
+  return country;
+};
+
+/**
+ * Create a country
+ */
+export const createCountry = async (
+  input: CreateCountryInput,
+  actor: string
+): Promise<CountryDetails> => {
+  const code = input.code.toUpperCase();
+  await assertCountryAvailable(input.name, code);
+
+  const country = await withAuditEvent(
+    (tx) => insertCountry({ name: input.name, code }, tx),
+    (country) => ({
+      actor,
+      action: 'create',
+      entityType: 'country',
+      entityId: country.id,
+      after: country,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Country created', { countryId: country.id });
+  return country;
+};
+
+/**
+ * Update a country's name or code
+ */
+export const updateCountry = async (
+  id: number,
+  input: UpdateCountryInput,
+  actor: string
+): Promise<CountryDetails> => {
+  const existing = await getCountry(id);
+  const name = input.name ?? existing.name;
+  const code = (input.code ?? existing.code).toUpperCase();
+
+  await assertCountryAvailable(name, code, id);
+
+  const country = await withAuditEvent(
+    (tx) => updateCountryById(id, { name, code }, tx),
+    (country) => ({
+      actor,
+      action: 'update',
+      entityType: 'country',
+      entityId: id,
+      before: existing,
+      after: country,
+    })
+  );
+  cache.deleteByPrefix('filter:');
+  cache.deleteByPrefix('dashboard:');
+
+  return country;
+};
+
+/**
+ * Delete a country that has no branches
+ */
+export const deleteCountry = async (id: number, actor: string): Promise<void> => {
+  const country = await getCountry(id);
+
+  if (country.branchCount > 0) {
+    throw new AppError(`Country ${id} still has branches and cannot be deleted`, 409);
+  }
+
+  await withAuditEvent(
+    (tx) => deleteCountryById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'country', entityId: id, before: country })
+  );
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Country deleted', { countryId: id });
+};
@@ -11,108 +11,142 @@ import {
   getAgentPerformance,
   getTopPerformingAgents,
   getBranchAgentRanking,
+  LeadRow,
 } from '../repositories/data.repository';
-import { DashboardFilters, DashboardData, KPI } from '../types/dashboard.types';
+import { loadFxConverter } from '../repositories/fx.repository';
+import { DashboardFilters, DashboardData, KPI, PercentileSummary } from '../types/dashboard.types';
 import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import { formatDateWindow, getComparisonWindow, resolveDateWindow } from '../utils/dateRange';
 import logger from '../utils/logger';
+import { mean, summarisePercentiles } from '../utils/statistics';
 import { generateActionableInsights } from './insights.service';
 import { getBranchRanking, getCountryRanking, getCountryRankingTable } from './ranking.service';
 
+interface LeadSummary {
+  avgTAT: number;
+  tatPercentiles: PercentileSummary;
+  conversionRate: number;
+  totalContacted: number;
+  totalLeads: number;
+}
+
 /**
- * Calculate KPIs from leads data
+ * Summarise leads into the KPI measures
  */
-const calculateKPIs = async (filters: DashboardFilters): Promise<KPI[]> => {
-  const leads = await getLeads(filters);
+const summariseLeads = (leads: LeadRow[]): LeadSummary => {
   const totalLeads = leads.length;
-  
-  // Calculate Turn Around Time (TAT) - average days from creation to contact
+
+  // Turn Around Time (TAT) - days from creation to contact over contacted leads
   const contactedLeads = leads.filter(lead => lead.contacted_at);
-  let avgTAT = 0;
-  
-  if (contactedLeads.length > 0) {
-    const totalDays = contactedLeads.reduce((sum, lead) => {
-      if (lead.contacted_at && lead.created_at) {
-        const created = new Date(lead.created_at);
-        const contacted = new Date(lead.contacted_at);
-        const days = (contacted.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
-        return sum + days;
-      }
-      return sum;
-    }, 0);
-    avgTAT = totalDays / contactedLeads.length;
-  }
+  const daysToContact = contactedLeads.map(
+    (lead) =>
+      (new Date(lead.contacted_at!).getTime() - new Date(lead.created_at).getTime()) /
+      (1000 * 60 * 60 * 24)
+  );
 
   // Calculate Conversion Rate
   const convertedLeads = leads.filter(lead => lead.status === 'Product/Service Sold');
   const conversionRate = totalLeads > 0 ? (convertedLeads.length / totalLeads) * 100 : 0;
 
-  // Total Contacted Leads
-  const totalContacted = contactedLeads.length;
-
-  // Get previous period data for comparison (30 days ago)
-  const previousFilters: DashboardFilters = {
-    ...filters,
-    dateRange: 'last30days',
+  return {
+    avgTAT: mean(daysToContact),
+    tatPercentiles: summarisePercentiles(daysToContact),
+    conversionRate,
+    totalContacted: contactedLeads.length,
+    totalLeads,
   };
-  const previousLeads = await getLeads(previousFilters);
-  const previousContactedLeads = previousLeads.filter(lead => lead.contacted_at);
-  
-  let previousAvgTAT = 0;
-  if (previousContactedLeads.length > 0) {
-    const previousTotalDays = previousContactedLeads.reduce((sum, lead) => {
-      if (lead.contacted_at && lead.created_at) {
-        const created = new Date(lead.created_at);
-        const contacted = new Date(lead.contacted_at);
-        const days = (contacted.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
-        return sum + days;
-      }
-      return sum;
-    }, 0);
-    previousAvgTAT = previousTotalDays / previousContactedLeads.length;
+};
+
+/**
+ * Compare a KPI value with the comparison window
+ * `change` is the percentage change; it is left out when the previous value is zero
+ * (any change from nothing is unbounded), while `meta` always carries the absolute delta
+ */
+const compareKPI = (
+  current: number,
+  previous: number | null,
+  changePeriod: string
+): Pick<KPI, 'change' | 'changeType' | 'changePeriod' | 'meta'> => {
+  if (previous === null) {
+    return { changeType: 'neutral', changePeriod };
   }
 
-  const previousConversionRate = previousLeads.length > 0 
-    ? (previousLeads.filter(lead => lead.status === 'Product/Service Sold').length / previousLeads.length) * 100 
-    : 0;
+  const delta = current - previous;
+  const change = previous !== 0 ? (delta / previous) * 100 : current === 0 ? 0 : undefined;
+
+  return {
+    ...(change !== undefined ? { change: Number(Math.abs(change).toFixed(2)) } : {}),
+    changeType: delta > 0 ? 'increase' : delta < 0 ? 'decrease' : 'neutral',
+    changePeriod,
+    meta: { previousValue: Number(previous.toFixed(2)), delta: Number(delta.toFixed(2)) },
+  };
+};
 
-  // Calculate changes
-  const tatChange = previousAvgTAT > 0 ? ((avgTAT - previousAvgTAT) / previousAvgTAT) * 100 : 0;
-  const conversionChange = previousConversionRate > 0 
-    ? ((conversionRate - previousConversionRate) / previousConversionRate) * 100 
-    : 0;
+/**
+ * Calculate KPIs from leads data
+ * Each KPI is compared with the preceding window of the same length, or the same
+ * window a year earlier when compareTo is previousYear
+ */
+const calculateKPIs = async (filters: DashboardFilters): Promise<KPI[]> => {
+  const window = resolveDateWindow(filters);
+  const comparison = getComparisonWindow(window, filters.compareTo);
+
+  // The current window is pinned too, so both sides are measured against the same "now"
+  const { dateRange: _dateRange, ...rest } = filters;
+  const windowFilters = (bounds: { start?: Date; end: Date }): DashboardFilters => ({
+    ...rest,
+    ...(bounds.start ? { startDate: bounds.start.toISOString() } : {}),
+    endDate: bounds.end.toISOString(),
+  });
+
+  const current = summariseLeads(await getLeads(windowFilters(window)));
+  const previous = comparison ? summariseLeads(await getLeads(windowFilters(comparison))) : null;
+
+  const changePeriod = !comparison
+    ? 'no comparison for an open-ended range'
+    : filters.compareTo === 'previousYear'
+      ? `vs same period last year (${formatDateWindow(comparison)})`
+      : `vs previous period (${formatDateWindow(comparison)})`;
+
+  // Average TAT is undefined for a window without contacted leads
+  const previousTAT = previous && previous.totalContacted > 0 ? previous.avgTAT : null;
+  const tatComparison = compareKPI(
+    current.avgTAT,
+    current.totalContacted > 0 ? previousTAT : null,
+    changePeriod
+  );
 
   return [
     {
       id: 'tat',
       label: 'Turn Around Time',
-      value: `${avgTAT.toFixed(2)} (days)`,
-      change: Math.abs(tatChange),
-      changeType: tatChange < 0 ? 'decrease' : tatChange > 0 ? 'increase' : 'neutral',
-      changePeriod: '31 days ago',
+      value: `${current.avgTAT.toFixed(2)} (days)`,
+      ...tatComparison,
+      // The mean is skewed by a few long waits, so the percentiles travel with it
+      meta: { ...tatComparison.meta, percentiles: current.tatPercentiles },
     },
     {
       id: 'conversion',
       label: 'Conversion Rate',
-      value: `${conversionRate.toFixed(2)}%`,
-      change: Math.abs(conversionChange),
-      changeType: conversionChange > 0 ? 'increase' : conversionChange < 0 ? 'decrease' : 'neutral',
-      changePeriod: '31 days ago',
+      value: `${current.conversionRate.toFixed(2)}%`,
+      ...compareKPI(
+        current.conversionRate,
+        previous && previous.totalLeads > 0 ? previous.conversionRate : null,
+        changePeriod
+      ),
     },
     {
       id: 'contacted',
       label: 'Total Contacted Leads',
-      value: totalContacted,
-      change: 0,
-      changeType: 'neutral',
-      changePeriod: '31 days ago',
+      value: current.totalContacted,
+      ...compareKPI(current.totalContacted, previous?.totalContacted ?? null, changePeriod),
     },
     {
       id: 'total',
       label: 'Total Leads',
-      value: totalLeads,
-      change: 0,
-      changeType: 'neutral',
-      changePeriod: '31 days ago',
+      value: current.totalLeads,
+      ...compareKPI(current.totalLeads, previous?.totalLeads ?? null, changePeriod),
     },
   ];
 };
@@ -122,7 +156,7 @@ const calculateKPIs = async (filters: DashboardFilters): Promise<KPI[]> => {
  */
 export const getDashboardData = async (filters: DashboardFilters): Promise<DashboardData> => {
   // Generate cache key
-  const cacheKey = `dashboard:${JSON.stringify(filters)}`;
+  const cacheKey = `dashboard:${serializeFilters(filters)}`;
   
   // Check cache first
   const cached = cache.get<DashboardData>(cacheKey);
@@ -147,17 +181,20 @@ export const getDashboardData = async (filters: DashboardFilters): Promise<Dashb
   // Get leads by branch over time
   const leadsByBranch = await getLeadsByBranchOverTime(filters, 7);
 
+  // Rates into the reporting currency, shared by the revenue queries below
+  const fx = await loadFxConverter(filters.currency);
+
   // Get revenue by branch over time
-  const revenueByBranch = await getRevenueByBranchOverTime(filters, 7);
+  const revenueByBranch = await getRevenueByBranchOverTime(filters, 7, fx);
 
   // Get agent performance
-  const agentPerformance = await getAgentPerformance(filters);
+  const agentPerformance = await getAgentPerformance(filters, fx);
 
   // Get top performing agents
   const topPerformingAgents = await getTopPerformingAgents(filters, 10);
 
   // Get branch agent ranking
-  const branchAgentRanking = await getBranchAgentRanking(filters);
+  const branchAgentRanking = await getBranchAgentRanking(filters, fx);
 
   // Get actionable insights
   const actionableInsights = await generateActionableInsights(filters);
@@ -3,7 +3,22 @@
  * Business logic for filtering dashboard data
  */
 
-import { DashboardFilters, DateRange } from '../types/dashboard.types';
+import {
+  COMPARISON_PERIODS,
+  ComparisonPeriod,
+  DashboardFilters,
+  DateRange,
+  DATE_RANGES,
+  FILTER_DIMENSIONS,
+  ID_FILTER_DIMENSIONS,
+  RANGE_FILTERS,
+  ValueFilter,
+} from '../types/dashboard.types';
+import { LEAD_STATUSES } from '../types/lead.types';
+import { findAgentsByNames } from '../repositories/agent.repository';
+import { isDateBound, parseDateBound } from '../utils/dateRange';
+import { MAX_FILTER_VALUES, mergeValueFilters, parseIdFilter, parseValueFilter } from '../utils/filters';
+import { AppError } from '../utils/AppError';
 
 /**
  * Parse and validate filters from query parameters
@@ -12,35 +27,118 @@ export const parseFilters = (query: Record<string, any>): DashboardFilters => {
   const filters: DashboardFilters = {};
 
   if (query.dateRange) {
-    const validDateRanges: DateRange[] = ['last7days', 'last30days', 'last90days', 'lastYear', 'all'];
-    if (validDateRanges.includes(query.dateRange as DateRange)) {
+    if (DATE_RANGES.includes(query.dateRange as DateRange)) {
       filters.dateRange = query.dateRange as DateRange;
     }
   }
 
-  if (query.branch && typeof query.branch === 'string') {
-    filters.branch = sanitizeString(query.branch);
+  if (isDateBound(query.startDate)) {
+    filters.startDate = query.startDate;
   }
 
-  if (query.agent && typeof query.agent === 'string') {
-    filters.agent = sanitizeString(query.agent);
+  if (isDateBound(query.endDate)) {
+    filters.endDate = query.endDate;
   }
 
-  if (query.product && typeof query.product === 'string') {
-    filters.product = sanitizeString(query.product);
+  // Repeated or comma-separated values; a "!" prefix excludes a value
+  for (const dimension of FILTER_DIMENSIONS) {
+    const filter = parseValueFilter(query[dimension], sanitizeString);
+    if (filter) {
+      filters[dimension] = filter;
+    }
+  }
+
+  for (const dimension of ID_FILTER_DIMENSIONS) {
+    const filter = parseIdFilter(query[dimension]);
+    if (filter) {
+      filters[dimension] = filter;
+    }
+  }
+
+  for (const key of RANGE_FILTERS) {
+    const value = typeof query[key] === 'string' && query[key].trim() !== '' ? Number(query[key]) : NaN;
+    if (Number.isFinite(value)) {
+      filters[key] = value;
+    }
+  }
+
+  if (query.contacted === 'true' || query.contacted === 'false') {
+    filters.contacted = query.contacted === 'true';
+  }
+
+  if (COMPARISON_PERIODS.includes(query.compareTo as ComparisonPeriod)) {
+    filters.compareTo = query.compareTo as ComparisonPeriod;
   }
 
-  if (query.segment && typeof query.segment === 'string') {
-    filters.segment = sanitizeString(query.segment);
+  if (query.currency && typeof query.currency === 'string') {
+    filters.currency = sanitizeString(query.currency).toUpperCase();
   }
 
-  if (query.campaign && typeof query.campaign === 'string') {
-    filters.campaign = sanitizeString(query.campaign);
+  if (query.includeDeleted === 'true') {
+    filters.includeDeleted = true;
   }
 
   return filters;
 };
 
+/**
+ * Resolve agent names to IDs
+ * Agent names aren't unique, so a name matching several agents is rejected
+ * rather than silently merging them. Unknown names match no leads.
+ */
+export const resolveFilterNames = async (filters: DashboardFilters): Promise<DashboardFilters> => {
+  if (!filters.agent) {
+    return filters;
+  }
+
+  const names = [...(filters.agent.in ?? []), ...(filters.agent.notIn ?? [])];
+  const agents = await findAgentsByNames(names, filters.includeDeleted);
+
+  const idsFor = (name: string): number[] => {
+    const matches = agents.filter((agent) => agent.name === name);
+    if (matches.length > 1) {
+      throw new AppError(
+        `Agent name "${name}" matches ${matches.length} agents (${matches
+          .map((agent) => `ID ${agent.id} in ${agent.branchName}`)
+          .join(', ')}); filter by agentId instead`,
+        400
+      );
+    }
+    return matches.map((agent) => agent.id);
+  };
+
+  const byName: ValueFilter<number> = {
+    ...(filters.agent.in ? { in: filters.agent.in.flatMap(idsFor) } : {}),
+    ...(filters.agent.notIn ? { notIn: filters.agent.notIn.flatMap(idsFor) } : {}),
+  };
+
+  const { agent: _agent, ...rest } = filters;
+  const agentId = mergeValueFilters(filters.agentId, byName);
+  return {
+    ...rest,
+    ...(agentId && (agentId.in || agentId.notIn?.length) ? { agentId } : {}),
+  };
+};
+
+/**
+ * Validate and resolve parsed filters, rejecting invalid combinations with a 400
+ */
+export const prepareFilters = async (filters: DashboardFilters): Promise<DashboardFilters> => {
+  const validation = validateFilters(filters);
+  if (!validation.valid) {
+    throw new AppError(`Invalid filter parameters: ${validation.errors.join(', ')}`, 400);
+  }
+
+  return resolveFilterNames(filters);
+};
+
+/**
+ * Parse, validate and resolve filters from query parameters
+ * Without any filter parameters the defaults apply
+ */
+export const getRequestFilters = async (query: Record<string, any>): Promise<DashboardFilters> =>
+  prepareFilters(Object.keys(query).length > 0 ? parseFilters(query) : getDefaultFilters());
+
 /**
  * Get default filters
  */
@@ -65,30 +163,62 @@ export const sanitizeString = (input: string): string => {
  */
 export const validateFilters = (filters: DashboardFilters): { valid: boolean; errors: string[] } => {
   const errors: string[] = [];
-  const validDateRanges: DateRange[] = ['last7days', 'last30days', 'last90days', 'lastYear', 'all'];
 
-  if (filters.dateRange && !validDateRanges.includes(filters.dateRange as DateRange)) {
+  if (filters.dateRange && !DATE_RANGES.includes(filters.dateRange as DateRange)) {
     errors.push('Invalid date range');
   }
 
-  if (filters.branch && filters.branch.length > 100) {
-    errors.push('Branch name too long');
+  if (
+    filters.startDate &&
+    filters.endDate &&
+    parseDateBound(filters.startDate, 'start') >= parseDateBound(filters.endDate, 'end')
+  ) {
+    errors.push('startDate must be before endDate');
   }
 
-  if (filters.agent && filters.agent.length > 100) {
-    errors.push('Agent name too long');
+  for (const dimension of [...FILTER_DIMENSIONS, ...ID_FILTER_DIMENSIONS]) {
+    const filter: ValueFilter<string | number> | undefined = filters[dimension];
+    const values = [...(filter?.in ?? []), ...(filter?.notIn ?? [])];
+
+    if (values.length > MAX_FILTER_VALUES) {
+      errors.push(`Too many ${dimension} values (at most ${MAX_FILTER_VALUES})`);
+    }
+
+    if (values.some((value) => String(value).length > 100)) {
+      errors.push(`${dimension.charAt(0).toUpperCase()}${dimension.slice(1)} name too long`);
+    }
+  }
+
+  const statuses = [...(filters.status?.in ?? []), ...(filters.status?.notIn ?? [])];
+  if (statuses.some((status) => !(LEAD_STATUSES as readonly string[]).includes(status))) {
+    errors.push(`Status must be one of: ${LEAD_STATUSES.join(', ')}`);
   }
 
-  if (filters.product && filters.product.length > 100) {
-    errors.push('Product name too long');
+  for (const key of RANGE_FILTERS) {
+    const value = filters[key];
+    if (value !== undefined && value < 0) {
+      errors.push(`${key} must not be negative`);
+    }
+  }
+
+  for (const [min, max] of [
+    ['minRevenue', 'maxRevenue'],
+    ['minDaysToContact', 'maxDaysToContact'],
+  ] as const) {
+    if (filters[min] !== undefined && filters[max] !== undefined && filters[min]! > filters[max]!) {
+      errors.push(`${min} must not exceed ${max}`);
+    }
   }
 
-  if (filters.segment && filters.segment.length > 100) {
-    errors.push('Segment name too long');
+  if (
+    filters.contacted === false &&
+    (filters.minDaysToContact !== undefined || filters.maxDaysToContact !== undefined)
+  ) {
+    errors.push('Days-to-contact bounds only match contacted leads and cannot be combined with contacted=false');
   }
 
-  if (filters.campaign && filters.campaign.length > 100) {
-    errors.push('Campaign name too long');
+  if (filters.currency && !/^[A-Z]{3}$/.test(filters.currency)) {
+    errors.push('Currency must be a 3-letter ISO 4217 code');
   }
 
   return {
@@ -0,0 +1,172 @@
+/**
+ * Forecast Service
+ * Daily lead and sold-revenue projections with Holt-Winters weekly seasonality
+ */
+
+import { DashboardFilters, TimeSeriesPoint } from '../types/dashboard.types';
+import {
+  Forecast,
+  ForecastAccuracy,
+  ForecastMetric,
+  ForecastPoint,
+  ForecastSeries,
+} from '../types/analytics.types';
+import { getTimeSeriesData } from './timeseries.service';
+import { getCalendarBuckets } from '../utils/dateRange';
+import { fitHoltWinters, forecastHoltWinters } from '../utils/forecasting';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const SEASON_LENGTH = 7;
+
+// Two-sided normal quantiles for the 80% and 95% prediction intervals
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+type ForecastBucket = Pick<TimeSeriesPoint, 'start' | 'end' | 'label'>;
+
+/**
+ * Compare forecasts with what actually happened
+ */
+const measureAccuracy = (points: ForecastPoint[], actuals: number[]): ForecastAccuracy => {
+  const errors = points.map((point, i) => actuals[i] - point.forecast);
+  const actualTotal = actuals.reduce((sum, value) => sum + value, 0);
+  const absoluteTotal = errors.reduce((sum, error) => sum + Math.abs(error), 0);
+  const coverage = (inside: (point: ForecastPoint, actual: number) => boolean) =>
+    Number(((points.filter((point, i) => inside(point, actuals[i])).length / points.length) * 100).toFixed(2));
+
+  return {
+    mae: Number((absoluteTotal / points.length).toFixed(2)),
+    rmse: Number(Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / points.length).toFixed(2)),
+    wape: actualTotal > 0 ? Number(((absoluteTotal / actualTotal) * 100).toFixed(2)) : null,
+    coverage80: coverage((point, actual) => actual >= point.lower80 && actual <= point.upper80),
+    coverage95: coverage((point, actual) => actual >= point.lower95 && actual <= point.upper95),
+  };
+};
+
+/**
+ * Fit one metric and project it over the buckets
+ * Leads and revenue cannot be negative, so forecasts and bounds are floored at zero
+ */
+const buildSeries = (
+  metric: ForecastMetric,
+  history: number[],
+  buckets: ForecastBucket[],
+  actuals?: number[]
+): ForecastSeries => {
+  const model = fitHoltWinters(history, SEASON_LENGTH);
+  const forecasts = forecastHoltWinters(model, buckets.length);
+  const round = (value: number) => Number(Math.max(0, value).toFixed(2));
+
+  const points: ForecastPoint[] = buckets.map((bucket, i) => {
+    const { value, stdDev } = forecasts[i];
+    return {
+      start: bucket.start,
+      end: bucket.end,
+      label: bucket.label,
+      forecast: round(value),
+      lower80: round(value - Z_80 * stdDev),
+      upper80: round(value + Z_80 * stdDev),
+      lower95: round(value - Z_95 * stdDev),
+      upper95: round(value + Z_95 * stdDev),
+      ...(actuals ? { actual: actuals[i] } : {}),
+    };
+  });
+
+  return {
+    metric,
+    model: {
+      alpha: model.alpha,
+      beta: model.beta,
+      gamma: model.gamma,
+      seasonLength: model.seasonLength,
+      residualStdDev: Number(model.residualStdDev.toFixed(2)),
+    },
+    total: Number(points.reduce((sum, point) => sum + point.forecast, 0).toFixed(2)),
+    points,
+    ...(actuals ? { accuracy: measureAccuracy(points, actuals) } : {}),
+  };
+};
+
+/**
+ * Forecast daily leads and sold revenue over the next `horizon` days
+ * The model is fitted on the complete days of the filtered window, bucketed as in the
+ * time series endpoint. In backtest mode the last `horizon` days are held out and
+ * forecast instead, and each series reports its error against them.
+ */
+export const getLeadForecast = async (
+  filters: DashboardFilters,
+  horizon: number = 30,
+  backtest: boolean = false
+): Promise<Forecast> => {
+  const cacheKey = `dashboard:forecast:${horizon}:${backtest ? 'backtest' : 'forecast'}:${serializeFilters(filters)}`;
+
+  const cached = cache.get<Forecast>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached forecast');
+    return cached;
+  }
+
+  const timeSeries = await getTimeSeriesData(filters, 'day');
+  // Only the first and last days can be partial; a partial day would read as a dip
+  const days = (timeSeries.series[0]?.points ?? []).filter((point) => !point.partial);
+
+  const required = SEASON_LENGTH * 2 + (backtest ? horizon : 0);
+  if (days.length < required) {
+    throw new AppError(
+      `Forecasting needs at least ${required} complete days of history${backtest ? ` for a ${horizon}-day backtest` : ''}; the selected range has ${days.length}`,
+      422
+    );
+  }
+
+  const history = backtest ? days.slice(0, days.length - horizon) : days;
+  const heldOut = backtest ? days.slice(days.length - horizon) : undefined;
+
+  // Forecast days follow the last day of history in the reporting timezone
+  const lastEnd = new Date(history[history.length - 1].end);
+  const buckets: ForecastBucket[] =
+    heldOut ??
+    getCalendarBuckets(lastEnd, new Date(lastEnd.getTime() + (horizon + 1) * DAY_MS), 'day')
+      .slice(0, horizon)
+      .map((bucket) => ({
+        start: bucket.start.toISOString(),
+        end: bucket.end.toISOString(),
+        label: bucket.label,
+      }));
+
+  const result: Forecast = {
+    mode: backtest ? 'backtest' : 'forecast',
+    horizon,
+    currency: timeSeries.currency,
+    timezone: timeSeries.timezone,
+    history: {
+      start: history[0].start,
+      end: history[history.length - 1].end,
+      days: history.length,
+    },
+    series: [
+      buildSeries(
+        'leads',
+        history.map((day) => day.leads),
+        buckets,
+        heldOut?.map((day) => day.leads)
+      ),
+      buildSeries(
+        'revenue',
+        history.map((day) => day.revenue),
+        buckets,
+        heldOut?.map((day) => day.revenue)
+      ),
+    ],
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
@@ -0,0 +1,121 @@
+/**
+ * Funnel Service
+ * Created → contacted → converted funnel analysis from lead timestamps
+ */
+
+import { getFunnelLeads } from '../repositories/data.repository';
+import { DashboardFilters } from '../types/dashboard.types';
+import {
+  FunnelAnalysis,
+  FunnelBreakdown,
+  FunnelGroup,
+} from '../types/analytics.types';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+import { median } from '../utils/statistics';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type FunnelLead = Awaited<ReturnType<typeof getFunnelLeads>>[number];
+
+const percentage = (part: number, whole: number): number =>
+  whole > 0 ? Number(((part / whole) * 100).toFixed(2)) : 0;
+
+const medianDays = (durations: number[]): number | null =>
+  durations.length > 0 ? Number(median(durations).toFixed(2)) : null;
+
+/**
+ * Build the funnel for a group of leads
+ * A lead counts as contacted once it has a contactedAt, and as converted once it also
+ * has a convertedAt, so each step is a subset of the previous one
+ */
+const buildFunnel = (key: string | null, label: string, leads: FunnelLead[]): FunnelGroup => {
+  const contacted = leads.filter((lead) => lead.contactedAt);
+  const converted = contacted.filter((lead) => lead.convertedAt);
+  const days = (from: Date, to: Date) => (to.getTime() - from.getTime()) / DAY_MS;
+
+  return {
+    key,
+    label,
+    steps: [
+      { step: 'created', count: leads.length, conversionRate: 100, dropOff: 0 },
+      {
+        step: 'contacted',
+        count: contacted.length,
+        conversionRate: percentage(contacted.length, leads.length),
+        dropOff: leads.length - contacted.length,
+      },
+      {
+        step: 'converted',
+        count: converted.length,
+        conversionRate: percentage(converted.length, contacted.length),
+        dropOff: contacted.length - converted.length,
+      },
+    ],
+    overallConversionRate: percentage(converted.length, leads.length),
+    medianDays: {
+      createdToContacted: medianDays(contacted.map((lead) => days(lead.createdAt, lead.contactedAt!))),
+      contactedToConverted: medianDays(converted.map((lead) => days(lead.contactedAt!, lead.convertedAt!))),
+      createdToConverted: medianDays(converted.map((lead) => days(lead.createdAt, lead.convertedAt!))),
+    },
+  };
+};
+
+/**
+ * Key and label of the group a lead falls into
+ */
+const groupOf = (lead: FunnelLead, breakdown: FunnelBreakdown): [string | null, string] => {
+  switch (breakdown) {
+    case 'branch':
+      return [String(lead.branchId), lead.branchName];
+    case 'agent':
+      return [String(lead.agentId), lead.agentName];
+    default:
+      return [lead[breakdown], lead[breakdown] ?? `No ${breakdown}`];
+  }
+};
+
+/**
+ * Get the lead funnel, overall and optionally per branch, agent, product, segment or campaign
+ * Groups are ordered by lead volume
+ */
+export const getFunnelAnalysis = async (
+  filters: DashboardFilters,
+  breakdown: FunnelBreakdown | null = null
+): Promise<FunnelAnalysis> => {
+  const cacheKey = `dashboard:funnel:${breakdown ?? 'none'}:${serializeFilters(filters)}`;
+
+  const cached = cache.get<FunnelAnalysis>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached funnel analysis');
+    return cached;
+  }
+
+  const leads = await getFunnelLeads(filters);
+
+  const groups = new Map<string | null, { label: string; leads: FunnelLead[] }>();
+  if (breakdown) {
+    for (const lead of leads) {
+      const [key, label] = groupOf(lead, breakdown);
+      if (!groups.has(key)) {
+        groups.set(key, { label, leads: [] });
+      }
+      groups.get(key)!.leads.push(lead);
+    }
+  }
+
+  const result: FunnelAnalysis = {
+    overall: buildFunnel(null, 'All leads', leads),
+    breakdown,
+    groups: [...groups.entries()]
+      .map(([key, group]) => buildFunnel(key, group.label, group.leads))
+      .sort((a, b) => b.steps[0].count - a.steps[0].count || a.label.localeCompare(b.label)),
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
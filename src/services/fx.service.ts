@@ -0,0 +1,89 @@
+/**
+ * FX Service
+ * Business logic for loading dated FX rates
+ */
+
+import { parseCsv } from '../utils/csv';
+import { upsertFxRates } from '../repositories/fx.repository';
+import { FxRateLoadResult, FxRatePoint } from '../types/fx.types';
+import { withAuditEvent } from './audit.service';
+import { appConfig } from '../config/app.config';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+const REQUIRED_COLUMNS = ['currency', 'date', 'rate'];
+
+/**
+ * Load FX rates from CSV text with `currency`, `date` and `rate` columns
+ * `rate` is the value of one unit of `currency` in the base currency on `date`.
+ * Valid rows are upserted; invalid rows are reported by line number.
+ */
+export const loadFxRatesFromCsv = async (
+  csv: string,
+  actor: string
+): Promise<FxRateLoadResult> => {
+  const { headers, records } = parseCsv(csv);
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !headers.includes(column));
+  if (headers.length === 0 || missingColumns.length > 0) {
+    throw new AppError(
+      `CSV is missing required columns: ${(headers.length === 0 ? REQUIRED_COLUMNS : missingColumns).join(', ')}`,
+      400
+    );
+  }
+
+  const rates: FxRatePoint[] = [];
+  const errors: FxRateLoadResult['errors'] = [];
+
+  for (const record of records) {
+    const rowErrors: string[] = [];
+    const currency = (record.values.currency || '').toUpperCase();
+    const date = new Date(record.values.date || '');
+    const rate = Number(record.values.rate);
+
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      rowErrors.push(`currency "${record.values.currency || ''}" must be a 3-letter ISO 4217 code`);
+    } else if (currency === appConfig.baseCurrency) {
+      rowErrors.push(`${currency} is the base currency and always has a rate of 1`);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(record.values.date || '') || isNaN(date.getTime())) {
+      rowErrors.push(`date "${record.values.date || ''}" must be a YYYY-MM-DD date`);
+    }
+    if (!record.values.rate || !Number.isFinite(rate) || rate <= 0) {
+      rowErrors.push(`rate "${record.values.rate || ''}" must be a positive number`);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ line: record.line, errors: rowErrors });
+    } else {
+      rates.push({ currency, rateDate: date, rate });
+    }
+  }
+
+  const loaded =
+    rates.length > 0
+      ? await withAuditEvent(
+          (tx) => upsertFxRates(rates, tx),
+          () => ({
+            actor,
+            action: 'import',
+            entityType: 'fxRate',
+            entityId: null,
+            after: {
+              rates: rates.map((rate) => ({
+                ...rate,
+                rateDate: rate.rateDate.toISOString().slice(0, 10),
+              })),
+            },
+          })
+        )
+      : 0;
+  if (loaded > 0) {
+    cache.deleteByPrefix('dashboard:');
+  }
+
+  logger.info('FX rates loaded', { totalRows: records.length, loaded, rejected: errors.length });
+
+  return { totalRows: records.length, loaded, errors };
+};
@@ -0,0 +1,289 @@
+/**
+ * Import Service
+ * Business logic for bulk CSV lead import with row-level validation
+ */
+
+import { parseCsv, CsvRecord } from '../utils/csv';
+import { writeImportedLeads } from '../repositories/import.repository';
+import { findCountries } from '../repositories/country.repository';
+import { findBranches, findDeletedBranchNames } from '../repositories/branch.repository';
+import { findInactiveAgentNames } from '../repositories/agent.repository';
+import { findFxCurrencies } from '../repositories/fx.repository';
+import {
+  LEAD_STATUSES,
+  LEAD_PRODUCTS,
+  LEAD_SEGMENTS,
+  LeadStatusValue,
+} from '../types/lead.types';
+import {
+  LeadImportContext,
+  LeadImportOptions,
+  LeadImportResult,
+  LeadImportRowError,
+  ValidatedLeadImportRow,
+} from '../types/import.types';
+import { recordAuditEvent } from './audit.service';
+import { appConfig } from '../config/app.config';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+import { runInTransaction } from '../utils/prisma';
+
+/**
+ * Maximum number of data rows accepted in a single import
+ */
+export const MAX_IMPORT_ROWS = 10000;
+
+const REQUIRED_COLUMNS = ['branch', 'agent', 'createdat'];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Parse an ISO 8601 date cell; returns undefined when invalid
+ */
+const parseDateCell = (value: string): Date | undefined => {
+  if (!ISO_DATE_PATTERN.test(value)) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Validate a single CSV record, returning either a validated row or its errors
+ */
+export const validateImportRecord = (
+  record: CsvRecord,
+  context: LeadImportContext,
+  now: Date = new Date()
+): { row?: ValidatedLeadImportRow; errors: string[] } => {
+  const errors: string[] = [];
+  const { values } = record;
+
+  const branch = values.branch || '';
+  const agent = values.agent || '';
+  if (!branch) errors.push('branch is required');
+  if (branch.length > 100) errors.push('branch must not exceed 100 characters');
+  if (!agent) errors.push('agent is required');
+  if (agent.length > 100) errors.push('agent must not exceed 100 characters');
+  if (context.deletedBranches.includes(branch)) {
+    errors.push(`branch "${branch}" has been deleted`);
+  }
+  if (context.inactiveAgents.get(branch)?.includes(agent)) {
+    errors.push(`agent "${agent}" is inactive and cannot be assigned leads`);
+  }
+
+  // Country (name or ISO code) is only needed for branches that don't exist yet
+  let countryId: number | null = null;
+  if (values.country) {
+    const wanted = values.country.toLowerCase();
+    const country = context.countries.find(
+      (c) => c.name.toLowerCase() === wanted || c.code.toLowerCase() === wanted
+    );
+    if (!country) {
+      errors.push(`country "${values.country}" does not exist`);
+    } else {
+      countryId = country.id;
+      const existingCountryId = context.branchCountries.get(branch);
+      if (existingCountryId !== undefined && existingCountryId !== country.id) {
+        errors.push(`branch "${branch}" does not belong to country "${values.country}"`);
+      }
+    }
+  }
+
+  const agentEmail = values.agentemail || null;
+  if (agentEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(agentEmail)) {
+    errors.push(`agentEmail "${agentEmail}" is not a valid email address`);
+  }
+
+  const status = (values.status || 'Open') as LeadStatusValue;
+  if (!LEAD_STATUSES.includes(status)) {
+    errors.push(`status must be one of: ${LEAD_STATUSES.join(', ')}`);
+  }
+
+  const product = values.product || null;
+  if (product && !(LEAD_PRODUCTS as readonly string[]).includes(product)) {
+    errors.push(`product must be one of: ${LEAD_PRODUCTS.join(', ')}`);
+  }
+
+  const segment = values.segment || null;
+  if (segment && !(LEAD_SEGMENTS as readonly string[]).includes(segment)) {
+    errors.push(`segment must be one of: ${LEAD_SEGMENTS.join(', ')}`);
+  }
+
+  const campaign = values.campaign || null;
+  if (campaign && campaign.length > 100) {
+    errors.push('campaign must not exceed 100 characters');
+  }
+
+  let revenue = 0;
+  if (values.revenue) {
+    revenue = Number(values.revenue);
+    if (!Number.isFinite(revenue) || revenue < 0) {
+      errors.push(`revenue "${values.revenue}" must be a non-negative number`);
+    }
+  }
+
+  const currency = (values.currency || appConfig.baseCurrency).toUpperCase();
+  if (!context.currencies.includes(currency)) {
+    errors.push(`currency "${values.currency}" has no FX rates loaded`);
+  }
+
+  const dates: Record<'createdAt' | 'contactedAt' | 'convertedAt', Date | null> = {
+    createdAt: null,
+    contactedAt: null,
+    convertedAt: null,
+  };
+  (['createdAt', 'contactedAt', 'convertedAt'] as const).forEach((field) => {
+    const raw = values[field.toLowerCase()];
+    if (!raw) return;
+    const parsed = parseDateCell(raw);
+    if (!parsed) {
+      errors.push(`${field} "${raw}" is not a valid ISO 8601 date`);
+    } else if (parsed.getTime() > now.getTime()) {
+      errors.push(`${field} cannot be in the future`);
+    } else {
+      dates[field] = parsed;
+    }
+  });
+
+  if (!values.createdat) errors.push('createdAt is required');
+
+  if (dates.createdAt && dates.contactedAt && dates.contactedAt < dates.createdAt) {
+    errors.push('contactedAt cannot be before createdAt');
+  }
+  if (dates.contactedAt && dates.convertedAt && dates.convertedAt < dates.contactedAt) {
+    errors.push('convertedAt cannot be before contactedAt');
+  }
+  if (status !== 'Open' && !values.contactedat) {
+    errors.push(`contactedAt is required for status "${status}"`);
+  }
+  if (status === 'Product/Service Sold' && !values.convertedat) {
+    errors.push('convertedAt is required for sold leads');
+  }
+  if (status !== 'Product/Service Sold' && values.convertedat) {
+    errors.push('convertedAt is only allowed for sold leads');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    row: {
+      line: record.line,
+      countryId,
+      branch,
+      agent,
+      agentEmail,
+      status,
+      product,
+      segment,
+      campaign,
+      revenue,
+      currency,
+      createdAt: dates.createdAt!,
+      contactedAt: dates.contactedAt,
+      convertedAt: dates.convertedAt,
+    },
+  };
+};
+
+/**
+ * Import leads from CSV text
+ * Valid rows are written in one transaction; invalid rows are reported by line number
+ */
+export const importLeadsFromCsv = async (
+  csv: string,
+  options: LeadImportOptions,
+  actor: string
+): Promise<LeadImportResult> => {
+  const dryRun = options.dryRun === true;
+  const { headers, records } = parseCsv(csv);
+
+  const missingColumns = REQUIRED_COLUMNS.filter((column) => !headers.includes(column));
+  if (headers.length === 0 || missingColumns.length > 0) {
+    throw new AppError(
+      `CSV is missing required columns: ${(headers.length === 0 ? REQUIRED_COLUMNS : missingColumns).join(', ')}`,
+      400
+    );
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`CSV exceeds the maximum of ${MAX_IMPORT_ROWS} rows`, 413);
+  }
+
+  const [countries, branches, deletedBranches, inactiveAgents, fxCurrencies] = await Promise.all([
+    findCountries(),
+    findBranches(),
+    findDeletedBranchNames(),
+    findInactiveAgentNames(),
+    findFxCurrencies(),
+  ]);
+  const context: LeadImportContext = {
+    countries,
+    branchCountries: new Map(branches.map((b) => [b.name, b.countryId])),
+    deletedBranches,
+    inactiveAgents: inactiveAgents.reduce(
+      (names, { branch, agent }) => names.set(branch, [...(names.get(branch) ?? []), agent]),
+      new Map<string, string[]>()
+    ),
+    currencies: [appConfig.baseCurrency, ...fxCurrencies],
+  };
+
+  const validRows: ValidatedLeadImportRow[] = [];
+  const errors: LeadImportRowError[] = [];
+
+  for (const record of records) {
+    const result = validateImportRecord(record, context);
+    if (result.row) {
+      validRows.push(result.row);
+    } else {
+      errors.push({ line: record.line, errors: result.errors });
+    }
+  }
+
+  const written =
+    validRows.length > 0
+      ? await runInTransaction(async (tx) => {
+          const written = await writeImportedLeads(validRows, dryRun, tx);
+          if (!dryRun && written.accepted.length > 0) {
+            await recordAuditEvent(
+              {
+                actor,
+                action: 'import',
+                entityType: 'lead',
+                entityId: null,
+                after: {
+                  leadIds: written.accepted.map((row) => row.leadId),
+                  createdBranches: written.createdBranches,
+                  createdAgents: written.createdAgents,
+                },
+              },
+              tx
+            );
+          }
+          return written;
+        })
+      : { accepted: [], createdBranches: [], createdAgents: [] };
+
+  if (!dryRun && written.accepted.length > 0) {
+    cache.deleteByPrefix('dashboard:');
+    cache.deleteByPrefix('filter:');
+  }
+
+  logger.info('Lead import processed', {
+    dryRun,
+    totalRows: records.length,
+    accepted: written.accepted.length,
+    rejected: errors.length,
+  });
+
+  return {
+    dryRun,
+    totalRows: records.length,
+    accepted: written.accepted,
+    errors,
+    createdBranches: written.createdBranches,
+    createdAgents: written.createdAgents,
+  };
+};
@@ -0,0 +1,417 @@
+/**
+ * Ingest Service
+ * Business logic for idempotent CRM lead event webhooks
+ *
+ * Events are stored once per idempotency key, so retries are harmless. A lead is
+ * built from all of its stored events once its created event arrives (events that
+ * arrive before it are held); after that, newly received events are merged into the
+ * lead as it stands, so edits made through the leads API are kept.
+ */
+
+import {
+  findExistingEventKeys,
+  findIngestedLeads,
+  findLeadEventsByExternalIds,
+  saveLeadEvents,
+} from '../repositories/ingest.repository';
+import { findBranchByName } from '../repositories/branch.repository';
+import { findAgentByName } from '../repositories/agent.repository';
+import { findFxCurrencies } from '../repositories/fx.repository';
+import {
+  IngestedLead,
+  IngestedLeadState,
+  IngestedLeadUpdate,
+  LEAD_EVENT_STATUSES,
+  LeadEventBatchResult,
+  LeadEventData,
+  LeadEventEffects,
+  LeadEventInput,
+  LeadEventResult,
+  LeadStatusHistory,
+  ReceivedLeadEvent,
+} from '../types/ingest.types';
+import { LEAD_PRODUCTS, LEAD_SEGMENTS, LeadStatusValue } from '../types/lead.types';
+import { canTransition } from './lead.service';
+import { recordAuditEvent } from './audit.service';
+import { appConfig } from '../config/app.config';
+import { cache } from '../utils/cache';
+import { AppError } from '../utils/AppError';
+import { isUniqueConstraintError, runInTransaction } from '../utils/prisma';
+import logger from '../utils/logger';
+
+interface IngestContext {
+  now: Date;
+  currencies: string[];
+  branchIds: Map<string, number | null>;
+}
+
+/**
+ * Resolve a branch name to a live branch ID, memoised per batch
+ */
+const resolveBranchId = async (name: string, context: IngestContext): Promise<number | null> => {
+  if (!context.branchIds.has(name)) {
+    const branch = await findBranchByName(name);
+    context.branchIds.set(name, branch && !branch.deletedAt ? branch.id : null);
+  }
+  return context.branchIds.get(name) ?? null;
+};
+
+/**
+ * Validate a single event, returning the data to store or its errors
+ * Branch and agent names on created events are resolved to IDs here
+ */
+const validateLeadEvent = async (
+  event: LeadEventInput,
+  context: IngestContext
+): Promise<{ data?: LeadEventData; errors: string[] }> => {
+  const errors: string[] = [];
+  const data: LeadEventData = { ...event.data };
+
+  if (new Date(event.occurredAt).getTime() > context.now.getTime()) {
+    errors.push('occurredAt cannot be in the future');
+  }
+
+  if (event.type === 'created') {
+    if (!data.branch) errors.push('data.branch is required for created events');
+    if (!data.agent) errors.push('data.agent is required for created events');
+
+    if (data.product && !(LEAD_PRODUCTS as readonly string[]).includes(data.product)) {
+      errors.push(`data.product must be one of: ${LEAD_PRODUCTS.join(', ')}`);
+    }
+    if (data.segment && !(LEAD_SEGMENTS as readonly string[]).includes(data.segment)) {
+      errors.push(`data.segment must be one of: ${LEAD_SEGMENTS.join(', ')}`);
+    }
+
+    if (data.branch && data.agent) {
+      const branchId = await resolveBranchId(data.branch, context);
+      if (!branchId) {
+        errors.push(`branch "${data.branch}" does not exist`);
+      } else {
+        const agent = await findAgentByName(branchId, data.agent);
+        if (!agent) {
+          errors.push(`agent "${data.agent}" does not exist in branch "${data.branch}"`);
+        } else {
+          data.branchId = branchId;
+          data.agentId = agent.id;
+        }
+      }
+    }
+  }
+
+  if (event.type === 'converted') {
+    data.currency = (data.currency || appConfig.baseCurrency).toUpperCase();
+    if (!context.currencies.includes(data.currency)) {
+      errors.push(`currency "${data.currency}" has no FX rates loaded`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { data, errors };
+};
+
+/**
+ * Status a lead had at a given moment, from its history
+ * Leads without recorded history are taken to have started Open
+ */
+const statusAt = (history: LeadStatusHistory, at: Date): LeadStatusValue =>
+  [...history]
+    .sort((x, y) => x.changedAt.getTime() - y.changedAt.getTime())
+    .filter((change) => change.changedAt <= at)
+    .pop()?.toStatus ?? 'Open';
+
+/**
+ * Move the lead's milestones back to an event that happened earlier than recorded
+ * Every status event means the lead was contacted; a conversion only moves an
+ * existing conversion date, so a lead that isn't sold never gains one.
+ */
+const backfillMilestones = (lead: LeadEventEffects, event: ReceivedLeadEvent): boolean => {
+  let changed = false;
+
+  if (!lead.contactedAt || event.occurredAt < lead.contactedAt) {
+    lead.contactedAt = event.occurredAt;
+    changed = true;
+  }
+
+  if (event.type === 'converted' && lead.convertedAt && event.occurredAt < lead.convertedAt) {
+    lead.convertedAt = event.occurredAt;
+    changed = true;
+  }
+
+  return changed;
+};
+
+/**
+ * Apply status events (sorted by occurredAt) to a lead with the given history
+ * Events after the latest status change move the lead when the status rules allow.
+ * Older events (e.g. a contact reported after the sale) still backfill contactedAt /
+ * convertedAt to the earliest time seen and are recorded in the history at that time.
+ * Created events, events dated before creation and events that change nothing are ignored.
+ */
+const applyLeadEvents = (
+  lead: LeadEventEffects,
+  events: ReceivedLeadEvent[],
+  history: LeadStatusHistory,
+  createdAt: Date
+): void => {
+  let latest = history.reduce(
+    (last, change) => (change.changedAt > last ? change.changedAt : last),
+    createdAt
+  );
+
+  for (const event of events) {
+    if (event.type === 'created' || event.occurredAt < createdAt) {
+      lead.ignoredEventKeys.push(event.idempotencyKey);
+      continue;
+    }
+
+    const status = LEAD_EVENT_STATUSES[event.type];
+    if (event.occurredAt >= latest && canTransition(lead.status, status)) {
+      lead.statusChanges.push({
+        fromStatus: lead.status,
+        toStatus: status,
+        changedAt: event.occurredAt,
+      });
+      lead.status = status;
+      lead.contactedAt = lead.contactedAt ?? event.occurredAt;
+      latest = event.occurredAt;
+
+      if (event.type === 'converted') {
+        lead.convertedAt = event.occurredAt;
+        lead.revenue = event.data.revenue ?? 0;
+        lead.currency = event.data.currency ?? appConfig.baseCurrency;
+      }
+      continue;
+    }
+
+    if (event.occurredAt < latest && backfillMilestones(lead, event)) {
+      lead.statusChanges.push({
+        fromStatus: statusAt([...history, ...lead.statusChanges], event.occurredAt),
+        toStatus: status,
+        changedAt: event.occurredAt,
+      });
+      continue;
+    }
+
+    lead.ignoredEventKeys.push(event.idempotencyKey);
+  }
+};
+
+/**
+ * Build a new lead from its events (sorted by occurredAt)
+ * Returns null until the created event has arrived
+ */
+export const foldLeadEvents = (
+  externalId: string,
+  events: ReceivedLeadEvent[]
+): IngestedLeadState | null => {
+  const created = events.find((event) => event.type === 'created');
+  if (!created) return null;
+
+  const state: IngestedLeadState = {
+    externalId,
+    branchId: created.data.branchId!,
+    agentId: created.data.agentId!,
+    status: 'Open',
+    product: created.data.product ?? null,
+    segment: created.data.segment ?? null,
+    campaign: created.data.campaign ?? null,
+    revenue: 0,
+    currency: appConfig.baseCurrency,
+    createdAt: created.occurredAt,
+    contactedAt: null,
+    convertedAt: null,
+    statusChanges: [{ fromStatus: null, toStatus: 'Open', changedAt: created.occurredAt }],
+    ignoredEventKeys: [],
+  };
+
+  applyLeadEvents(
+    state,
+    events.filter((event) => event !== created),
+    [],
+    created.occurredAt
+  );
+
+  return state;
+};
+
+/**
+ * Merge newly received events (sorted by occurredAt) into an existing lead
+ * The lead keeps its current state and history, including edits made since it was
+ * created; events dated before its latest status change only backfill milestones.
+ */
+export const mergeLeadEvents = (lead: IngestedLead, events: ReceivedLeadEvent[]): IngestedLeadUpdate => {
+  const update: IngestedLeadUpdate = {
+    leadId: lead.id,
+    status: lead.status,
+    revenue: lead.revenue,
+    currency: lead.currency,
+    contactedAt: lead.contactedAt,
+    convertedAt: lead.convertedAt,
+    statusChanges: [],
+    ignoredEventKeys: [],
+  };
+
+  applyLeadEvents(update, events, lead.history, lead.createdAt);
+
+  return update;
+};
+
+/**
+ * Sort events by when they happened, keeping the given order for ties
+ */
+const byOccurredAt = <T extends ReceivedLeadEvent>(events: T[]): T[] =>
+  [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+/**
+ * How often a batch is run when another request creates one of its leads first
+ */
+const MAX_INGEST_ATTEMPTS = 2;
+
+/**
+ * Ingest a batch of CRM lead events
+ * A batch that loses a race to create a lead is run again, when its events merge
+ * into the lead the other request created; a repeated conflict is reported as 409.
+ */
+export const ingestLeadEvents = async (
+  events: LeadEventInput[],
+  actor: string,
+  attempt: number = 1
+): Promise<LeadEventBatchResult> => {
+  const [existingKeys, leads, fxCurrencies] = await Promise.all([
+    findExistingEventKeys(events.map((event) => event.idempotencyKey)),
+    findIngestedLeads([...new Set(events.map((event) => event.externalId))]),
+    findFxCurrencies(),
+  ]);
+  const context: IngestContext = {
+    now: new Date(),
+    currencies: [appConfig.baseCurrency, ...fxCurrencies],
+    branchIds: new Map(),
+  };
+
+  const results: LeadEventResult[] = [];
+  const received: ReceivedLeadEvent[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const event of events) {
+    const result: LeadEventResult = {
+      idempotencyKey: event.idempotencyKey,
+      externalId: event.externalId,
+      outcome: 'pending',
+    };
+    results.push(result);
+
+    if (existingKeys.has(event.idempotencyKey) || seenKeys.has(event.idempotencyKey)) {
+      result.outcome = 'duplicate';
+      continue;
+    }
+
+    if (leads.get(event.externalId)?.deletedAt) {
+      result.outcome = 'rejected';
+      result.errors = [`lead "${event.externalId}" has been deleted`];
+      continue;
+    }
+
+    const { data, errors } = await validateLeadEvent(event, context);
+    if (!data) {
+      result.outcome = 'rejected';
+      result.errors = errors;
+      continue;
+    }
+
+    seenKeys.add(event.idempotencyKey);
+    received.push({ ...event, occurredAt: new Date(event.occurredAt), data });
+  }
+
+  // Only leads with newly received events change; duplicates just report their lead
+  const receivedIds = [...new Set(received.map((event) => event.externalId))];
+  const newIds = receivedIds.filter((externalId) => !leads.has(externalId));
+  const history = newIds.length > 0 ? await findLeadEventsByExternalIds(newIds) : [];
+
+  const leadIds = new Map(
+    [...leads]
+      .filter(([, lead]) => !lead.deletedAt)
+      .map(([externalId, lead]) => [externalId, lead.id])
+  );
+  const changedLeadIds: number[] = [];
+  const ignoredKeys = new Set<string>();
+
+  // The lead writes and their audit event commit together
+  try {
+    await runInTransaction(async (tx) => {
+      for (const externalId of receivedIds) {
+        const newEvents = byOccurredAt(received.filter((event) => event.externalId === externalId));
+        const lead = leads.get(externalId);
+        const change = lead
+          ? mergeLeadEvents(lead, newEvents)
+          : foldLeadEvents(
+              externalId,
+              byOccurredAt([
+                ...history.filter((event) => event.externalId === externalId),
+                ...newEvents,
+              ])
+            );
+
+        const leadId = await saveLeadEvents(newEvents, change, tx);
+        if (leadId === null || !change) continue;
+
+        leadIds.set(externalId, leadId);
+        change.ignoredEventKeys.forEach((key) => ignoredKeys.add(key));
+        if (!lead || change.statusChanges.length > 0) {
+          changedLeadIds.push(leadId);
+        }
+      }
+
+      if (changedLeadIds.length > 0) {
+        await recordAuditEvent(
+          {
+            actor,
+            action: 'import',
+            entityType: 'lead',
+            entityId: null,
+            after: { source: 'crm', leadIds: changedLeadIds },
+          },
+          tx
+        );
+      }
+    });
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error;
+    if (attempt < MAX_INGEST_ATTEMPTS) {
+      logger.warn('Lead events stored concurrently by another request, retrying', { attempt });
+      return ingestLeadEvents(events, actor, attempt + 1);
+    }
+    throw new AppError(
+      'Events for these leads were stored concurrently by another request; retry',
+      409
+    );
+  }
+
+  for (const result of results) {
+    const leadId = leadIds.get(result.externalId);
+    if (leadId === undefined || result.outcome === 'rejected') continue;
+
+    result.leadId = leadId;
+    if (result.outcome === 'pending') {
+      result.outcome = ignoredKeys.has(result.idempotencyKey) ? 'ignored' : 'applied';
+    }
+  }
+
+  if (changedLeadIds.length > 0) {
+    // Rankings in every cached dashboard compare all branches, so none can be kept
+    cache.deleteByPrefix('dashboard:');
+    cache.deleteByPrefix('filter:');
+  }
+
+  const count = (outcome: LeadEventResult['outcome']) =>
+    results.filter((result) => result.outcome === outcome).length;
+  const summary = {
+    received: events.length,
+    applied: count('applied'),
+    duplicates: count('duplicate'),
+    pending: count('pending'),
+    ignored: count('ignored'),
+    rejected: count('rejected'),
+  };
+
+  logger.info('Lead events ingested', summary);
+  return { ...summary, results };
+};
@@ -6,6 +6,7 @@
 import { getCallingPatternAnalysis, getLeads } from '../repositories/data.repository';
 import { DashboardFilters, ActionableInsight } from '../types/dashboard.types';
 import logger from '../utils/logger';
+import { summarisePercentiles } from '../utils/statistics';
 
 /**
  * Generate actionable insights based on data patterns
@@ -14,28 +15,21 @@ export const generateActionableInsights = async (filters: DashboardFilters): Pro
   const insights: ActionableInsight[] = [];
 
   try {
-    // Get calling pattern analysis
+    // Get calling pattern analysis (from logged call attempts)
     const callingPatterns = await getCallingPatternAnalysis(filters);
-    const { bestCallingHour, hourlyStats } = callingPatterns;
+    const { bestCallingHour, bestCallingDay, hourlyStats, dayOfWeekStats } = callingPatterns;
 
     // Get leads data for TAT calculation
     const leads = await getLeads(filters);
     const contactedLeads = leads.filter(lead => lead.contacted_at);
 
-    // Calculate current TAT
-    let currentTAT = 0;
-    if (contactedLeads.length > 0) {
-      const totalDays = contactedLeads.reduce((sum, lead) => {
-        if (lead.contacted_at && lead.created_at) {
-          const created = new Date(lead.created_at);
-          const contacted = new Date(lead.contacted_at);
-          const days = (contacted.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
-          return sum + days;
-        }
-        return sum;
-      }, 0);
-      currentTAT = totalDays / contactedLeads.length;
-    }
+    // Calculate current TAT percentiles; the median is not skewed by a few long waits
+    const daysToContact = contactedLeads.map(
+      (lead) =>
+        (new Date(lead.contacted_at!).getTime() - new Date(lead.created_at).getTime()) /
+        (1000 * 60 * 60 * 24)
+    );
+    const tat = summarisePercentiles(daysToContact);
 
     // Calculate current conversion rate
     const totalLeads = leads.length;
@@ -102,12 +96,32 @@ export const generateActionableInsights = async (filters: DashboardFilters): Pro
       });
     }
 
-    // Insight 3: Additional insights based on data patterns
-    if (currentTAT > 7) {
+    // Insight 3: Best day of the week to call
+    if (bestCallingDay && dayOfWeekStats.length > 1) {
+      const avgDaySuccessRate =
+        dayOfWeekStats.reduce((sum, stat) => sum + stat.successRate, 0) / dayOfWeekStats.length;
+
+      if (avgDaySuccessRate > 0 && bestCallingDay.successRate > avgDaySuccessRate) {
+        const dayImprovement =
+          ((bestCallingDay.successRate - avgDaySuccessRate) / avgDaySuccessRate) * 100;
+
+        insights.push({
+          id: 'best-calling-day',
+          title: 'Schedule Calls on Your Best Day',
+          description: `Calls made on ${bestCallingDay.dayName} succeed ${dayImprovement.toFixed(0)}% more often than average. Prioritise follow-ups for that day.`,
+          improvement: Number(dayImprovement.toFixed(0)),
+          metric: 'conversionRate',
+          priority: 'medium',
+        });
+      }
+    }
+
+    // Insight 4: Additional insights based on data patterns
+    if (tat.median !== null && tat.median > 7) {
       insights.push({
         id: 'reduce-response-time',
         title: 'Reduce Response Time',
-        description: `Your average turn around time is ${currentTAT.toFixed(1)} days. Consider setting up automated follow-ups to reduce response time by 20%.`,
+        description: `Half of your leads wait more than ${tat.median.toFixed(1)} days for first contact, and one in ten waits more than ${tat.p90!.toFixed(1)} days. Consider setting up automated follow-ups to reduce response time by 20%.`,
         improvement: 20,
         metric: 'turnAroundTime',
         priority: 'medium',
@@ -0,0 +1,236 @@
+/**
+ * Lead Service
+ * Business logic for creating and updating leads, including status transitions
+ */
+
+import {
+  findLeadById,
+  insertLead,
+  updateLeadById,
+  deleteLeadById,
+  findAgentForLead,
+  findBranchForLead,
+} from '../repositories/lead.repository';
+import { findFxCurrencies } from '../repositories/fx.repository';
+import {
+  CreateLeadInput,
+  UpdateLeadInput,
+  LeadDetails,
+  LeadStatusValue,
+} from '../types/lead.types';
+import { appConfig } from '../config/app.config';
+import { withAuditEvent } from './audit.service';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+/**
+ * Allowed status transitions
+ * Sold is terminal; a closed lead can only be reopened
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatusValue, LeadStatusValue[]> = {
+  Open: ['To Callback Later', 'Product/Service Sold', 'Closed'],
+  'To Callback Later': ['Product/Service Sold', 'Closed'],
+  'Product/Service Sold': [],
+  Closed: ['Open'],
+};
+
+/**
+ * Check whether a lead may move from one status to another
+ */
+export const canTransition = (from: string, to: string): boolean => {
+  const allowed = LEAD_STATUS_TRANSITIONS[from as LeadStatusValue];
+  return allowed ? allowed.includes(to as LeadStatusValue) : false;
+};
+
+/**
+ * Work out contactedAt / convertedAt stamps for a status change
+ * Existing stamps are never overwritten
+ */
+export const getStatusTimestamps = (
+  status: string,
+  current: { contactedAt: string | Date | null; convertedAt: string | Date | null },
+  at: Date = new Date()
+): { contactedAt?: Date; convertedAt?: Date } => {
+  const stamps: { contactedAt?: Date; convertedAt?: Date } = {};
+
+  if (status !== 'Open' && !current.contactedAt) {
+    stamps.contactedAt = at;
+  }
+
+  if (status === 'Product/Service Sold' && !current.convertedAt) {
+    stamps.convertedAt = at;
+  }
+
+  return stamps;
+};
+
+/**
+ * Ensure revenue in this currency can be converted (base currency or loaded FX rates)
+ */
+const assertCurrencySupported = async (currency: string): Promise<void> => {
+  if (currency === appConfig.baseCurrency) return;
+
+  const currencies = await findFxCurrencies();
+  if (!currencies.includes(currency)) {
+    throw new AppError(`No FX rates loaded for ${currency}`, 422);
+  }
+};
+
+/**
+ * Ensure the agent exists, is active and works at the given branch
+ */
+const assertAgentInBranch = async (agentId: number, branchId: number): Promise<void> => {
+  const agent = await findAgentForLead(agentId);
+  if (!agent) {
+    throw new AppError(`Agent ${agentId} not found`, 404);
+  }
+  if (!agent.active) {
+    throw new AppError(`Agent ${agentId} is inactive and cannot be assigned leads`, 409);
+  }
+  if (agent.branchId !== branchId) {
+    throw new AppError(`Agent ${agentId} does not belong to branch ${branchId}`, 400);
+  }
+};
+
+/**
+ * Get a single lead
+ */
+export const getLead = async (id: number): Promise<LeadDetails> => {
+  const lead = await findLeadById(id);
+  if (!lead) {
+    throw new AppError(`Lead ${id} not found`, 404);
+  }
+  return lead;
+};
+
+/**
+ * Create a new lead
+ */
+export const createLead = async (input: CreateLeadInput, actor: string): Promise<LeadDetails> => {
+  const branch = await findBranchForLead(input.branchId);
+  if (!branch) {
+    throw new AppError(`Branch ${input.branchId} not found`, 404);
+  }
+
+  await assertAgentInBranch(input.agentId, input.branchId);
+
+  const currency = input.currency ?? appConfig.baseCurrency;
+  await assertCurrencySupported(currency);
+
+  const status = input.status || 'Open';
+  if (status !== 'Open' && !canTransition('Open', status)) {
+    throw new AppError(`A new lead cannot start in status "${status}"`, 409);
+  }
+
+  const now = new Date();
+  const lead = await withAuditEvent(
+    (tx) =>
+      insertLead(
+        {
+          branchId: input.branchId,
+          agentId: input.agentId,
+          status,
+          product: input.product ?? null,
+          segment: input.segment ?? null,
+          campaign: input.campaign ?? null,
+          revenue: input.revenue ?? 0,
+          currency,
+          createdAt: now,
+          ...getStatusTimestamps(status, { contactedAt: null, convertedAt: null }, now),
+          statusChanges: {
+            create: { fromStatus: null, toStatus: status, changedAt: now },
+          },
+        },
+        tx
+      ),
+    (lead) => ({ actor, action: 'create', entityType: 'lead', entityId: lead.id, after: lead })
+  );
+
+  cache.deleteByPrefix('dashboard:');
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Lead created', { leadId: lead.id, status });
+
+  return lead;
+};
+
+/**
+ * Update an existing lead, validating any status transition
+ */
+export const updateLead = async (
+  id: number,
+  input: UpdateLeadInput,
+  actor: string
+): Promise<LeadDetails> => {
+  const existing = await getLead(id);
+
+  if (input.agentId !== undefined && input.agentId !== existing.agentId) {
+    await assertAgentInBranch(input.agentId, existing.branchId);
+  }
+
+  if (input.currency !== undefined && input.currency !== existing.currency) {
+    await assertCurrencySupported(input.currency);
+  }
+
+  const statusChanged = input.status !== undefined && input.status !== existing.status;
+  if (statusChanged && !canTransition(existing.status, input.status!)) {
+    throw new AppError(
+      `Cannot change lead status from "${existing.status}" to "${input.status}"`,
+      409
+    );
+  }
+
+  const now = new Date();
+  const lead = await withAuditEvent(
+    (tx) =>
+      updateLeadById(
+        id,
+        {
+          ...input,
+          ...(statusChanged
+            ? {
+                ...getStatusTimestamps(input.status!, existing, now),
+                statusChanges: {
+                  create: { fromStatus: existing.status, toStatus: input.status!, changedAt: now },
+                },
+              }
+            : {}),
+        },
+        tx
+      ),
+    (lead) => ({
+      actor,
+      action: 'update',
+      entityType: 'lead',
+      entityId: id,
+      before: existing,
+      after: lead,
+    })
+  );
+
+  cache.deleteByPrefix('dashboard:');
+  cache.deleteByPrefix('filter:');
+
+  if (statusChanged) {
+    logger.info('Lead status changed', { leadId: id, from: existing.status, to: lead.status });
+  }
+
+  return lead;
+};
+
+/**
+ * Soft-delete a lead; it no longer counts in dashboard metrics
+ */
+export const deleteLead = async (id: number, actor: string): Promise<void> => {
+  const lead = await getLead(id);
+
+  await withAuditEvent(
+    (tx) => deleteLeadById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'lead', entityId: id, before: lead })
+  );
+  cache.deleteByPrefix('dashboard:');
+  cache.deleteByPrefix('filter:');
+
+  logger.info('Lead deleted', { leadId: id });
+};
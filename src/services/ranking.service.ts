@@ -4,34 +4,198 @@
  */
 
 import { getAllBranchesPerformance } from '../repositories/data.repository';
+import { findRankingSettings, saveRankingSettings } from '../repositories/ranking.repository';
+import { withAuditEvent } from './audit.service';
 import { DashboardFilters, BranchRanking, CountryRanking, CountryRankingTableRow } from '../types/dashboard.types';
+import {
+  BranchRankingTable,
+  RANKING_COMPONENTS,
+  RankedBranch,
+  RankingMeasures,
+  RankingSettings,
+  RankingWeights,
+  ScoreComponent,
+  UpdateRankingSettingsInput,
+} from '../types/ranking.types';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import { getSingleValue, serializeFilters } from '../utils/filters';
+import { mean } from '../utils/statistics';
 import logger from '../utils/logger';
 
+type BranchPerformance = Awaited<ReturnType<typeof getAllBranchesPerformance>>[number];
+
+/**
+ * Settings used until the organisation saves its own
+ */
+export const DEFAULT_RANKING_SETTINGS: RankingSettings = {
+  method: 'minmax',
+  weights: { revenue: 0.4, conversionRate: 0.3, leads: 0.2, turnAroundTime: 0.1 },
+  updatedBy: null,
+  updatedAt: null,
+};
+
 /**
- * Calculate a composite performance score for ranking
- * Weights: Revenue (40%), Conversion Rate (30%), Leads (20%), TAT (10%)
+ * Score peers (branches or countries) against each other
+ * Each measure is normalised across the group, min-max to 0-1 or as a z-score, with turn
+ * around time inverted so faster is better. The score is the weighted sum: 0-100 for
+ * min-max, and for z-scores the weighted number of standard deviations from the group mean.
+ * Peers without contacted leads get the slowest turn around time in the group.
  */
-const calculatePerformanceScore = (
-  revenue: number,
-  conversionRate: number,
-  leads: number,
-  tat: number
-): number => {
-  // Normalize metrics (higher is better, except for TAT where lower is better)
-  const revenueScore = revenue / 1000; // Scale down revenue
-  const conversionScore = conversionRate * 10; // Scale up conversion rate
-  const leadsScore = leads / 10; // Scale down leads
-  const tatScore = tat > 0 ? 100 / tat : 0; // Inverse TAT (lower TAT = higher score)
-
-  // Weighted composite score
-  const score = (
-    revenueScore * 0.4 +
-    conversionScore * 0.3 +
-    leadsScore * 0.2 +
-    tatScore * 0.1
+export const scorePeers = (
+  peers: RankingMeasures[],
+  settings: RankingSettings
+): Array<{ score: number; components: ScoreComponent[] }> => {
+  const totalWeight = RANKING_COMPONENTS.reduce((sum, c) => sum + settings.weights[c], 0);
+  const knownTATs = peers.flatMap((peer) => (peer.turnAroundTime === null ? [] : [peer.turnAroundTime]));
+  const slowestTAT = knownTATs.length > 0 ? Math.max(...knownTATs) : 0;
+
+  const normalised = RANKING_COMPONENTS.map((component) => {
+    const direction = component === 'turnAroundTime' ? -1 : 1;
+    const values = peers.map((peer) =>
+      component === 'turnAroundTime' ? (peer.turnAroundTime ?? slowestTAT) : peer[component]
+    );
+
+    if (settings.method === 'zscore') {
+      const centre = mean(values);
+      const sd = Math.sqrt(mean(values.map((v) => (v - centre) ** 2)));
+      // A measure every peer shares says nothing about who is ahead
+      return values.map((v) => (sd > 0 ? (direction * (v - centre)) / sd : 0));
+    }
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return values.map((v) =>
+      max > min ? (direction > 0 ? v - min : max - v) / (max - min) : 0.5
+    );
+  });
+
+  const scale = settings.method === 'minmax' ? 100 : 1;
+
+  return peers.map((peer, index) => {
+    const components = RANKING_COMPONENTS.map((component, c) => {
+      const weight = settings.weights[component] / totalWeight;
+      return {
+        component,
+        value: peer[component],
+        normalised: Number(normalised[c][index].toFixed(4)),
+        weight: Number(weight.toFixed(4)),
+        contribution: Number((weight * normalised[c][index] * scale).toFixed(2)),
+      };
+    });
+
+    return {
+      score: Number(components.reduce((sum, c) => sum + c.contribution, 0).toFixed(2)),
+      components,
+    };
+  });
+};
+
+/**
+ * Rank branches by score (name breaks ties)
+ */
+const rankBranches = (branches: BranchPerformance[], settings: RankingSettings): RankedBranch[] => {
+  const scores = scorePeers(
+    branches.map((branch) => ({
+      revenue: branch.totalRevenue,
+      conversionRate: branch.conversionRate,
+      leads: branch.totalLeads,
+      turnAroundTime: branch.turnAroundTimePercentiles.median,
+    })),
+    settings
+  );
+
+  return branches
+    .map((branch, index) => ({
+      rank: 0,
+      branchId: branch.branchId,
+      branchName: branch.branchName,
+      countryName: branch.countryName,
+      ...scores[index],
+    }))
+    .sort((a, b) => b.score - a.score || a.branchName.localeCompare(b.branchName))
+    .map((branch, index) => ({ ...branch, rank: index + 1 }));
+};
+
+/**
+ * Filters that decide a branch ranking: every branch is ranked, so the branch filters
+ * are dropped, and the comparison period does not change the scores
+ */
+const getBranchRankingScope = (filters: DashboardFilters): DashboardFilters => {
+  const { branch: _branch, branchId: _branchId, compareTo: _compareTo, ...scope } = filters;
+  return scope;
+};
+
+/**
+ * Get the organisation's ranking settings (the defaults until they are changed)
+ */
+export const getRankingSettings = async (): Promise<RankingSettings> => {
+  return (await findRankingSettings()) ?? DEFAULT_RANKING_SETTINGS;
+};
+
+/**
+ * Change the normalisation method and/or weights
+ * Weights are relative: they are scaled to sum to 1 when scoring
+ */
+export const updateRankingSettings = async (
+  input: UpdateRankingSettingsInput,
+  actor: string
+): Promise<RankingSettings> => {
+  const existing = await getRankingSettings();
+  const weights: RankingWeights = { ...existing.weights, ...input.weights };
+
+  if (RANKING_COMPONENTS.every((component) => weights[component] === 0)) {
+    throw new AppError('At least one ranking weight must be greater than zero', 400);
+  }
+
+  const settings = await withAuditEvent(
+    (tx) => saveRankingSettings(input.method ?? existing.method, weights, actor, tx),
+    (settings) => ({
+      actor,
+      action: 'update',
+      entityType: 'rankingSettings',
+      entityId: null,
+      before: existing,
+      after: settings,
+    })
   );
+  cache.deleteByPrefix('dashboard:');
 
-  return Number(score.toFixed(2));
+  logger.info('Ranking settings updated', { method: settings.method, weights: settings.weights });
+  return settings;
+};
+
+/**
+ * Get every branch ranked by score, with the contribution of each component
+ * Branch filters are ignored so the whole peer group is ranked
+ */
+export const getBranchRankingTable = async (filters: DashboardFilters): Promise<BranchRankingTable> => {
+  // Keyed on the scope only, so every branch selection shares one table
+  const scope = getBranchRankingScope(filters);
+  const cacheKey = `dashboard:rankings:branches:${serializeFilters(scope)}`;
+
+  const cached = cache.get<BranchRankingTable>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached branch ranking table');
+    return cached;
+  }
+
+  const [settings, allBranches] = await Promise.all([
+    getRankingSettings(),
+    getAllBranchesPerformance(scope),
+  ]);
+
+  const result: BranchRankingTable = {
+    method: settings.method,
+    weights: settings.weights,
+    branches: rankBranches(allBranches, settings),
+    filters: scope,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
 };
 
 /**
@@ -40,7 +204,10 @@ const calculatePerformanceScore = (
 export const getBranchRanking = async (filters: DashboardFilters): Promise<BranchRanking> => {
   try {
     // Get all branches with their performance metrics
-    const allBranches = await getAllBranchesPerformance({ ...filters, branch: undefined });
+    const [settings, allBranches] = await Promise.all([
+      getRankingSettings(),
+      getAllBranchesPerformance(getBranchRankingScope(filters)),
+    ]);
 
     if (allBranches.length === 0) {
       return {
@@ -50,46 +217,27 @@ export const getBranchRanking = async (filters: DashboardFilters): Promise<Branc
       };
     }
 
-    // Calculate performance scores for all branches
-    const branchesWithScores = allBranches.map((branch) => ({
-      ...branch,
-      score: calculatePerformanceScore(
-        branch.totalRevenue,
-        branch.conversionRate,
-        branch.totalLeads,
-        branch.avgTurnAroundTime
-      ),
-    }));
-
-    // Sort by score (highest first)
-    branchesWithScores.sort((a, b) => b.score - a.score);
-
-    // Find the position of the current branch (if filtered)
-    let position = 1;
-    let currentBranchScore = 0;
-
-    if (filters.branch) {
-      const currentBranchIndex = branchesWithScores.findIndex(
-        (b) => b.branchName.toLowerCase() === filters.branch?.toLowerCase()
-      );
-
-      if (currentBranchIndex !== -1) {
-        position = currentBranchIndex + 1;
-        currentBranchScore = branchesWithScores[currentBranchIndex].score;
-      }
-    } else {
-      // If no specific branch filter, return the top branch
-      position = 1;
-      currentBranchScore = branchesWithScores[0]?.score || 0;
-    }
+    // Find the position of the current branch (if exactly one is selected)
+    const ranked = rankBranches(allBranches, settings);
+    const currentBranchId = getSingleValue(filters.branchId);
+    const currentBranch = currentBranchId
+      ? allBranches.find((b) => b.branchId === currentBranchId)?.branchName
+      : getSingleValue(filters.branch);
+
+    // If no specific branch filter, return the top branch
+    const current = currentBranch
+      ? ranked.find((b) => b.branchName.toLowerCase() === currentBranch.toLowerCase())
+      : ranked[0];
+    const position = current?.rank ?? 1;
 
     logger.info(`Branch ranking calculated: Position ${position} out of ${allBranches.length}`);
 
     return {
       position,
       totalBranches: allBranches.length,
-      branch: filters.branch,
-      score: currentBranchScore,
+      branch: currentBranch,
+      score: current?.score ?? 0,
+      ...(current ? { components: current.components } : {}),
     };
   } catch (error) {
     logger.error('Error calculating branch ranking:', error);
@@ -101,59 +249,141 @@ export const getBranchRanking = async (filters: DashboardFilters): Promise<Branc
   }
 };
 
+/**
+ * Aggregate branch performance into per-country rows, ranked by score
+ * Branches without a country are left out. A country's turn around time is the
+ * lead-weighted average of its branches' medians.
+ */
+const rankCountries = (
+  branches: BranchPerformance[],
+  settings: RankingSettings
+): Array<CountryRankingTableRow & { score: number; components: ScoreComponent[] }> => {
+  const countries = new Map<
+    string,
+    {
+      branches: number;
+      leads: number;
+      revenue: number;
+      converted: number;
+      tatWeighted: number;
+      tatLeads: number;
+    }
+  >();
+
+  for (const branch of branches) {
+    if (!branch.countryName) continue;
+
+    const totals = countries.get(branch.countryName) || {
+      branches: 0,
+      leads: 0,
+      revenue: 0,
+      converted: 0,
+      tatWeighted: 0,
+      tatLeads: 0,
+    };
+    totals.branches++;
+    totals.leads += branch.totalLeads;
+    totals.revenue += branch.totalRevenue;
+    totals.converted += (branch.conversionRate / 100) * branch.totalLeads;
+    if (branch.turnAroundTimePercentiles.median !== null) {
+      totals.tatWeighted += branch.turnAroundTimePercentiles.median * branch.totalLeads;
+      totals.tatLeads += branch.totalLeads;
+    }
+    countries.set(branch.countryName, totals);
+  }
+
+  const rows = [...countries.entries()].map(([country, totals]) => ({
+    country,
+    totals,
+    conversionRate: totals.leads > 0 ? (totals.converted / totals.leads) * 100 : 0,
+  }));
+  const scores = scorePeers(
+    rows.map(({ totals, conversionRate }) => ({
+      revenue: Number(totals.revenue.toFixed(2)),
+      conversionRate: Number(conversionRate.toFixed(2)),
+      leads: totals.leads,
+      turnAroundTime:
+        totals.tatLeads > 0 ? Number((totals.tatWeighted / totals.tatLeads).toFixed(2)) : null,
+    })),
+    settings
+  );
+
+  return rows
+    .map(({ country, totals, conversionRate }, index) => ({
+      rank: 0,
+      country,
+      branches: totals.branches,
+      totalLeads: totals.leads,
+      totalRevenue: Number(totals.revenue.toFixed(2)),
+      conversionRate: Number(conversionRate.toFixed(2)),
+      ...scores[index],
+    }))
+    .sort((a, b) => b.score - a.score || a.country.localeCompare(b.country))
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+};
+
 /**
  * Get country ranking position
- * Note: In the current implementation, we assume all branches are in the same country (Kenya)
- * This can be extended when multi-country data is available
+ * Ranks the selected country (or the selected branch's country) against every country
+ * when exactly one is selected; otherwise reports the top country
  */
 export const getCountryRanking = async (filters: DashboardFilters): Promise<CountryRanking> => {
   try {
-    // Get all branches performance
-    const allBranches = await getAllBranchesPerformance({ ...filters, branch: undefined });
+    // Get all branches performance across every country
+    const [settings, allBranches] = await Promise.all([
+      getRankingSettings(),
+      getAllBranchesPerformance({
+        ...filters,
+        branch: undefined,
+        branchId: undefined,
+        country: undefined,
+      }),
+    ]);
+    const ranked = rankCountries(allBranches, settings);
+    const selectedCountry = getSingleValue(filters.country);
 
-    if (allBranches.length === 0) {
+    if (ranked.length === 0) {
       return {
         position: 1,
         totalCountries: 1,
-        country: 'Kenya',
+        country: selectedCountry,
         score: 0,
       };
     }
 
-    // Calculate aggregate country performance
-    const totalRevenue = allBranches.reduce((sum, b) => sum + b.totalRevenue, 0);
-    const totalLeads = allBranches.reduce((sum, b) => sum + b.totalLeads, 0);
-    const avgConversionRate = allBranches.reduce((sum, b) => sum + b.conversionRate, 0) / allBranches.length;
-    const avgTAT = allBranches.reduce((sum, b) => sum + b.avgTurnAroundTime, 0) / allBranches.length;
-
-    // Calculate country score
-    const countryScore = calculatePerformanceScore(totalRevenue, avgConversionRate, totalLeads, avgTAT);
-
-    // In a real multi-country scenario, we would compare against other countries
-    // For now, we'll simulate a ranking based on the score
-    const simulatedTotalCountries = 500;
-    const simulatedPosition = Math.max(
-      1,
-      Math.min(
-        simulatedTotalCountries,
-        Math.floor(simulatedTotalCountries * (1 - countryScore / 1000))
-      )
-    );
+    // Work out which country we are ranking
+    let countryName = selectedCountry;
+    const selectedBranchId = getSingleValue(filters.branchId);
+    const selectedBranch = getSingleValue(filters.branch);
+    if (!countryName && (selectedBranchId || selectedBranch)) {
+      countryName =
+        allBranches.find((b) =>
+          selectedBranchId
+            ? b.branchId === selectedBranchId
+            : b.branchName.toLowerCase() === selectedBranch!.toLowerCase()
+        )?.countryName ?? undefined;
+    }
 
-    logger.info(`Country ranking calculated: Position ${simulatedPosition} out of ${simulatedTotalCountries}`);
+    const current = countryName
+      ? ranked.find((row) => row.country.toLowerCase() === countryName!.toLowerCase())
+      : ranked[0];
+
+    logger.info(
+      `Country ranking calculated: Position ${current?.rank ?? '-'} out of ${ranked.length}`
+    );
 
     return {
-      position: simulatedPosition,
-      totalCountries: simulatedTotalCountries,
-      country: 'Kenya',
-      score: countryScore,
+      position: current?.rank ?? ranked.length,
+      totalCountries: ranked.length,
+      country: current?.country ?? countryName,
+      score: current?.score ?? 0,
+      ...(current ? { components: current.components } : {}),
     };
   } catch (error) {
     logger.error('Error calculating country ranking:', error);
     return {
-      position: 493,
-      totalCountries: 500,
-      country: 'Kenya',
+      position: 1,
+      totalCountries: 1,
       score: 0,
     };
   }
@@ -161,33 +391,23 @@ export const getCountryRanking = async (filters: DashboardFilters): Promise<Coun
 
 /**
  * Get country ranking table data
- * Note: This is simulated data as we currently only have one country (Kenya)
- * In a real multi-country implementation, this would query actual country-level data
+ * One row per country, ranked by composite performance score
  */
 export const getCountryRankingTable = async (filters: DashboardFilters): Promise<CountryRankingTableRow[]> => {
   try {
-    const allBranches = await getAllBranchesPerformance({ ...filters, branch: undefined });
+    const [settings, allBranches] = await Promise.all([
+      getRankingSettings(),
+      getAllBranchesPerformance({
+        ...filters,
+        branch: undefined,
+        branchId: undefined,
+        country: undefined,
+      }),
+    ]);
 
-    if (allBranches.length === 0) {
-      return [];
-    }
-
-    // Aggregate data for Kenya
-    const totalLeads = allBranches.reduce((sum, b) => sum + b.totalLeads, 0);
-    const totalRevenue = allBranches.reduce((sum, b) => sum + b.totalRevenue, 0);
-    const avgConversionRate = allBranches.reduce((sum, b) => sum + b.conversionRate, 0) / allBranches.length;
-
-    // In a real scenario, this would include multiple countries
-    const countryData: CountryRankingTableRow[] = [
-      {
-        rank: 1,
-        country: 'Kenya',
-        branches: allBranches.length,
-        totalLeads,
-        totalRevenue: Number(totalRevenue.toFixed(2)),
-        conversionRate: Number(avgConversionRate.toFixed(2)),
-      },
-    ];
+    const countryData: CountryRankingTableRow[] = rankCountries(allBranches, settings).map(
+      ({ score: _score, components: _components, ...row }) => row
+    );
 
     logger.info(`Country ranking table generated with ${countryData.length} entries`);
 
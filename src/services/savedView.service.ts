@@ -0,0 +1,304 @@
+/**
+ * Saved View Service
+ * Business logic for saved dashboard views and resolving them into filters
+ */
+
+import {
+  findSavedViews,
+  findSavedViewById,
+  findDefaultSavedView,
+  findSavedViewByName,
+  saveSavedView,
+  deleteSavedViewById,
+} from '../repositories/savedView.repository';
+import { findBranchById } from '../repositories/branch.repository';
+import { findAgentBranchByEmail } from '../repositories/agent.repository';
+import { parseFilters, validateFilters, resolveFilterNames } from './filter.service';
+import { withAuditEvent } from './audit.service';
+import {
+  DashboardFilters,
+  FILTER_DIMENSIONS,
+  ID_FILTER_DIMENSIONS,
+  RANGE_FILTERS,
+} from '../types/dashboard.types';
+import {
+  CreateSavedViewInput,
+  SavedViewDetails,
+  SavedViewFiltersInput,
+  SavedViewScope,
+  SavedViewViewer,
+  UpdateSavedViewInput,
+} from '../types/savedView.types';
+import { AppError } from '../utils/AppError';
+import logger from '../utils/logger';
+
+const SAVED_FILTER_KEYS = [
+  'dateRange',
+  ...FILTER_DIMENSIONS,
+  ...ID_FILTER_DIMENSIONS,
+  ...RANGE_FILTERS,
+  'contacted',
+  'compareTo',
+  'currency',
+  'includeDeleted',
+];
+
+/**
+ * Filter keys that are overridden together: an explicit query value for any key in a
+ * group replaces the view's values for the whole group
+ */
+const FILTER_KEY_GROUPS: string[][] = [
+  ['dateRange', 'startDate', 'endDate'],
+  ['branch', 'branchId'],
+  ['agent', 'agentId'],
+  ['minRevenue', 'maxRevenue'],
+  ['minDaysToContact', 'maxDaysToContact'],
+  ...SAVED_FILTER_KEYS.filter(
+    (key) => !['dateRange', 'branch', 'branchId', 'agent', 'agentId', ...RANGE_FILTERS].includes(key)
+  ).map((key) => [key]),
+];
+
+/**
+ * Identify the viewer; agents (matched by email) also see views shared with their branch
+ * The actor comes from the unauthenticated X-Actor header, so ownership and scopes rely on
+ * a gateway in front of the API setting it (see getActor)
+ */
+const getViewer = async (actor: string): Promise<SavedViewViewer> => ({
+  actor,
+  branchId: await findAgentBranchByEmail(actor),
+});
+
+/**
+ * Parse and validate view filters given in query-parameter form
+ * Only relative date presets are stored so a view keeps rolling forward
+ */
+const parseViewFilters = async (input: SavedViewFiltersInput): Promise<DashboardFilters> => {
+  const keys = Object.keys(input);
+
+  if (keys.includes('startDate') || keys.includes('endDate')) {
+    throw new AppError('Saved views store relative date presets; use dateRange instead of startDate/endDate', 400);
+  }
+
+  const unknown = keys.filter((key) => !SAVED_FILTER_KEYS.includes(key));
+  if (unknown.length > 0) {
+    throw new AppError(`Unknown filter keys: ${unknown.join(', ')}`, 400);
+  }
+
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(input)) {
+    query[key] = Array.isArray(value) ? value.map(String) : String(value);
+  }
+
+  const filters = parseFilters(query);
+
+  const rejected = keys.filter(
+    (key) => !(key in filters) && query[key] !== '' && !(key === 'includeDeleted' && query[key] === 'false')
+  );
+  if (rejected.length > 0) {
+    throw new AppError(`Invalid filter values: ${rejected.join(', ')}`, 400);
+  }
+
+  const validation = validateFilters(filters);
+  if (!validation.valid) {
+    throw new AppError(`Invalid filter values: ${validation.errors.join(', ')}`, 400);
+  }
+
+  // Reject ambiguous agent names now rather than every time the view is opened
+  await resolveFilterNames(filters);
+
+  return filters;
+};
+
+/**
+ * Check the scope/branch combination; branch views need a live branch
+ */
+const resolveScope = async (
+  scope: SavedViewScope,
+  branchId: number | null | undefined
+): Promise<number | null> => {
+  if (scope !== 'branch') {
+    if (branchId) {
+      throw new AppError('branchId is only allowed for branch-scoped views', 400);
+    }
+    return null;
+  }
+
+  if (!branchId) {
+    throw new AppError('branchId is required for branch-scoped views', 400);
+  }
+
+  const branch = await findBranchById(branchId);
+  if (!branch) {
+    throw new AppError(`Branch ${branchId} not found`, 404);
+  }
+  return branchId;
+};
+
+/**
+ * Ensure the owner has no other view with this name
+ */
+const assertNameAvailable = async (owner: string, name: string, id?: number): Promise<void> => {
+  const existing = await findSavedViewByName(owner, name);
+  if (existing && existing.id !== id) {
+    throw new AppError(`You already have a saved view named "${name}"`, 409);
+  }
+};
+
+/**
+ * List the views the actor can see
+ */
+export const listSavedViews = async (actor: string): Promise<SavedViewDetails[]> => {
+  return findSavedViews(await getViewer(actor));
+};
+
+/**
+ * Get a view the actor can see; views shared elsewhere are reported as not found
+ */
+export const getSavedView = async (id: number, actor: string): Promise<SavedViewDetails> => {
+  const view = await findSavedViewById(id, await getViewer(actor));
+  if (!view) {
+    throw new AppError(`Saved view ${id} not found`, 404);
+  }
+  return view;
+};
+
+/**
+ * Get a view the actor owns
+ */
+const getOwnSavedView = async (id: number, actor: string): Promise<SavedViewDetails> => {
+  const view = await getSavedView(id, actor);
+  if (view.owner !== actor) {
+    throw new AppError(`Saved view ${id} belongs to ${view.owner} and can only be changed by them`, 403);
+  }
+  return view;
+};
+
+/**
+ * Create a view owned by the actor
+ */
+export const createSavedView = async (
+  input: CreateSavedViewInput,
+  actor: string
+): Promise<SavedViewDetails> => {
+  const filters = await parseViewFilters(input.filters ?? {});
+  const scope = input.scope ?? 'private';
+  const branchId = await resolveScope(scope, input.branchId);
+  await assertNameAvailable(actor, input.name);
+
+  const view = await withAuditEvent(
+    (tx) =>
+      saveSavedView(
+        {
+          name: input.name,
+          owner: actor,
+          filters: JSON.stringify(filters),
+          isDefault: input.isDefault ?? false,
+          scope,
+          branchId,
+        },
+        undefined,
+        tx
+      ),
+    (view) => ({ actor, action: 'create', entityType: 'savedView', entityId: view.id, after: view })
+  );
+
+  logger.info('Saved view created', { savedViewId: view.id, owner: actor, scope });
+  return view;
+};
+
+/**
+ * Update one of the actor's views
+ */
+export const updateSavedView = async (
+  id: number,
+  input: UpdateSavedViewInput,
+  actor: string
+): Promise<SavedViewDetails> => {
+  const existing = await getOwnSavedView(id, actor);
+
+  const name = input.name ?? existing.name;
+  if (name !== existing.name) {
+    await assertNameAvailable(actor, name, id);
+  }
+
+  const filters = input.filters ? await parseViewFilters(input.filters) : existing.filters;
+  const scope = input.scope ?? existing.scope;
+  const branchId = await resolveScope(
+    scope,
+    input.branchId !== undefined ? input.branchId : scope === existing.scope ? existing.branchId : undefined
+  );
+
+  const view = await withAuditEvent(
+    (tx) =>
+      saveSavedView(
+        {
+          name,
+          owner: actor,
+          filters: JSON.stringify(filters),
+          isDefault: input.isDefault ?? existing.isDefault,
+          scope,
+          branchId,
+        },
+        id,
+        tx
+      ),
+    (view) => ({
+      actor,
+      action: 'update',
+      entityType: 'savedView',
+      entityId: id,
+      before: existing,
+      after: view,
+    })
+  );
+
+  return view;
+};
+
+/**
+ * Delete one of the actor's views
+ */
+export const deleteSavedView = async (id: number, actor: string): Promise<void> => {
+  const view = await getOwnSavedView(id, actor);
+
+  await withAuditEvent(
+    (tx) => deleteSavedViewById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'savedView', entityId: id, before: view })
+  );
+
+  logger.info('Saved view deleted', { savedViewId: id });
+};
+
+/**
+ * Overlay explicit query filters on a view's filters
+ * Any supplied key of a group (e.g. branch or branchId) replaces the view's whole group,
+ * so an empty value clears a stored filter
+ */
+export const mergeViewFilters = (
+  stored: DashboardFilters,
+  query: Record<string, any>
+): DashboardFilters => {
+  const explicit = parseFilters(query);
+  const merged: Record<string, unknown> = { ...stored };
+
+  for (const group of FILTER_KEY_GROUPS) {
+    if (group.some((key) => key in query)) {
+      for (const key of group) {
+        delete merged[key];
+        if (key in explicit) {
+          merged[key] = explicit[key as keyof DashboardFilters];
+        }
+      }
+    }
+  }
+
+  return merged as DashboardFilters;
+};
+
+/**
+ * Get the actor's default view filters, if they have set one
+ */
+export const getDefaultViewFilters = async (actor: string): Promise<DashboardFilters | null> => {
+  const view = await findDefaultSavedView(actor);
+  return view ? view.filters : null;
+};
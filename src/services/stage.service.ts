@@ -0,0 +1,115 @@
+/**
+ * Stage Service
+ * Time-in-stage analytics built from the lead status history
+ */
+
+import { getLeadStatusHistory } from '../repositories/data.repository';
+import {
+  DashboardFilters,
+  StageTimeAnalytics,
+  StageTimeGroup,
+  StageTimeStats,
+} from '../types/dashboard.types';
+import { LEAD_STATUSES } from '../types/lead.types';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+import { mean, median } from '../utils/statistics';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Summarise stage durations (in days) keyed by stage name
+ */
+const summariseStages = (durations: Map<string, number[]>): StageTimeStats[] => {
+  const order = (stage: string) => {
+    const index = (LEAD_STATUSES as readonly string[]).indexOf(stage);
+    return index === -1 ? LEAD_STATUSES.length : index;
+  };
+
+  return [...durations.entries()]
+    .map(([stage, values]) => ({
+      stage,
+      count: values.length,
+      averageDays: Number(mean(values).toFixed(2)),
+      medianDays: Number(median(values).toFixed(2)),
+    }))
+    .sort((a, b) => order(a.stage) - order(b.stage));
+};
+
+const pushDuration = (target: Map<string, number[]>, stage: string, days: number): void => {
+  if (!target.has(stage)) {
+    target.set(stage, []);
+  }
+  target.get(stage)!.push(days);
+};
+
+/**
+ * Get average and median time spent in each stage, overall and per branch and agent
+ * Only completed stage visits (the lead has since moved on) are counted
+ */
+export const getStageTimeAnalytics = async (
+  filters: DashboardFilters
+): Promise<StageTimeAnalytics> => {
+  const cacheKey = `dashboard:stage-times:${serializeFilters(filters)}`;
+
+  const cached = cache.get<StageTimeAnalytics>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached stage time analytics');
+    return cached;
+  }
+
+  const history = await getLeadStatusHistory(filters);
+
+  const overall = new Map<string, number[]>();
+  const branches = new Map<number, { name: string; durations: Map<string, number[]> }>();
+  const agents = new Map<number, { name: string; durations: Map<string, number[]> }>();
+  let totalChanges = 0;
+
+  for (const lead of history) {
+    if (!branches.has(lead.branchId)) {
+      branches.set(lead.branchId, { name: lead.branchName, durations: new Map() });
+    }
+    if (!agents.has(lead.agentId)) {
+      agents.set(lead.agentId, { name: lead.agentName, durations: new Map() });
+    }
+
+    totalChanges += lead.changes.filter((change) => change.fromStatus !== null).length;
+
+    for (let i = 0; i < lead.changes.length - 1; i++) {
+      const stage = lead.changes[i].toStatus;
+      const days =
+        (lead.changes[i + 1].changedAt.getTime() - lead.changes[i].changedAt.getTime()) / DAY_MS;
+
+      pushDuration(overall, stage, days);
+      pushDuration(branches.get(lead.branchId)!.durations, stage, days);
+      pushDuration(agents.get(lead.agentId)!.durations, stage, days);
+    }
+  }
+
+  const toGroups = (
+    groups: Map<number, { name: string; durations: Map<string, number[]> }>
+  ): StageTimeGroup[] =>
+    [...groups.entries()]
+      .map(([id, group]) => ({
+        id: String(id),
+        name: group.name,
+        stages: summariseStages(group.durations),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  const result: StageTimeAnalytics = {
+    overall: summariseStages(overall),
+    byBranch: toGroups(branches),
+    byAgent: toGroups(agents),
+    leadsAnalysed: history.length,
+    averageStatusChanges:
+      history.length > 0 ? Number((totalChanges / history.length).toFixed(2)) : 0,
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
@@ -0,0 +1,112 @@
+/**
+ * Target Service
+ * Business logic for setting revenue and lead targets
+ */
+
+import {
+  findTargets,
+  findTargetById,
+  findOverlappingTargets,
+  saveTarget,
+  deleteTargetById,
+} from '../repositories/target.repository';
+import { findBranchById } from '../repositories/branch.repository';
+import { findAgentById } from '../repositories/agent.repository';
+import { SetTargetInput, TargetDetails, TargetListOptions } from '../types/target.types';
+import { withAuditEvent } from './audit.service';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import logger from '../utils/logger';
+
+/**
+ * List targets
+ */
+export const listTargets = async (options: TargetListOptions = {}): Promise<TargetDetails[]> => {
+  return findTargets(options);
+};
+
+/**
+ * Set the target for a branch or agent over a period
+ * Re-setting the exact same period updates it; overlapping periods are rejected
+ */
+export const setTarget = async (
+  input: SetTargetInput,
+  actor: string
+): Promise<{ target: TargetDetails; created: boolean }> => {
+  const hasBranch = input.branchId !== undefined;
+  const hasAgent = input.agentId !== undefined;
+  if (hasBranch === hasAgent) {
+    throw new AppError('Provide exactly one of branchId or agentId', 400);
+  }
+
+  const periodStart = new Date(input.periodStart);
+  const periodEnd = new Date(input.periodEnd);
+  if (periodEnd.getTime() <= periodStart.getTime()) {
+    throw new AppError('periodEnd must be after periodStart', 400);
+  }
+
+  if (hasBranch && !(await findBranchById(input.branchId!))) {
+    throw new AppError(`Branch ${input.branchId} not found`, 404);
+  }
+  if (hasAgent && !(await findAgentById(input.agentId!))) {
+    throw new AppError(`Agent ${input.agentId} not found`, 404);
+  }
+
+  const scope = { branchId: input.branchId ?? null, agentId: input.agentId ?? null };
+  const overlapping = await findOverlappingTargets(scope, periodStart, periodEnd);
+
+  const samePeriod = overlapping.find(
+    (t) =>
+      t.periodStart.getTime() === periodStart.getTime() &&
+      t.periodEnd.getTime() === periodEnd.getTime()
+  );
+  if (overlapping.some((t) => t !== samePeriod)) {
+    throw new AppError('Target period overlaps an existing target for the same branch or agent', 409);
+  }
+
+  const previous = samePeriod ? await findTargetById(samePeriod.id) : null;
+  const target = await withAuditEvent(
+    (tx) =>
+      saveTarget(
+        samePeriod?.id ?? null,
+        {
+          ...scope,
+          periodStart,
+          periodEnd,
+          revenueTarget: input.revenueTarget ?? 0,
+          leadTarget: input.leadTarget ?? 0,
+        },
+        tx
+      ),
+    (target) => ({
+      actor,
+      action: samePeriod ? 'update' : 'create',
+      entityType: 'target',
+      entityId: target.id,
+      before: previous,
+      after: target,
+    })
+  );
+  cache.deleteByPrefix('dashboard:');
+
+  logger.info(samePeriod ? 'Target updated' : 'Target created', { targetId: target.id });
+  return { target, created: !samePeriod };
+};
+
+/**
+ * Delete a target
+ */
+export const deleteTarget = async (id: number, actor: string): Promise<void> => {
+  const target = await findTargetById(id);
+  if (!target) {
+    throw new AppError(`Target ${id} not found`, 404);
+  }
+
+  await withAuditEvent(
+    (tx) => deleteTargetById(id, tx),
+    () => ({ actor, action: 'delete', entityType: 'target', entityId: id, before: target })
+  );
+  cache.deleteByPrefix('dashboard:');
+
+  logger.info('Target deleted', { targetId: id });
+};
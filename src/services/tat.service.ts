@@ -0,0 +1,93 @@
+/**
+ * Turn Around Time Service
+ * Distribution of days from lead creation to first contact
+ */
+
+import { getFunnelLeads } from '../repositories/data.repository';
+import { DashboardFilters } from '../types/dashboard.types';
+import {
+  TAT_HISTOGRAM_EDGES,
+  TatBreakdown,
+  TatDistribution,
+  TatDistributionAnalysis,
+} from '../types/analytics.types';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+import { histogram, mean, summarisePercentiles } from '../utils/statistics';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type TatLead = Awaited<ReturnType<typeof getFunnelLeads>>[number];
+
+/**
+ * Summarise days to contact for a group of leads
+ * Leads that have not been contacted yet are counted but left out of the statistics
+ */
+const buildDistribution = (key: string | null, label: string, leads: TatLead[]): TatDistribution => {
+  const days = leads
+    .filter((lead) => lead.contactedAt)
+    .map((lead) => (lead.contactedAt!.getTime() - lead.createdAt.getTime()) / DAY_MS);
+
+  return {
+    key,
+    label,
+    contacted: days.length,
+    uncontacted: leads.length - days.length,
+    mean: days.length > 0 ? Number(mean(days).toFixed(2)) : null,
+    max: days.length > 0 ? Number(Math.max(...days).toFixed(2)) : null,
+    percentiles: summarisePercentiles(days),
+    histogram: histogram(days, TAT_HISTOGRAM_EDGES).map((bin) => ({
+      ...bin,
+      label: bin.to === null ? `${bin.from}+ days` : `${bin.from}-${bin.to} days`,
+      percentage: days.length > 0 ? Number(((bin.count / days.length) * 100).toFixed(2)) : 0,
+    })),
+  };
+};
+
+/**
+ * Get the days-to-contact distribution, overall and optionally per branch or agent
+ * Groups are ordered by contacted lead volume
+ */
+export const getTatDistribution = async (
+  filters: DashboardFilters,
+  breakdown: TatBreakdown | null = null
+): Promise<TatDistributionAnalysis> => {
+  const cacheKey = `dashboard:tat-distribution:${breakdown ?? 'none'}:${serializeFilters(filters)}`;
+
+  const cached = cache.get<TatDistributionAnalysis>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached turn around time distribution');
+    return cached;
+  }
+
+  const leads = await getFunnelLeads(filters);
+
+  const groups = new Map<string, { label: string; leads: TatLead[] }>();
+  if (breakdown) {
+    for (const lead of leads) {
+      const key = String(breakdown === 'branch' ? lead.branchId : lead.agentId);
+      if (!groups.has(key)) {
+        groups.set(key, {
+          label: breakdown === 'branch' ? lead.branchName : lead.agentName,
+          leads: [],
+        });
+      }
+      groups.get(key)!.leads.push(lead);
+    }
+  }
+
+  const result: TatDistributionAnalysis = {
+    overall: buildDistribution(null, 'All leads', leads),
+    breakdown,
+    groups: [...groups.entries()]
+      .map(([key, group]) => buildDistribution(key, group.label, group.leads))
+      .sort((a, b) => b.contacted - a.contacted || a.label.localeCompare(b.label)),
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
@@ -0,0 +1,128 @@
+/**
+ * Time Series Service
+ * Lead and revenue time series in calendar buckets, optionally split into series
+ */
+
+import { getEarliestLeadDate, getTimeSeriesTotals } from '../repositories/data.repository';
+import { findFxCurrencies } from '../repositories/fx.repository';
+import {
+  DashboardFilters,
+  TimeSeries,
+  TimeSeriesData,
+  TimeSeriesGranularity,
+  TimeSeriesGroup,
+} from '../types/dashboard.types';
+import { appConfig } from '../config/app.config';
+import { getCalendarBuckets, resolveDateWindow } from '../utils/dateRange';
+import { AppError } from '../utils/AppError';
+import { cache } from '../utils/cache';
+import { serializeFilters } from '../utils/filters';
+import logger from '../utils/logger';
+
+/**
+ * Maximum number of buckets in one time series
+ */
+export const MAX_TIME_SERIES_BUCKETS = 1000;
+
+/**
+ * Get leads, conversions and revenue per day, week or month
+ * Every series has a point for every bucket (zero-filled). Open-ended windows start
+ * at the earliest matching lead.
+ */
+export const getTimeSeriesData = async (
+  filters: DashboardFilters,
+  granularity: TimeSeriesGranularity,
+  groupBy: TimeSeriesGroup | null = null
+): Promise<TimeSeriesData> => {
+  const cacheKey = `dashboard:timeseries:${granularity}:${groupBy ?? 'none'}:${serializeFilters(filters)}`;
+
+  const cached = cache.get<TimeSeriesData>(cacheKey);
+  if (cached) {
+    logger.info('Returning cached time series');
+    return cached;
+  }
+
+  // Bounded windows are checked before any query; open-ended ones only look up their start
+  const window = resolveDateWindow(filters);
+  const start = window.start ?? (await getEarliestLeadDate(filters));
+  const buckets = start ? getCalendarBuckets(start, window.end, granularity) : [];
+
+  if (buckets.length > MAX_TIME_SERIES_BUCKETS) {
+    throw new AppError(
+      `The range spans ${buckets.length} ${granularity}s (at most ${MAX_TIME_SERIES_BUCKETS}); use a coarser granularity or a shorter range`,
+      400
+    );
+  }
+
+  const currency = filters.currency ?? appConfig.baseCurrency;
+  if (currency !== appConfig.baseCurrency && !(await findFxCurrencies()).includes(currency)) {
+    throw new AppError(`No FX rates loaded for ${currency}`, 422);
+  }
+
+  const rows = await getTimeSeriesTotals(filters, buckets, groupBy);
+
+  const unconverted = rows.find((row) => row.unconvertedCurrency)?.unconvertedCurrency;
+  if (unconverted) {
+    throw new AppError(`No FX rates loaded for ${unconverted}`, 422);
+  }
+
+  // Running totals per series key, one slot per bucket
+  const totals = new Map<
+    string | null,
+    { label: string; leads: number[]; converted: number[]; revenue: number[] }
+  >();
+  const seriesFor = (key: string | null, label: string) => {
+    if (!totals.has(key)) {
+      totals.set(key, {
+        label,
+        leads: buckets.map(() => 0),
+        converted: buckets.map(() => 0),
+        revenue: buckets.map(() => 0),
+      });
+    }
+    return totals.get(key)!;
+  };
+
+  if (!groupBy) {
+    seriesFor(null, 'All leads');
+  }
+
+  for (const row of rows) {
+    const series = seriesFor(row.key, row.label);
+    series.leads[row.bucket] = row.leads;
+    series.converted[row.bucket] = row.convertedLeads;
+    series.revenue[row.bucket] = row.revenue;
+  }
+
+  const series: TimeSeries[] = [...totals.entries()]
+    .map(([key, total]) => ({
+      key,
+      label: total.label,
+      points: buckets.map((bucket, i) => ({
+        start: bucket.start.toISOString(),
+        end: bucket.end.toISOString(),
+        label: bucket.label,
+        partial: (window.start !== undefined && bucket.start < window.start) || bucket.end > window.end,
+        leads: total.leads[i],
+        convertedLeads: total.converted[i],
+        conversionRate:
+          total.leads[i] > 0 ? Number(((total.converted[i] / total.leads[i]) * 100).toFixed(2)) : 0,
+        revenue: Number(total.revenue[i].toFixed(2)),
+      })),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const result: TimeSeriesData = {
+    granularity,
+    groupBy,
+    currency,
+    timezone: appConfig.timezone,
+    series,
+    filters,
+  };
+
+  // Cache the result (5 minutes)
+  cache.set(cacheKey, result, 300);
+
+  return result;
+};
@@ -0,0 +1,77 @@
+/**
+ * Alert Types
+ * Type definitions for anomaly detection alerts
+ */
+
+export const ALERT_STATUSES = ['open', 'acknowledged', 'resolved'] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export const ALERT_ENTITY_TYPES = ['branch', 'agent'] as const;
+
+export type AlertEntityType = (typeof ALERT_ENTITY_TYPES)[number];
+
+export const ALERT_METRICS = ['leads', 'conversionRate'] as const;
+
+export type AlertMetric = (typeof ALERT_METRICS)[number];
+
+export type AlertDirection = 'drop' | 'spike';
+
+/**
+ * An unusual day found by anomaly detection, before it is stored
+ */
+export interface NewAlert {
+  entityType: AlertEntityType;
+  entityId: number;
+  entityName: string;
+  metric: AlertMetric;
+  day: Date;
+  value: number;
+  baseline: number;
+  zScore: number;
+  direction: AlertDirection;
+}
+
+export interface AlertDetails {
+  id: number;
+  entityType: string;
+  entityId: number;
+  entityName: string;
+  metric: string;
+  day: string; // ISO 8601 start of the day in the reporting timezone
+  value: number; // leads that day, or % converted within 7 days
+  baseline: number; // median of the trailing window
+  zScore: number;
+  direction: string;
+  status: string;
+  acknowledgedBy: string | null;
+  acknowledgedAt: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  resolution: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertQuery {
+  status?: AlertStatus;
+  entityType?: AlertEntityType;
+  entityId?: number;
+  metric?: AlertMetric;
+  from?: string;
+  to?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ResolveAlertInput {
+  resolution?: string;
+}
+
+export interface AnomalyDetectionResult {
+  checkedFrom: string; // first day checked (ISO 8601)
+  checkedTo: string; // end of the last day checked (ISO 8601, exclusive)
+  series: number; // branch and agent series checked
+  flagged: number;
+  created: number; // flagged days not already on record
+}
@@ -0,0 +1,164 @@
+/**
+ * Analytics Types
+ * Type definitions for lead analytics (funnels, cohorts, distributions, forecasts and related breakdowns)
+ */
+
+import { DashboardFilters, HistogramBin, PercentileSummary } from './dashboard.types';
+
+export const FUNNEL_STEPS = ['created', 'contacted', 'converted'] as const;
+
+export type FunnelStepName = (typeof FUNNEL_STEPS)[number];
+
+export const FUNNEL_BREAKDOWNS = ['branch', 'agent', 'product', 'segment', 'campaign'] as const;
+
+export type FunnelBreakdown = (typeof FUNNEL_BREAKDOWNS)[number];
+
+export interface FunnelStep {
+  step: FunnelStepName;
+  count: number;
+  conversionRate: number; // % of the previous step that reached this one (100 for created)
+  dropOff: number; // leads of the previous step that did not reach this one
+}
+
+export interface FunnelGroup {
+  key: string | null; // branch / agent ID or product, segment, campaign; null when unset
+  label: string;
+  steps: FunnelStep[];
+  overallConversionRate: number; // % of created leads that converted
+  medianDays: {
+    createdToContacted: number | null;
+    contactedToConverted: number | null;
+    createdToConverted: number | null;
+  };
+}
+
+export interface FunnelAnalysis {
+  overall: FunnelGroup;
+  breakdown: FunnelBreakdown | null;
+  groups: FunnelGroup[];
+  filters: DashboardFilters;
+}
+
+export const COHORT_PERIODS = ['week', 'month'] as const;
+
+export type CohortPeriod = (typeof COHORT_PERIODS)[number];
+
+/**
+ * Days after creation at which each cohort is measured
+ */
+export const COHORT_DAYS = [1, 7, 14, 30] as const;
+
+export interface CohortCell {
+  day: number;
+  eligible: number; // leads created at least `day` days ago
+  contacted: number; // eligible leads contacted within `day` days
+  converted: number; // eligible leads converted within `day` days
+  contactRate: number | null; // null until some of the cohort is old enough
+  conversionRate: number | null;
+}
+
+export interface CohortRow {
+  label: string; // cohort start in the reporting timezone (YYYY-MM-DD, or YYYY-MM for months)
+  start: string; // ISO 8601, inclusive
+  end: string; // ISO 8601, exclusive
+  partial: boolean; // the filtered window covers only part of the week or month
+  size: number;
+  cells: CohortCell[]; // one per COHORT_DAYS entry
+}
+
+export interface CohortAnalysis {
+  period: CohortPeriod;
+  days: number[];
+  timezone: string;
+  cohorts: CohortRow[];
+  filters: DashboardFilters;
+}
+
+export const TAT_BREAKDOWNS = ['branch', 'agent'] as const;
+
+export type TatBreakdown = (typeof TAT_BREAKDOWNS)[number];
+
+/**
+ * Lower edges (in days) of the days-to-contact histogram bins; the last bin is open-ended
+ */
+export const TAT_HISTOGRAM_EDGES = [0, 1, 2, 3, 7, 14, 30] as const;
+
+export interface TatHistogramBin extends HistogramBin {
+  label: string; // e.g. "3-7 days", "30+ days"
+  percentage: number; // % of contacted leads
+}
+
+export interface TatDistribution {
+  key: string | null; // branch / agent ID; null for all leads
+  label: string;
+  contacted: number;
+  uncontacted: number; // still waiting, so not part of the statistics below
+  mean: number | null;
+  max: number | null;
+  percentiles: PercentileSummary;
+  histogram: TatHistogramBin[];
+}
+
+export interface TatDistributionAnalysis {
+  overall: TatDistribution;
+  breakdown: TatBreakdown | null;
+  groups: TatDistribution[];
+  filters: DashboardFilters;
+}
+
+export const FORECAST_METRICS = ['leads', 'revenue'] as const;
+
+export type ForecastMetric = (typeof FORECAST_METRICS)[number];
+
+/**
+ * Longest forecast horizon, in days
+ */
+export const MAX_FORECAST_HORIZON = 90;
+
+export interface ForecastPoint {
+  start: string; // ISO 8601, inclusive
+  end: string; // ISO 8601, exclusive
+  label: string; // day in the reporting timezone (YYYY-MM-DD)
+  forecast: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+  actual?: number; // backtest only
+}
+
+export interface ForecastAccuracy {
+  mae: number; // mean absolute error
+  rmse: number; // root mean squared error
+  wape: number | null; // absolute error as % of the actual total; null when that is zero
+  coverage80: number; // % of actual days inside the 80% interval
+  coverage95: number;
+}
+
+export interface ForecastSeries {
+  metric: ForecastMetric;
+  model: {
+    alpha: number;
+    beta: number;
+    gamma: number;
+    seasonLength: number;
+    residualStdDev: number;
+  };
+  total: number; // sum of the daily forecasts over the horizon
+  points: ForecastPoint[];
+  accuracy?: ForecastAccuracy; // backtest only
+}
+
+export interface Forecast {
+  mode: 'forecast' | 'backtest';
+  horizon: number;
+  currency: string;
+  timezone: string;
+  history: {
+    start: string;
+    end: string;
+    days: number; // complete days the model was fitted on
+  };
+  series: ForecastSeries[];
+  filters: DashboardFilters;
+}
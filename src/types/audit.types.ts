@@ -0,0 +1,65 @@
+/**
+ * Audit Types
+ * Type definitions for the audit trail
+ */
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'transfer', 'import'] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ENTITY_TYPES = [
+  'country',
+  'branch',
+  'agent',
+  'lead',
+  'callActivity',
+  'target',
+  'fxRate',
+  'savedView',
+  'alert',
+  'rankingSettings',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+/**
+ * Changed fields with their values before and after the write
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEventInput {
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+export interface AuditEventDetails {
+  id: number;
+  actor: string;
+  action: string;
+  entityType: string;
+  entityId: number | null;
+  changes: AuditChanges;
+  createdAt: string;
+}
+
+export interface AuditEventQuery {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  actor?: string;
+  from?: string;
+  to?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
@@ -0,0 +1,87 @@
+/**
+ * Branch Types
+ * Type definitions for country, branch and agent management
+ */
+
+export interface CountryDetails {
+  id: number;
+  name: string;
+  code: string;
+  branchCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BranchDetails {
+  id: number;
+  name: string;
+  countryId: number | null;
+  countryName: string | null;
+  agentCount: number;
+  activeAgentCount: number;
+  leadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AgentAssignment {
+  branchId: number;
+  branchName: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+}
+
+export interface AgentDetails {
+  id: number;
+  name: string;
+  email: string | null;
+  branchId: number;
+  branchName: string;
+  active: boolean;
+  deactivatedAt: string | null;
+  leadCount: number;
+  createdAt: string;
+  updatedAt: string;
+  assignments?: AgentAssignment[];
+}
+
+export interface CreateCountryInput {
+  name: string;
+  code: string;
+}
+
+export interface UpdateCountryInput {
+  name?: string;
+  code?: string;
+}
+
+export interface CreateBranchInput {
+  name: string;
+  countryId: number;
+}
+
+export interface UpdateBranchInput {
+  name?: string;
+  countryId?: number;
+}
+
+export interface CreateAgentInput {
+  name: string;
+  branchId: number;
+  email?: string | null;
+}
+
+export interface UpdateAgentInput {
+  name?: string;
+  email?: string | null;
+}
+
+export interface TransferAgentInput {
+  branchId: number;
+  effectiveDate?: string;
+}
+
+export interface AgentListOptions {
+  branchId?: number;
+  includeInactive?: boolean;
+}
@@ -0,0 +1,52 @@
+/**
+ * Call Types
+ * Type definitions for call activity logging
+ */
+
+export const CALL_OUTCOMES = [
+  'Sold',
+  'Interested',
+  'Callback Requested',
+  'Not Interested',
+  'No Answer',
+  'Busy',
+  'Voicemail',
+  'Wrong Number',
+] as const;
+
+export type CallOutcome = (typeof CALL_OUTCOMES)[number];
+
+/**
+ * Outcomes where the agent spoke to the customer
+ */
+export const CONNECTED_CALL_OUTCOMES: readonly CallOutcome[] = [
+  'Sold',
+  'Interested',
+  'Callback Requested',
+  'Not Interested',
+];
+
+/**
+ * Outcomes counted as a successful call in calling-pattern insights
+ */
+export const SUCCESSFUL_CALL_OUTCOMES: readonly CallOutcome[] = ['Sold', 'Interested'];
+
+export interface LogCallInput {
+  agentId?: number; // defaults to the lead's agent
+  outcome: CallOutcome;
+  durationSeconds?: number;
+  calledAt?: string; // defaults to now
+  notes?: string | null;
+}
+
+export interface CallActivityDetails {
+  id: number;
+  leadId: number;
+  agentId: number;
+  agentName: string;
+  outcome: string;
+  durationSeconds: number;
+  calledAt: string;
+  notes: string | null;
+  createdAt: string;
+}
@@ -3,15 +3,84 @@
  * Type definitions for the Branch Manager Dashboard API
  */
 
-export type DateRange = 'last7days' | 'last30days' | 'last90days' | 'lastYear' | 'all';
+import { ScoreComponent } from './ranking.types';
+
+export const DATE_RANGES = [
+  'last7days',
+  'last30days',
+  'last90days',
+  'lastYear',
+  'all',
+  'thisMonth',
+  'lastMonth',
+  'quarterToDate',
+  'yearToDate',
+  'lastFiscalQuarter',
+] as const;
+
+export type DateRange = (typeof DATE_RANGES)[number];
+
+/**
+ * What KPIs are compared against: the preceding window of the same length
+ * or the same window a year earlier
+ */
+export const COMPARISON_PERIODS = ['previousPeriod', 'previousYear'] as const;
+
+export type ComparisonPeriod = (typeof COMPARISON_PERIODS)[number];
+
+export const FILTER_DIMENSIONS = [
+  'country',
+  'branch',
+  'agent',
+  'product',
+  'segment',
+  'campaign',
+  'status',
+] as const;
+
+export type FilterDimension = (typeof FILTER_DIMENSIONS)[number];
+
+export const ID_FILTER_DIMENSIONS = ['branchId', 'agentId'] as const;
+
+export type IdFilterDimension = (typeof ID_FILTER_DIMENSIONS)[number];
+
+/**
+ * Inclusive numeric bounds on a lead measure: revenue in the reporting currency
+ * and days from creation to first contact
+ */
+export const RANGE_FILTERS = ['minRevenue', 'maxRevenue', 'minDaysToContact', 'maxDaysToContact'] as const;
+
+export type RangeFilter = (typeof RANGE_FILTERS)[number];
+
+/**
+ * Values matched on one dimension: any of `in` and none of `notIn`
+ */
+export interface ValueFilter<T extends string | number = string> {
+  in?: T[];
+  notIn?: T[];
+}
 
 export interface DashboardFilters {
   dateRange?: DateRange;
-  branch?: string;
-  agent?: string;
-  product?: string;
-  segment?: string;
-  campaign?: string;
+  startDate?: string; // ISO 8601, inclusive; overrides dateRange
+  endDate?: string; // ISO 8601, exclusive (a date-only value includes that day); overrides dateRange
+  country?: ValueFilter;
+  branch?: ValueFilter;
+  agent?: ValueFilter;
+  product?: ValueFilter;
+  segment?: ValueFilter;
+  campaign?: ValueFilter;
+  status?: ValueFilter; // lead statuses (LEAD_STATUSES)
+  branchId?: ValueFilter<number>;
+  agentId?: ValueFilter<number>; // agent names are resolved to IDs before querying
+  minRevenue?: number; // in the reporting currency
+  maxRevenue?: number;
+  contacted?: boolean; // whether the lead has been contacted
+  minDaysToContact?: number; // only contacted leads have a days-to-contact
+  maxDaysToContact?: number;
+  compareTo?: ComparisonPeriod; // KPI comparison window, defaults to previousPeriod
+  currency?: string; // ISO 4217 reporting currency, defaults to the base currency
+  includeDeleted?: boolean; // include soft-deleted leads
 }
 
 export interface KPI {
@@ -38,19 +107,37 @@ export interface BranchMetric {
   conversionRate?: number;
 }
 
+/**
+ * Median and upper percentiles of a duration (null when there is nothing to measure)
+ */
+export interface PercentileSummary {
+  median: number | null;
+  p75: number | null;
+  p90: number | null;
+  p95: number | null;
+}
+
+export interface HistogramBin {
+  from: number; // inclusive
+  to: number | null; // exclusive; null for the open-ended last bin
+  count: number;
+}
+
 export interface AgentPerformance {
   agentId: string;
   agentName: string;
   leads: number;
   revenue: number;
   conversionRate: number;
-  turnAroundTime: number; // in days
+  turnAroundTime: number; // mean, in days
+  turnAroundTimePercentiles: PercentileSummary; // in days
 }
 
 export interface TopPerformingAgent {
   id: string;
   name: string;
-  turnAroundTime: number; // in days
+  turnAroundTime: number; // mean, in days
+  turnAroundTimePercentiles: PercentileSummary; // in days
   conversionRate: number;
   branch: string;
 }
@@ -64,12 +151,16 @@ export interface BranchAgentRanking {
 
 export interface LeadsByBranchData {
   period: string;
+  periodStart: string;
+  periodEnd: string;
   leads: number;
   conversionRate: number;
 }
 
 export interface RevenueByBranchData {
   period: string;
+  periodStart: string;
+  periodEnd: string;
   revenue: number;
   target?: number;
 }
@@ -88,6 +179,7 @@ export interface BranchRanking {
   totalBranches: number;
   branch?: string;
   score?: number;
+  components?: ScoreComponent[];
 }
 
 export interface CountryRanking {
@@ -95,6 +187,7 @@ export interface CountryRanking {
   totalCountries: number;
   country?: string;
   score?: number;
+  components?: ScoreComponent[];
 }
 
 export interface CountryRankingTableRow {
@@ -106,6 +199,84 @@ export interface CountryRankingTableRow {
   conversionRate: number;
 }
 
+export interface StageTimeStats {
+  stage: string;
+  count: number; // completed visits to the stage
+  averageDays: number;
+  medianDays: number;
+}
+
+export interface StageTimeGroup {
+  id: string;
+  name: string;
+  stages: StageTimeStats[];
+}
+
+export interface StageTimeAnalytics {
+  overall: StageTimeStats[];
+  byBranch: StageTimeGroup[];
+  byAgent: StageTimeGroup[];
+  leadsAnalysed: number;
+  averageStatusChanges: number;
+  filters: DashboardFilters;
+}
+
+export interface FilterOptionWithCounts {
+  value: string;
+  label: string;
+  leads: number;
+  revenue: number; // sold revenue in the reporting currency
+}
+
+/**
+ * Filter options still reachable under the current filters
+ * Each dimension ignores its own selection so further values can be added to it
+ */
+export interface DependentFilterOptions {
+  currency: string;
+  countries: FilterOptionWithCounts[];
+  branches: FilterOptionWithCounts[];
+  agents: FilterOptionWithCounts[];
+  products: FilterOptionWithCounts[];
+  segments: FilterOptionWithCounts[];
+  campaigns: FilterOptionWithCounts[];
+  filters: DashboardFilters;
+}
+
+export const TIME_SERIES_GRANULARITIES = ['day', 'week', 'month'] as const;
+
+export type TimeSeriesGranularity = (typeof TIME_SERIES_GRANULARITIES)[number];
+
+export const TIME_SERIES_GROUPS = ['branch', 'agent', 'product'] as const;
+
+export type TimeSeriesGroup = (typeof TIME_SERIES_GROUPS)[number];
+
+export interface TimeSeriesPoint {
+  start: string; // ISO 8601, inclusive
+  end: string; // ISO 8601, exclusive
+  label: string; // bucket start in the reporting timezone (YYYY-MM-DD, or YYYY-MM for months)
+  partial: boolean; // the filtered window covers only part of the bucket
+  leads: number;
+  convertedLeads: number;
+  conversionRate: number;
+  revenue: number; // sold revenue in the reporting currency
+}
+
+export interface TimeSeries {
+  key: string | null; // branch / agent ID or product; null for leads without a product
+  label: string;
+  points: TimeSeriesPoint[];
+}
+
+export interface TimeSeriesData {
+  granularity: TimeSeriesGranularity;
+  groupBy: TimeSeriesGroup | null;
+  currency: string;
+  timezone: string;
+  series: TimeSeries[];
+  filters: DashboardFilters;
+}
+
 export interface DashboardData {
   kpis: KPI[];
   leadsByBranch: LeadsByBranchData[];
@@ -0,0 +1,24 @@
+/**
+ * FX Types
+ * Type definitions for currency conversion
+ */
+
+/**
+ * A dated rate: one unit of `currency` is worth `rate` units of the base currency
+ */
+export interface FxRatePoint {
+  currency: string;
+  rateDate: Date;
+  rate: number;
+}
+
+export interface FxConverter {
+  currency: string; // currency amounts are converted into
+  convert: (amount: number, fromCurrency: string, date: Date) => number;
+}
+
+export interface FxRateLoadResult {
+  totalRows: number;
+  loaded: number;
+  errors: Array<{ line: number; errors: string[] }>;
+}
@@ -0,0 +1,62 @@
+/**
+ * Import Types
+ * Type definitions for bulk lead import
+ */
+
+import { LeadStatusValue } from './lead.types';
+
+export interface LeadImportOptions {
+  dryRun?: boolean;
+}
+
+/**
+ * A CSV row that passed validation, with names still unresolved
+ */
+export interface ValidatedLeadImportRow {
+  line: number;
+  countryId: number | null; // only used when the branch has to be created
+  branch: string;
+  agent: string;
+  agentEmail: string | null;
+  status: LeadStatusValue;
+  product: string | null;
+  segment: string | null;
+  campaign: string | null;
+  revenue: number;
+  currency: string;
+  createdAt: Date;
+  contactedAt: Date | null;
+  convertedAt: Date | null;
+}
+
+/**
+ * Reference data used to validate country and branch cells
+ */
+export interface LeadImportContext {
+  countries: Array<{ id: number; name: string; code: string }>;
+  branchCountries: Map<string, number | null>; // branch name -> country ID
+  deletedBranches: string[]; // names that cannot be imported into
+  inactiveAgents: Map<string, string[]>; // branch name -> names of inactive agents
+  currencies: string[]; // currencies with FX rates, plus the base currency
+}
+
+export interface LeadImportRowError {
+  line: number;
+  errors: string[];
+}
+
+export interface LeadImportAcceptedRow {
+  line: number;
+  leadId: number | null; // null on dry runs
+  branchId: number | null;
+  agentId: number | null;
+}
+
+export interface LeadImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  accepted: LeadImportAcceptedRow[];
+  errors: LeadImportRowError[];
+  createdBranches: string[];
+  createdAgents: string[];
+}
@@ -0,0 +1,136 @@
+/**
+ * Ingest Types
+ * Type definitions for CRM lead event webhooks
+ */
+
+import { LeadStatusValue } from './lead.types';
+
+export const LEAD_EVENT_TYPES = ['created', 'contacted', 'converted', 'closed'] as const;
+
+/**
+ * Maximum number of events accepted in a single webhook call
+ */
+export const MAX_INGEST_EVENTS = 500;
+
+export type LeadEventType = (typeof LEAD_EVENT_TYPES)[number];
+
+/**
+ * Lead status each non-creation event moves the lead to
+ */
+export const LEAD_EVENT_STATUSES: Record<Exclude<LeadEventType, 'created'>, LeadStatusValue> = {
+  contacted: 'To Callback Later',
+  converted: 'Product/Service Sold',
+  closed: 'Closed',
+};
+
+export interface LeadEventData {
+  branch?: string; // created: branch name
+  agent?: string; // created: agent name within the branch
+  branchId?: number; // created: resolved when the event is received
+  agentId?: number; // created: resolved when the event is received
+  product?: string | null;
+  segment?: string | null;
+  campaign?: string | null;
+  revenue?: number; // converted
+  currency?: string; // converted
+}
+
+export interface LeadEventInput {
+  idempotencyKey: string;
+  externalId: string;
+  type: LeadEventType;
+  occurredAt: string;
+  data?: LeadEventData;
+}
+
+/**
+ * A validated event, before it is stored
+ */
+export interface ReceivedLeadEvent {
+  idempotencyKey: string;
+  externalId: string;
+  type: LeadEventType;
+  occurredAt: Date;
+  data: LeadEventData;
+}
+
+/**
+ * A stored event, as replayed to build a lead once its created event arrives
+ */
+export interface StoredLeadEvent extends ReceivedLeadEvent {
+  id: number;
+}
+
+/**
+ * A lead's status changes, oldest first
+ */
+export type LeadStatusHistory = Array<{ toStatus: LeadStatusValue; changedAt: Date }>;
+
+/**
+ * Lead fields that status events change
+ */
+export interface LeadEventEffects {
+  status: LeadStatusValue;
+  revenue: number;
+  currency: string;
+  contactedAt: Date | null;
+  convertedAt: Date | null;
+  statusChanges: Array<{ fromStatus: LeadStatusValue | null; toStatus: LeadStatusValue; changedAt: Date }>; // new history rows
+  ignoredEventKeys: string[]; // events superseded by the lead's history
+}
+
+/**
+ * A new lead built from all events for one external ID
+ */
+export interface IngestedLeadState extends LeadEventEffects {
+  externalId: string;
+  branchId: number;
+  agentId: number;
+  product: string | null;
+  segment: string | null;
+  campaign: string | null;
+  createdAt: Date;
+}
+
+/**
+ * An existing CRM lead, as new events are merged into it
+ */
+export interface IngestedLead {
+  id: number;
+  externalId: string;
+  status: LeadStatusValue;
+  revenue: number;
+  currency: string;
+  createdAt: Date;
+  contactedAt: Date | null;
+  convertedAt: Date | null;
+  deletedAt: Date | null;
+  history: LeadStatusHistory; // recorded status changes, whatever made them
+}
+
+/**
+ * Changes to an existing lead from newly received events
+ */
+export interface IngestedLeadUpdate extends LeadEventEffects {
+  leadId: number;
+}
+
+export type LeadEventOutcome = 'applied' | 'duplicate' | 'pending' | 'ignored' | 'rejected';
+
+export interface LeadEventResult {
+  idempotencyKey: string;
+  externalId: string;
+  outcome: LeadEventOutcome;
+  leadId?: number;
+  errors?: string[];
+}
+
+export interface LeadEventBatchResult {
+  received: number;
+  applied: number;
+  duplicates: number;
+  pending: number;
+  ignored: number;
+  rejected: number;
+  results: LeadEventResult[];
+}
@@ -0,0 +1,56 @@
+/**
+ * Lead Types
+ * Type definitions for lead write operations
+ */
+
+export const LEAD_STATUSES = [
+  'Open',
+  'To Callback Later',
+  'Product/Service Sold',
+  'Closed',
+] as const;
+
+export type LeadStatusValue = (typeof LEAD_STATUSES)[number];
+
+export const LEAD_PRODUCTS = ['Insurance', 'Loan', 'Investment', 'Savings'] as const;
+
+export const LEAD_SEGMENTS = ['Premium', 'Standard', 'Basic'] as const;
+
+export interface CreateLeadInput {
+  branchId: number;
+  agentId: number;
+  status?: LeadStatusValue;
+  product?: string | null;
+  segment?: string | null;
+  campaign?: string | null;
+  revenue?: number;
+  currency?: string;
+}
+
+export interface UpdateLeadInput {
+  agentId?: number;
+  status?: LeadStatusValue;
+  product?: string | null;
+  segment?: string | null;
+  campaign?: string | null;
+  revenue?: number;
+  currency?: string;
+}
+
+export interface LeadDetails {
+  id: number;
+  branchId: number;
+  branchName: string;
+  agentId: number;
+  agentName: string;
+  status: string;
+  product: string | null;
+  segment: string | null;
+  campaign: string | null;
+  revenue: number;
+  currency: string;
+  createdAt: string;
+  updatedAt: string;
+  contactedAt: string | null;
+  convertedAt: string | null;
+}
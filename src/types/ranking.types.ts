@@ -0,0 +1,62 @@
+/**
+ * Ranking Types
+ * Type definitions for normalised branch and country performance scores
+ */
+
+import { DashboardFilters } from './dashboard.types';
+
+export const RANKING_METHODS = ['minmax', 'zscore'] as const;
+
+export type RankingMethod = (typeof RANKING_METHODS)[number];
+
+export const RANKING_COMPONENTS = ['revenue', 'conversionRate', 'leads', 'turnAroundTime'] as const;
+
+export type RankingComponent = (typeof RANKING_COMPONENTS)[number];
+
+export type RankingWeights = Record<RankingComponent, number>;
+
+export interface RankingSettings {
+  method: RankingMethod;
+  weights: RankingWeights;
+  updatedBy: string | null;
+  updatedAt: string | null; // null until the defaults are first changed
+}
+
+export interface UpdateRankingSettingsInput {
+  method?: RankingMethod;
+  weights?: Partial<RankingWeights>;
+}
+
+/**
+ * Raw measures of one peer (branch or country) before normalisation
+ */
+export interface RankingMeasures {
+  revenue: number;
+  conversionRate: number;
+  leads: number;
+  turnAroundTime: number | null; // median days to contact; null without contacted leads
+}
+
+export interface ScoreComponent {
+  component: RankingComponent;
+  value: number | null; // raw measure
+  normalised: number; // 0-1 for minmax, z-score for zscore (turn around time inverted)
+  weight: number; // share of the total weight (weights sum to 1)
+  contribution: number; // points added to the score
+}
+
+export interface RankedBranch {
+  rank: number;
+  branchId: number;
+  branchName: string;
+  countryName: string | null;
+  score: number;
+  components: ScoreComponent[];
+}
+
+export interface BranchRankingTable {
+  method: RankingMethod;
+  weights: RankingWeights;
+  branches: RankedBranch[];
+  filters: DashboardFilters;
+}
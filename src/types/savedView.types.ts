@@ -0,0 +1,52 @@
+/**
+ * Saved View Types
+ * Type definitions for saved dashboard views
+ */
+
+import { DashboardFilters } from './dashboard.types';
+
+export const SAVED_VIEW_SCOPES = ['private', 'branch', 'organisation'] as const;
+
+export type SavedViewScope = (typeof SAVED_VIEW_SCOPES)[number];
+
+export interface SavedViewDetails {
+  id: number;
+  name: string;
+  owner: string;
+  filters: DashboardFilters;
+  isDefault: boolean;
+  scope: SavedViewScope;
+  branchId: number | null;
+  branchName: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Filters as sent by clients: the /api/dashboard query parameters as a JSON object
+ */
+export type SavedViewFiltersInput = Record<string, string | number | boolean | Array<string | number>>;
+
+export interface CreateSavedViewInput {
+  name: string;
+  filters?: SavedViewFiltersInput;
+  isDefault?: boolean;
+  scope?: SavedViewScope;
+  branchId?: number; // required for branch scope
+}
+
+export interface UpdateSavedViewInput {
+  name?: string;
+  filters?: SavedViewFiltersInput;
+  isDefault?: boolean;
+  scope?: SavedViewScope;
+  branchId?: number | null;
+}
+
+/**
+ * Who is looking at views: the actor and, when the actor is an agent, their branch
+ */
+export interface SavedViewViewer {
+  actor: string;
+  branchId: number | null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Target Types
+ * Type definitions for revenue and lead targets
+ */
+
+export interface TargetDetails {
+  id: number;
+  scope: 'branch' | 'agent';
+  branchId: number | null;
+  branchName: string | null;
+  agentId: number | null;
+  agentName: string | null;
+  periodStart: string;
+  periodEnd: string; // exclusive
+  revenueTarget: number;
+  leadTarget: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SetTargetInput {
+  branchId?: number;
+  agentId?: number;
+  periodStart: string;
+  periodEnd: string; // exclusive
+  revenueTarget?: number;
+  leadTarget?: number;
+}
+
+export interface TargetListOptions {
+  branchId?: number;
+  agentId?: number;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Minimal target shape used when prorating over a date window
+ */
+export interface TargetPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  revenueTarget: number;
+  leadTarget: number;
+}
@@ -0,0 +1,51 @@
+/**
+ * Audit Utility
+ * Helpers for identifying the actor of a write and diffing records
+ */
+
+import { Request } from 'express';
+import { AuditChanges } from '../types/audit.types';
+
+/**
+ * Fields that change on every write and add nothing to the diff
+ */
+const IGNORED_FIELDS = ['updatedAt'];
+
+/**
+ * Actor recorded when a request does not identify itself
+ */
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * Get the actor making a request from the X-Actor header
+ * The header is not authenticated here; it must be set by a trusted gateway, not the client
+ */
+export const getActor = (req: Request): string => {
+  const actor = req.get('x-actor')?.trim().substring(0, 100);
+  return actor || ANONYMOUS_ACTOR;
+};
+
+/**
+ * Diff two snapshots of a record, keeping only the fields whose value changed
+ * A missing snapshot (create or delete) reports every field of the other one
+ */
+export const diffRecords = (
+  before: object | null | undefined,
+  after: object | null | undefined
+): AuditChanges => {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const oldValue = previous[field] ?? null;
+    const newValue = next[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { before: oldValue, after: newValue };
+    }
+  }
+
+  return changes;
+};
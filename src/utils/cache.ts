@@ -18,8 +18,8 @@ class Cache {
     this.cache = new Map();
     this.defaultTTL = defaultTTL * 1000; // Convert to milliseconds
 
-    // Clean up expired entries every minute
-    setInterval(() => this.cleanup(), 60000);
+    // Clean up expired entries every minute (without keeping the process alive)
+    setInterval(() => this.cleanup(), 60000).unref();
   }
 
   /**
@@ -56,6 +56,20 @@ class Cache {
     return this.cache.delete(key);
   }
 
+  /**
+   * Delete all values whose key starts with the given prefix
+   */
+  deleteByPrefix(prefix: string): number {
+    let deleted = 0;
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   /**
    * Clear all cache
    */
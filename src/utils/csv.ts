@@ -0,0 +1,90 @@
+/**
+ * CSV Utility
+ * Minimal RFC 4180 parser (quoted fields, escaped quotes, CRLF)
+ */
+
+export interface CsvRecord {
+  line: number; // 1-based line number where the record starts
+  values: Record<string, string>;
+}
+
+/**
+ * Normalise a header cell so "Created At", "created_at" and "createdAt" all match
+ */
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Split CSV text into rows of raw cells, tracking the starting line of each row
+ */
+const tokenize = (text: string): Array<{ line: number; cells: string[] }> => {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowStart, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    cells.push(cell);
+    rows.push({ line: rowStart, cells });
+  }
+
+  // Drop blank lines
+  return rows.filter((row) => row.cells.some((c) => c.trim() !== ''));
+};
+
+/**
+ * Parse CSV text into records keyed by normalised header names
+ */
+export const parseCsv = (text: string): { headers: string[]; records: CsvRecord[] } => {
+  const rows = tokenize(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = rows[0].cells.map(normalizeHeader);
+  const records = rows.slice(1).map((row) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      values[header] = (row.cells[index] ?? '').trim();
+    });
+    return { line: row.line, values };
+  });
+
+  return { headers, records };
+};
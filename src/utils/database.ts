@@ -5,6 +5,7 @@
 
 import Database from 'better-sqlite3';
 import { databaseConfig } from '../config/database.config';
+import { appConfig } from '../config/app.config';
 import path from 'path';
 import fs from 'fs';
 import logger from './logger';
@@ -49,6 +50,75 @@ export const closeDatabase = (): void => {
   }
 };
 
+/**
+ * Add a column to an existing table if it is not there yet
+ * CREATE TABLE IF NOT EXISTS does not alter tables created by older versions
+ * Returns true when the column was added
+ */
+const addColumnIfMissing = (
+  database: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): boolean => {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+
+  if (columns.some((c) => c.name === column)) {
+    return false;
+  }
+
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  logger.info(`Added column ${table}.${column}`);
+  return true;
+};
+
+/**
+ * A date column in epoch milliseconds
+ * Prisma stores dates as epoch milliseconds and the seed script as ISO strings, so both occur
+ */
+export const epochMs = (column: string): string =>
+  `CASE WHEN typeof(${column}) = 'text' ` +
+  `THEN CAST(ROUND((julianday(${column}) - 2440587.5) * 86400000) AS INTEGER) ` +
+  `ELSE ${column} END`;
+
+/**
+ * The rate into the base currency in effect at a time, as utils/fx applies it:
+ * the latest rate on or before the time, else the earliest one
+ */
+const rateToBase = (currency: string, at: string): string => `
+  CASE WHEN ${currency} = '${appConfig.baseCurrency}' THEN 1 ELSE COALESCE(
+    (SELECT f.rate FROM fx_rates f WHERE f.currency = ${currency} AND ${epochMs('f.rate_date')} <= ${at}
+      ORDER BY ${epochMs('f.rate_date')} DESC LIMIT 1),
+    (SELECT f.rate FROM fx_rates f WHERE f.currency = ${currency}
+      ORDER BY ${epochMs('f.rate_date')} ASC LIMIT 1)
+  ) END`;
+
+/**
+ * Create the lead_metrics view (LeadMetric in the Prisma schema) used by range filters:
+ * each lead's revenue in every reporting currency, converted at its conversion date
+ * (creation date when unconverted), and its days from creation to first contact.
+ * The view embeds the base currency, so it is recreated on every start.
+ */
+const createLeadMetricsView = (database: Database.Database): void => {
+  const at = epochMs('COALESCE(l.converted_at, l.created_at)');
+
+  database.exec(`
+    DROP VIEW IF EXISTS lead_metrics;
+    CREATE VIEW lead_metrics AS
+    SELECT
+      l.id AS lead_id,
+      c.currency AS currency,
+      CASE WHEN l.revenue = 0 OR l.currency = c.currency THEN l.revenue
+        ELSE l.revenue * ${rateToBase('l.currency', at)} / ${rateToBase('c.currency', at)} END AS revenue,
+      CASE WHEN l.contacted_at IS NULL THEN NULL
+        ELSE (${epochMs('l.contacted_at')} - ${epochMs('l.created_at')}) / 86400000.0 END AS days_to_contact
+    FROM leads l
+    CROSS JOIN (
+      SELECT '${appConfig.baseCurrency}' AS currency UNION SELECT DISTINCT currency FROM fx_rates
+    ) c;
+  `);
+};
+
 /**
  * Initialize database schema
  */
@@ -57,12 +127,24 @@ export const initializeDatabase = (): void => {
 
   // Create tables
   database.exec(`
+    -- Countries table
+    CREATE TABLE IF NOT EXISTS countries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      code TEXT NOT NULL UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     -- Branches table
     CREATE TABLE IF NOT EXISTS branches (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       name TEXT NOT NULL UNIQUE,
+      country_id INTEGER,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      deleted_at DATETIME,
+      FOREIGN KEY (country_id) REFERENCES countries(id)
     );
 
     -- Agents table
@@ -71,8 +153,23 @@ export const initializeDatabase = (): void => {
       name TEXT NOT NULL,
       branch_id INTEGER,
       email TEXT,
+      active BOOLEAN NOT NULL DEFAULT 1,
+      deactivated_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      deleted_at DATETIME,
+      FOREIGN KEY (branch_id) REFERENCES branches(id)
+    );
+
+    -- Agent branch assignment history (one row per posting)
+    CREATE TABLE IF NOT EXISTS agent_branch_assignments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id INTEGER NOT NULL,
+      branch_id INTEGER NOT NULL,
+      effective_from DATETIME NOT NULL,
+      effective_to DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (agent_id) REFERENCES agents(id),
       FOREIGN KEY (branch_id) REFERENCES branches(id)
     );
 
@@ -86,14 +183,138 @@ export const initializeDatabase = (): void => {
       segment TEXT,
       campaign TEXT,
       revenue REAL DEFAULT 0,
+      currency TEXT NOT NULL DEFAULT 'KES',
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       contacted_at DATETIME,
       converted_at DATETIME,
+      deleted_at DATETIME,
+      external_id TEXT,
       FOREIGN KEY (branch_id) REFERENCES branches(id),
       FOREIGN KEY (agent_id) REFERENCES agents(id)
     );
 
+    -- Lead status history table (one row per status change)
+    CREATE TABLE IF NOT EXISTS lead_status_changes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lead_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id)
+    );
+
+    -- CRM lead events (webhook log, replayed to rebuild leads)
+    CREATE TABLE IF NOT EXISTS lead_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      idempotency_key TEXT NOT NULL UNIQUE,
+      external_id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      occurred_at DATETIME NOT NULL,
+      data TEXT NOT NULL,
+      received_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Call activity table (every call attempt with its outcome)
+    CREATE TABLE IF NOT EXISTS call_activities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      lead_id INTEGER NOT NULL,
+      agent_id INTEGER NOT NULL,
+      outcome TEXT NOT NULL,
+      duration_seconds INTEGER NOT NULL DEFAULT 0,
+      called_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (lead_id) REFERENCES leads(id),
+      FOREIGN KEY (agent_id) REFERENCES agents(id)
+    );
+
+    -- Targets table (revenue and lead targets per branch or agent and period)
+    CREATE TABLE IF NOT EXISTS targets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      branch_id INTEGER,
+      agent_id INTEGER,
+      period_start DATETIME NOT NULL,
+      period_end DATETIME NOT NULL,
+      revenue_target REAL NOT NULL DEFAULT 0,
+      lead_target INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (branch_id) REFERENCES branches(id),
+      FOREIGN KEY (agent_id) REFERENCES agents(id),
+      CHECK ((branch_id IS NULL) <> (agent_id IS NULL))
+    );
+
+    -- FX rates table (dated rates into the base currency)
+    CREATE TABLE IF NOT EXISTS fx_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      currency TEXT NOT NULL,
+      rate_date DATETIME NOT NULL,
+      rate REAL NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(currency, rate_date)
+    );
+
+    -- Saved dashboard views (named filter combinations)
+    CREATE TABLE IF NOT EXISTS saved_views (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      owner TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      is_default BOOLEAN NOT NULL DEFAULT 0,
+      scope TEXT NOT NULL DEFAULT 'private',
+      branch_id INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (branch_id) REFERENCES branches(id),
+      CHECK ((scope = 'branch') = (branch_id IS NOT NULL))
+    );
+
+    -- Ranking settings table (organisation-wide score normalisation and weights)
+    CREATE TABLE IF NOT EXISTS ranking_settings (
+      id INTEGER PRIMARY KEY,
+      method TEXT NOT NULL DEFAULT 'minmax',
+      revenue_weight REAL NOT NULL,
+      conversion_weight REAL NOT NULL,
+      leads_weight REAL NOT NULL,
+      tat_weight REAL NOT NULL,
+      updated_by TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Audit events table (who changed what, with a before/after diff)
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      actor TEXT NOT NULL,
+      action TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER,
+      changes TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Alerts table (unusual daily values found by anomaly detection)
+    CREATE TABLE IF NOT EXISTS alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      entity_type TEXT NOT NULL,
+      entity_id INTEGER NOT NULL,
+      entity_name TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      day DATETIME NOT NULL,
+      value REAL NOT NULL,
+      baseline REAL NOT NULL,
+      z_score REAL NOT NULL,
+      direction TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open',
+      acknowledged_by TEXT,
+      acknowledged_at DATETIME,
+      resolved_by TEXT,
+      resolved_at DATETIME,
+      resolution TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
     -- Metrics table (for caching aggregated data)
     CREATE TABLE IF NOT EXISTS metrics (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -110,8 +331,44 @@ export const initializeDatabase = (): void => {
     CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
     CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at);
     CREATE INDEX IF NOT EXISTS idx_agents_branch_id ON agents(branch_id);
+    CREATE INDEX IF NOT EXISTS idx_agent_assignments_agent_id ON agent_branch_assignments(agent_id, effective_from);
+    CREATE INDEX IF NOT EXISTS idx_targets_branch_id ON targets(branch_id, period_start);
+    CREATE INDEX IF NOT EXISTS idx_targets_agent_id ON targets(agent_id, period_start);
+    CREATE INDEX IF NOT EXISTS idx_lead_status_changes_lead_id ON lead_status_changes(lead_id, changed_at);
+    CREATE INDEX IF NOT EXISTS idx_lead_events_external_id ON lead_events(external_id, occurred_at);
+    CREATE INDEX IF NOT EXISTS idx_call_activities_lead_id ON call_activities(lead_id, called_at);
+    CREATE INDEX IF NOT EXISTS idx_call_activities_agent_id ON call_activities(agent_id, called_at);
+    CREATE INDEX IF NOT EXISTS idx_call_activities_called_at ON call_activities(called_at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_owner_name ON saved_views(owner, name);
+    CREATE INDEX IF NOT EXISTS idx_saved_views_scope ON saved_views(scope, branch_id);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_entity_metric_day ON alerts(entity_type, entity_id, metric, day);
+    CREATE INDEX IF NOT EXISTS idx_alerts_status_day ON alerts(status, day);
   `);
 
+  // Add columns introduced after the original schema to existing databases
+  addColumnIfMissing(database, 'agents', 'active', 'BOOLEAN NOT NULL DEFAULT 1');
+  addColumnIfMissing(database, 'agents', 'deactivated_at', 'DATETIME');
+  addColumnIfMissing(database, 'leads', 'currency', "TEXT NOT NULL DEFAULT 'KES'");
+  addColumnIfMissing(database, 'branches', 'deleted_at', 'DATETIME');
+  addColumnIfMissing(database, 'agents', 'deleted_at', 'DATETIME');
+  addColumnIfMissing(database, 'leads', 'deleted_at', 'DATETIME');
+  addColumnIfMissing(database, 'leads', 'external_id', 'TEXT');
+  database.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_external_id ON leads(external_id)');
+
+  // Branches created before multi-country support all belong to Kenya
+  if (addColumnIfMissing(database, 'branches', 'country_id', 'INTEGER REFERENCES countries(id)')) {
+    database.exec(`
+      INSERT OR IGNORE INTO countries (name, code) VALUES ('Kenya', 'KE');
+      UPDATE branches SET country_id = (SELECT id FROM countries WHERE code = 'KE');
+    `);
+  }
+  database.exec('CREATE INDEX IF NOT EXISTS idx_branches_country_id ON branches(country_id)');
+
+  createLeadMetricsView(database);
+
   logger.info('Database schema initialized');
 };
 
@@ -131,13 +388,18 @@ export const seedDatabase = (): void => {
 
   logger.info('Seeding database with sample data...');
 
+  // Insert sample country
+  const country = database
+    .prepare("INSERT INTO countries (name, code) VALUES ('Kenya', 'KE') ON CONFLICT(code) DO UPDATE SET name = excluded.name RETURNING id")
+    .get() as { id: number };
+
   // Insert sample branches
-  const insertBranch = database.prepare('INSERT INTO branches (name) VALUES (?)');
+  const insertBranch = database.prepare('INSERT INTO branches (name, country_id) VALUES (?, ?)');
   const branches = ['Nairobi', 'Mombasa', 'Kisumu', 'Eldoret'];
   const branchIds: number[] = [];
   
   for (const branchName of branches) {
-    const result = insertBranch.run(branchName);
+    const result = insertBranch.run(branchName, country.id);
     branchIds.push(Number(result.lastInsertRowid));
   }
 
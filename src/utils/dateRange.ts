@@ -0,0 +1,249 @@
+/**
+ * Date Range Utilities
+ * Resolve dashboard date filters to a concrete [start, end) window
+ *
+ * Calendar presets, date-only bounds and chart periods are computed in the
+ * reporting timezone (REPORT_TIMEZONE) rather than the server's local time.
+ */
+
+import {
+  ComparisonPeriod,
+  DashboardFilters,
+  DateRange,
+  TimeSeriesGranularity,
+} from '../types/dashboard.types';
+import { appConfig } from '../config/app.config';
+import { formatZonedDate, getZonedParts, startOfZonedDay, wallClockToUtc, zonedTimeToUtc } from './timezone';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const ZONE_DESIGNATOR_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const DATE_BOUND_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Rolling presets, in days back from now
+ */
+const ROLLING_PRESET_DAYS: Partial<Record<DateRange, number>> = {
+  last7days: 7,
+  last30days: 30,
+  last90days: 90,
+  lastYear: 365,
+};
+
+export interface DateWindow {
+  start?: Date; // inclusive; undefined means unbounded
+  end: Date; // exclusive
+}
+
+/**
+ * Parse a startDate / endDate value
+ * Values without a UTC offset are wall-clock times in the reporting timezone.
+ * A date-only endDate covers that whole day, so its bound is the next midnight.
+ */
+export const parseDateBound = (value: string, bound: 'start' | 'end'): Date => {
+  if (ZONE_DESIGNATOR_PATTERN.test(value) && !DATE_ONLY_PATTERN.test(value)) {
+    return new Date(value);
+  }
+
+  const dateOnly = DATE_ONLY_PATTERN.test(value);
+  let wallClock = new Date(`${dateOnly ? `${value}T00:00` : value.replace(' ', 'T')}Z`).getTime();
+  if (bound === 'end' && dateOnly) {
+    wallClock += DAY_MS;
+  }
+  return wallClockToUtc(wallClock, appConfig.timezone);
+};
+
+/**
+ * Check that a value is a startDate / endDate that parseDateBound supports: a date
+ * (YYYY-MM-DD) or a full timestamp (YYYY-MM-DDTHH:mm[:ss[.sss]]) with an optional UTC offset
+ * Partial dates, week dates and calendar days that do not exist (2024-02-30) are rejected.
+ */
+export const isDateBound = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+
+  const match = DATE_BOUND_PATTERN.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const calendarDay = new Date(Date.UTC(year, month - 1, day));
+  const [time, offset] = [match[4], match[7]];
+  return (
+    calendarDay.getUTCMonth() === month - 1 &&
+    calendarDay.getUTCDate() === day &&
+    // The time of day must exist too (no 25:00 or 10:60)
+    (!time || !isNaN(new Date(offset ? value : `${value}Z`).getTime()))
+  );
+};
+
+/**
+ * Resolve a calendar preset; quarters and years follow the fiscal year
+ */
+const getCalendarWindow = (dateRange: DateRange, now: Date): DateWindow => {
+  const timeZone = appConfig.timezone;
+  const { year, month } = getZonedParts(now, timeZone);
+  const monthStart = (offset: number) => zonedTimeToUtc({ year, month: month + offset }, timeZone);
+
+  // Months elapsed since the fiscal year and the fiscal quarter started
+  const fiscalMonth = (month - appConfig.fiscalYearStartMonth + 12) % 12;
+  const quarterStart = -(fiscalMonth % 3);
+
+  switch (dateRange) {
+    case 'thisMonth':
+      return { start: monthStart(0), end: now };
+    case 'lastMonth':
+      return { start: monthStart(-1), end: monthStart(0) };
+    case 'quarterToDate':
+      return { start: monthStart(quarterStart), end: now };
+    case 'yearToDate':
+      return { start: monthStart(-fiscalMonth), end: now };
+    case 'lastFiscalQuarter':
+      return { start: monthStart(quarterStart - 3), end: monthStart(quarterStart) };
+    default:
+      return { end: now };
+  }
+};
+
+/**
+ * Resolve filters to a date window
+ * Explicit startDate / endDate take precedence over the dateRange preset;
+ * a missing endDate means now and a missing startDate leaves the window open.
+ */
+export const resolveDateWindow = (filters: DashboardFilters, now: Date = new Date()): DateWindow => {
+  if (filters.startDate || filters.endDate) {
+    return {
+      start: filters.startDate ? parseDateBound(filters.startDate, 'start') : undefined,
+      end: filters.endDate ? parseDateBound(filters.endDate, 'end') : now,
+    };
+  }
+
+  if (!filters.dateRange || filters.dateRange === 'all') {
+    return { end: now };
+  }
+
+  const days = ROLLING_PRESET_DAYS[filters.dateRange];
+  if (days) {
+    return { start: new Date(now.getTime() - days * DAY_MS), end: now };
+  }
+
+  return getCalendarWindow(filters.dateRange, now);
+};
+
+/**
+ * Split a window into consecutive, roughly equal periods labelled by their start
+ * When periods are at least a day long, boundaries snap to local midnight and
+ * labels are dates (YYYY-MM-DD); shorter periods are labelled with the time too.
+ */
+export const splitDateWindow = (
+  start: Date,
+  end: Date,
+  periods: number
+): Array<{ start: Date; end: Date; label: string }> => {
+  const timeZone = appConfig.timezone;
+  const size = (end.getTime() - start.getTime()) / periods;
+  const daily = size >= DAY_MS;
+
+  const boundaries = Array.from({ length: periods + 1 }, (_, i) => {
+    if (i === 0) return start;
+    if (i === periods) return end;
+    const boundary = new Date(start.getTime() + Math.round(i * size));
+    return daily ? startOfZonedDay(new Date(boundary.getTime() + DAY_MS / 2), timeZone) : boundary;
+  });
+
+  return boundaries.slice(0, periods).map((periodStart, i) => ({
+    start: periodStart,
+    end: boundaries[i + 1],
+    label: formatZonedDate(periodStart, timeZone, !daily),
+  }));
+};
+
+/**
+ * Move a date by whole years, keeping its wall-clock time in the reporting timezone
+ * (29 February moves to 1 March in non-leap years)
+ */
+const shiftYears = (date: Date, years: number): Date => {
+  const p = getZonedParts(date, appConfig.timezone);
+  const wallClock = Date.UTC(p.year + years, p.month - 1, p.day, p.hour, p.minute, p.second, date.getUTCMilliseconds());
+  return wallClockToUtc(wallClock, appConfig.timezone);
+};
+
+/**
+ * Get the window a period is compared against: the window of the same length that
+ * ends where this one starts, or the same dates a year earlier
+ * Open-ended windows have nothing to compare against.
+ */
+export const getComparisonWindow = (
+  window: DateWindow,
+  compareTo: ComparisonPeriod = 'previousPeriod'
+): Required<DateWindow> | null => {
+  if (!window.start) {
+    return null;
+  }
+
+  if (compareTo === 'previousYear') {
+    return { start: shiftYears(window.start, -1), end: shiftYears(window.end, -1) };
+  }
+
+  const length = window.end.getTime() - window.start.getTime();
+  return { start: new Date(window.start.getTime() - length), end: window.start };
+};
+
+/**
+ * Describe a bounded window for labels, e.g. "2024-03-01 to 2024-03-31"
+ * Windows on local day boundaries show the last day they include; others show times.
+ */
+export const formatDateWindow = (window: Required<DateWindow>): string => {
+  const timeZone = appConfig.timezone;
+  const onDayBoundary = [window.start, window.end].every(
+    (bound) => startOfZonedDay(bound, timeZone).getTime() === bound.getTime()
+  );
+
+  if (onDayBoundary) {
+    const lastDay = new Date(window.end.getTime() - 1);
+    return `${formatZonedDate(window.start, timeZone)} to ${formatZonedDate(lastDay, timeZone)}`;
+  }
+
+  return `${formatZonedDate(window.start, timeZone, true)} to ${formatZonedDate(window.end, timeZone, true)}`;
+};
+
+/**
+ * Split a window into calendar buckets in the reporting timezone
+ * Days start at local midnight, weeks on Monday (ISO weeks) and months on the 1st.
+ * The first and last buckets keep their full calendar bounds even where the window
+ * only covers part of them.
+ */
+export const getCalendarBuckets = (
+  start: Date,
+  end: Date,
+  granularity: TimeSeriesGranularity
+): Array<{ start: Date; end: Date; label: string }> => {
+  const timeZone = appConfig.timezone;
+  const first = getZonedParts(start, timeZone);
+
+  // Bucket i starts i days / weeks / months after the bucket containing the start
+  const bucketStart = (i: number): Date => {
+    switch (granularity) {
+      case 'month':
+        return zonedTimeToUtc({ year: first.year, month: first.month + i }, timeZone);
+      case 'week':
+        return zonedTimeToUtc(
+          { year: first.year, month: first.month, day: first.day - ((first.weekday + 6) % 7) + i * 7 },
+          timeZone
+        );
+      default:
+        return zonedTimeToUtc({ year: first.year, month: first.month, day: first.day + i }, timeZone);
+    }
+  };
+
+  const buckets: Array<{ start: Date; end: Date; label: string }> = [];
+  for (let i = 0, from = bucketStart(0); from < end; i++) {
+    const to = bucketStart(i + 1);
+    const label = formatZonedDate(from, timeZone);
+    buckets.push({ start: from, end: to, label: granularity === 'month' ? label.slice(0, 7) : label });
+    from = to;
+  }
+
+  return buckets;
+};
@@ -0,0 +1,126 @@
+/**
+ * Filter Utilities
+ * Parsing, matching and cache-key serialisation for multi-value dashboard filters
+ */
+
+import { DashboardFilters, ValueFilter } from '../types/dashboard.types';
+
+/**
+ * Prefix that turns a filter value into an exclusion
+ */
+export const EXCLUDE_PREFIX = '!';
+
+/**
+ * Maximum number of values (included plus excluded) per filter dimension
+ */
+export const MAX_FILTER_VALUES = 50;
+
+/**
+ * Split a query parameter into values
+ * Accepts repeated parameters and comma-separated lists
+ */
+export const splitFilterValues = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+};
+
+/**
+ * Parse a query parameter into a value filter
+ * Values prefixed with "!" are excluded; the rest are matched. Lists are sorted
+ * and de-duplicated so equivalent queries share a cache key.
+ */
+export const parseValueFilter = (
+  value: unknown,
+  sanitize: (input: string) => string = (input) => input
+): ValueFilter | undefined => {
+  const include = new Set<string>();
+  const exclude = new Set<string>();
+
+  for (const item of splitFilterValues(value)) {
+    const excluded = item.startsWith(EXCLUDE_PREFIX);
+    const name = sanitize(excluded ? item.slice(EXCLUDE_PREFIX.length) : item);
+    if (!name) continue;
+    (excluded ? exclude : include).add(name);
+  }
+
+  if (include.size === 0 && exclude.size === 0) {
+    return undefined;
+  }
+
+  return {
+    ...(include.size > 0 ? { in: [...include].sort() } : {}),
+    ...(exclude.size > 0 ? { notIn: [...exclude].sort() } : {}),
+  };
+};
+
+/**
+ * Parse a query parameter of numeric IDs into a value filter ("!" excludes)
+ * Values that aren't positive integers are dropped
+ */
+export const parseIdFilter = (value: unknown): ValueFilter<number> | undefined => {
+  const include = new Set<number>();
+  const exclude = new Set<number>();
+
+  for (const item of splitFilterValues(value)) {
+    const excluded = item.startsWith(EXCLUDE_PREFIX);
+    const raw = excluded ? item.slice(EXCLUDE_PREFIX.length) : item;
+    if (!/^\d+$/.test(raw) || Number(raw) < 1) continue;
+    (excluded ? exclude : include).add(Number(raw));
+  }
+
+  if (include.size === 0 && exclude.size === 0) {
+    return undefined;
+  }
+
+  return {
+    ...(include.size > 0 ? { in: [...include].sort((a, b) => a - b) } : {}),
+    ...(exclude.size > 0 ? { notIn: [...exclude].sort((a, b) => a - b) } : {}),
+  };
+};
+
+/**
+ * Combine two filters on the same dimension: a value must pass both
+ */
+export const mergeValueFilters = <T extends string | number>(
+  a: ValueFilter<T> | undefined,
+  b: ValueFilter<T> | undefined
+): ValueFilter<T> | undefined => {
+  if (!a || !b) return a ?? b;
+
+  const sort = (values: T[]) => [...new Set(values)].sort((x, y) => (x < y ? -1 : x > y ? 1 : 0));
+  const include =
+    a.in && b.in ? a.in.filter((value) => b.in!.includes(value)) : (a.in ?? b.in);
+  const exclude = [...(a.notIn ?? []), ...(b.notIn ?? [])];
+
+  return {
+    ...(include ? { in: sort(include) } : {}),
+    ...(exclude.length > 0 ? { notIn: sort(exclude) } : {}),
+  };
+};
+
+/**
+ * Get the only selected value of a filter (e.g. the branch being viewed)
+ */
+export const getSingleValue = <T extends string | number>(filter?: ValueFilter<T>): T | undefined =>
+  filter?.in?.length === 1 ? filter.in[0] : undefined;
+
+/**
+ * Serialise filters for cache keys, independent of property order
+ */
+export const serializeFilters = (filters: DashboardFilters): string => {
+  const sorted = Object.keys(filters)
+    .sort()
+    .reduce<Record<string, unknown>>((result, key) => {
+      const value = filters[key as keyof DashboardFilters];
+      if (value !== undefined) {
+        result[key] = value;
+      }
+      return result;
+    }, {});
+
+  return JSON.stringify(sorted);
+};
@@ -0,0 +1,116 @@
+/**
+ * Forecasting Utilities
+ * Additive Holt-Winters (level, trend and seasonal) exponential smoothing
+ */
+
+/**
+ * Smoothing parameters tried when fitting; the trend rarely benefits from large values
+ */
+const ALPHA_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const BETA_GRID = [0, 0.05, 0.1, 0.2, 0.3];
+const GAMMA_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+export interface HoltWintersModel {
+  alpha: number; // level smoothing
+  beta: number; // trend smoothing
+  gamma: number; // seasonal smoothing
+  seasonLength: number;
+  level: number;
+  trend: number;
+  seasonals: number[]; // indexed by position in the season (t % seasonLength)
+  observations: number;
+  residualStdDev: number; // of the one-step-ahead errors over the history
+}
+
+export interface HoltWintersForecast {
+  value: number;
+  stdDev: number; // of the h-step-ahead error
+}
+
+/**
+ * Run the smoothing recursions over the history with fixed parameters
+ * Level and trend start from the first two seasons; seasonals from the first season.
+ */
+const smooth = (
+  values: number[],
+  seasonLength: number,
+  alpha: number,
+  beta: number,
+  gamma: number
+): Omit<HoltWintersModel, 'residualStdDev'> & { sse: number } => {
+  const seasonMean = (season: number) =>
+    values.slice(season * seasonLength, (season + 1) * seasonLength).reduce((sum, v) => sum + v, 0) /
+    seasonLength;
+
+  let level = seasonMean(0);
+  let trend = (seasonMean(1) - seasonMean(0)) / seasonLength;
+  const seasonals = values.slice(0, seasonLength).map((value) => value - level);
+  let sse = 0;
+
+  values.forEach((value, t) => {
+    const s = t % seasonLength;
+    const error = value - (level + trend + seasonals[s]);
+    sse += error * error;
+
+    const previousLevel = level;
+    level = alpha * (value - seasonals[s]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals[s] = gamma * (value - level) + (1 - gamma) * seasonals[s];
+  });
+
+  return { alpha, beta, gamma, seasonLength, level, trend, seasonals, observations: values.length, sse };
+};
+
+/**
+ * Fit an additive Holt-Winters model, choosing the smoothing parameters that minimise
+ * the one-step-ahead squared error. Needs at least two full seasons of history.
+ */
+export const fitHoltWinters = (values: number[], seasonLength: number): HoltWintersModel => {
+  if (values.length < seasonLength * 2) {
+    throw new Error(`Holt-Winters needs at least ${seasonLength * 2} observations`);
+  }
+
+  let best: ReturnType<typeof smooth> | undefined;
+  for (const alpha of ALPHA_GRID) {
+    for (const beta of BETA_GRID) {
+      for (const gamma of GAMMA_GRID) {
+        const fit = smooth(values, seasonLength, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) {
+          best = fit;
+        }
+      }
+    }
+  }
+
+  const { sse, ...model } = best!;
+  return { ...model, residualStdDev: Math.sqrt(sse / values.length) };
+};
+
+/**
+ * Forecast the next `horizon` steps after the history
+ * Error variance grows with the horizon as for the equivalent ETS(A,A,A) model:
+ * σ²(1 + Σ c_j²) with c_j = α(1 + jβ) + γ on whole seasons ahead
+ */
+export const forecastHoltWinters = (
+  model: HoltWintersModel,
+  horizon: number
+): HoltWintersForecast[] => {
+  const { alpha, beta, gamma, seasonLength, level, trend, seasonals, observations } = model;
+  const forecasts: HoltWintersForecast[] = [];
+  let variance = 1;
+
+  for (let h = 1; h <= horizon; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha * (1 + j * beta) + (j % seasonLength === 0 ? gamma : 0);
+      variance += c * c;
+    }
+
+    forecasts.push({
+      value: level + h * trend + seasonals[(observations + h - 1) % seasonLength],
+      stdDev: model.residualStdDev * Math.sqrt(variance),
+    });
+  }
+
+  return forecasts;
+};
@@ -0,0 +1,67 @@
+/**
+ * FX Conversion Utility
+ * Converts amounts between currencies using dated rates into a base currency
+ */
+
+import { FxConverter, FxRatePoint } from '../types/fx.types';
+import { AppError } from './AppError';
+
+/**
+ * Find the rate in effect on a date: the latest rate on or before it,
+ * or the earliest known rate for dates before the first one
+ */
+const rateOn = (rates: FxRatePoint[], date: Date): number => {
+  const time = date.getTime();
+  let low = 0;
+  let high = rates.length - 1;
+  let match = 0;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (rates[mid].rateDate.getTime() <= time) {
+      match = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return rates[match].rate;
+};
+
+/**
+ * Build a converter into `targetCurrency`
+ * Cross rates go through the base currency, so only rates into the base are needed
+ */
+export const buildFxConverter = (
+  rates: FxRatePoint[],
+  baseCurrency: string,
+  targetCurrency: string
+): FxConverter => {
+  const byCurrency = new Map<string, FxRatePoint[]>();
+  for (const rate of [...rates].sort((a, b) => a.rateDate.getTime() - b.rateDate.getTime())) {
+    const list = byCurrency.get(rate.currency) ?? [];
+    list.push(rate);
+    byCurrency.set(rate.currency, list);
+  }
+
+  const toBase = (currency: string, date: Date): number => {
+    if (currency === baseCurrency) return 1;
+    const list = byCurrency.get(currency);
+    if (!list) {
+      throw new AppError(`No FX rates loaded for ${currency}`, 422);
+    }
+    return rateOn(list, date);
+  };
+
+  // Fail fast on an unsupported reporting currency
+  toBase(targetCurrency, new Date());
+
+  return {
+    currency: targetCurrency,
+    convert: (amount, fromCurrency, date) => {
+      if (amount === 0 || fromCurrency === targetCurrency) return amount;
+      return (amount * toBase(fromCurrency, date)) / toBase(targetCurrency, date);
+    },
+  };
+};
@@ -0,0 +1,50 @@
+/**
+ * Lead Import Script
+ * Imports leads from a CSV file
+ *
+ * Usage: npm run db:import -- <file.csv> [--dry-run]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { importLeadsFromCsv } from '../services/import.service';
+import { prisma } from './prisma';
+import logger from './logger';
+
+const run = async () => {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const file = args.find((arg) => !arg.startsWith('--'));
+
+  if (!file) {
+    logger.error('Usage: npm run db:import -- <file.csv> [--dry-run]');
+    process.exit(1);
+  }
+
+  try {
+    const csv = fs.readFileSync(path.resolve(file), 'utf8');
+    const result = await importLeadsFromCsv(csv, { dryRun }, 'cli:db:import');
+
+    logger.info(
+      `${dryRun ? 'Dry run' : 'Import'} complete: ${result.accepted.length}/${result.totalRows} rows accepted`
+    );
+    if (result.createdBranches.length > 0) {
+      logger.info(`Branches ${dryRun ? 'to create' : 'created'}: ${result.createdBranches.join(', ')}`);
+    }
+    if (result.createdAgents.length > 0) {
+      logger.info(`Agents ${dryRun ? 'to create' : 'created'}: ${result.createdAgents.join(', ')}`);
+    }
+    for (const rowError of result.errors) {
+      logger.warn(`Line ${rowError.line}: ${rowError.errors.join('; ')}`);
+    }
+
+    await prisma.$disconnect();
+    process.exit(result.errors.length > 0 ? 2 : 0);
+  } catch (error) {
+    logger.error('Lead import failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+};
+
+run();
@@ -0,0 +1,40 @@
+/**
+ * FX Rate Load Script
+ * Loads dated FX rates from a CSV file (columns: currency, date, rate)
+ *
+ * Usage: npm run db:fx -- <rates.csv>
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadFxRatesFromCsv } from '../services/fx.service';
+import { prisma } from './prisma';
+import logger from './logger';
+
+const run = async () => {
+  const file = process.argv.slice(2).find((arg) => !arg.startsWith('--'));
+
+  if (!file) {
+    logger.error('Usage: npm run db:fx -- <rates.csv>');
+    process.exit(1);
+  }
+
+  try {
+    const csv = fs.readFileSync(path.resolve(file), 'utf8');
+    const result = await loadFxRatesFromCsv(csv, 'cli:db:fx');
+
+    logger.info(`FX load complete: ${result.loaded}/${result.totalRows} rates loaded`);
+    for (const rowError of result.errors) {
+      logger.warn(`Line ${rowError.line}: ${rowError.errors.join('; ')}`);
+    }
+
+    await prisma.$disconnect();
+    process.exit(result.errors.length > 0 ? 2 : 0);
+  } catch (error) {
+    logger.error('FX rate load failed:', error);
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+};
+
+run();
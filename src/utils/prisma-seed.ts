@@ -18,12 +18,19 @@ export const seedWithPrisma = async (): Promise<void> => {
 
     logger.info('Seeding database with Prisma...');
 
+    // Create country
+    const kenya = await prisma.country.upsert({
+      where: { code: 'KE' },
+      update: {},
+      create: { name: 'Kenya', code: 'KE' },
+    });
+
     // Create branches
     const branches = await Promise.all([
-      prisma.branch.create({ data: { name: 'Nairobi' } }),
-      prisma.branch.create({ data: { name: 'Mombasa' } }),
-      prisma.branch.create({ data: { name: 'Kisumu' } }),
-      prisma.branch.create({ data: { name: 'Eldoret' } }),
+      prisma.branch.create({ data: { name: 'Nairobi', countryId: kenya.id } }),
+      prisma.branch.create({ data: { name: 'Mombasa', countryId: kenya.id } }),
+      prisma.branch.create({ data: { name: 'Kisumu', countryId: kenya.id } }),
+      prisma.branch.create({ data: { name: 'Eldoret', countryId: kenya.id } }),
     ]);
 
     logger.info(`Created ${branches.length} branches`);
@@ -3,7 +3,7 @@
  * Singleton instance of Prisma Client
  */
 
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import logger from './logger';
 
 // PrismaClient is attached to the `global` object in development to prevent
@@ -20,6 +20,34 @@ if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
 }
 
+/**
+ * The client or an open transaction
+ * Repository writes accept either, so a service can combine several writes (for example
+ * a change and its audit event) into one transaction.
+ */
+export type DbClient = Prisma.TransactionClient;
+
+/**
+ * Longest a transaction may run; bulk writes such as lead imports, FX loads and CRM
+ * event batches run in a single transaction together with their audit event
+ */
+const TRANSACTION_TIMEOUT_MS = 60000;
+
+/**
+ * Run work in a new transaction, or as part of the caller's transaction when given one
+ */
+export const runInTransaction = <T>(
+  work: (tx: DbClient) => Promise<T>,
+  db: DbClient = prisma
+): Promise<T> =>
+  db === prisma ? prisma.$transaction(work, { timeout: TRANSACTION_TIMEOUT_MS }) : work(db);
+
+/**
+ * Whether a write failed on a unique constraint, e.g. a row inserted concurrently
+ */
+export const isUniqueConstraintError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
 /**
  * Connect to database
  */
@@ -0,0 +1,91 @@
+/**
+ * Statistics Utilities
+ * Means, percentiles and histograms for duration metrics such as turn around time
+ */
+
+import { HistogramBin, PercentileSummary } from '../types/dashboard.types';
+
+/**
+ * Arithmetic mean of a list of numbers (0 for an empty list)
+ */
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Percentile (0-100) of an ascending list, interpolating linearly between closest ranks
+ */
+const percentileOfSorted = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Percentile (0-100) of a list of numbers (0 for an empty list)
+ */
+export const percentile = (values: number[], p: number): number =>
+  percentileOfSorted([...values].sort((a, b) => a - b), p);
+
+/**
+ * Median of a list of numbers (0 for an empty list)
+ */
+export const median = (values: number[]): number => percentile(values, 50);
+
+/**
+ * Median and upper percentiles, rounded to two decimals
+ * Every value is null for an empty list, where the percentiles are undefined
+ */
+export const summarisePercentiles = (values: number[]): PercentileSummary => {
+  if (values.length === 0) {
+    return { median: null, p75: null, p90: null, p95: null };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => Number(percentileOfSorted(sorted, p).toFixed(2));
+
+  return { median: at(50), p75: at(75), p90: at(90), p95: at(95) };
+};
+
+/**
+ * Robust z-score of a value against a reference sample: (value - median) / (1.4826 × MAD)
+ * When more than half the sample is identical the MAD is zero, so the mean absolute
+ * deviation (× 1.2533) is used instead. Returns null for a sample with no spread at all.
+ */
+export const robustZScore = (value: number, sample: number[]): number | null => {
+  if (sample.length === 0) return null;
+
+  const centre = median(sample);
+  const mad = median(sample.map((v) => Math.abs(v - centre)));
+  if (mad > 0) {
+    return (value - centre) / (1.4826 * mad);
+  }
+
+  const meanDeviation = mean(sample.map((v) => Math.abs(v - centre)));
+  return meanDeviation > 0 ? (value - centre) / (1.2533 * meanDeviation) : null;
+};
+
+/**
+ * Count values into bins bounded by ascending edges
+ * Each bin includes its lower edge and excludes its upper one; the last bin is open-ended.
+ * Values below the first edge are not counted.
+ */
+export const histogram = (values: number[], edges: readonly number[]): HistogramBin[] => {
+  const bins: HistogramBin[] = edges.map((from, index) => ({
+    from,
+    to: index + 1 < edges.length ? edges[index + 1] : null,
+    count: 0,
+  }));
+
+  for (const value of values) {
+    for (let index = bins.length - 1; index >= 0; index--) {
+      if (value >= bins[index].from) {
+        bins[index].count++;
+        break;
+      }
+    }
+  }
+
+  return bins;
+};
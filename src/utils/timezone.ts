@@ -0,0 +1,121 @@
+/**
+ * Timezone Utilities
+ * Calendar arithmetic in an IANA timezone using the built-in Intl API
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a (cached) formatter that breaks an instant into wall-clock parts
+ */
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a timezone is a valid IANA name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+const getOffset = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Get the instant at which a wall-clock time (given as UTC milliseconds) occurs in a timezone
+ */
+export const wallClockToUtc = (wallClock: number, timeZone: string): Date => {
+  // Re-check the offset at the result so DST transitions land on the right side
+  const guess = wallClock - getOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffset(new Date(guess), timeZone));
+};
+
+/**
+ * Get the instant at which a wall-clock time occurs in a timezone
+ * Out-of-range fields roll over (month 0 is December of the previous year)
+ */
+export const zonedTimeToUtc = (
+  time: { year: number; month: number; day?: number; hour?: number; minute?: number },
+  timeZone: string
+): Date =>
+  wallClockToUtc(
+    Date.UTC(time.year, time.month - 1, time.day ?? 1, time.hour ?? 0, time.minute ?? 0),
+    timeZone
+  );
+
+/**
+ * Get the start of the day containing an instant, in a timezone
+ */
+export const startOfZonedDay = (date: Date, timeZone: string): Date => {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year: p.year, month: p.month, day: p.day }, timeZone);
+};
+
+/**
+ * Format an instant as YYYY-MM-DD (or YYYY-MM-DD HH:mm) in a timezone
+ */
+export const formatZonedDate = (date: Date, timeZone: string, withTime: boolean = false): string => {
+  const p = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+  return withTime ? `${day} ${pad(p.hour)}:${pad(p.minute)}` : day;
+};
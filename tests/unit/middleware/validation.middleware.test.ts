@@ -0,0 +1,51 @@
+import express from 'express';
+import request from 'supertest';
+import { validate, validateDashboardQuery } from '../../../src/middleware/validation.middleware';
+
+const app = express();
+app.get('/', validate(validateDashboardQuery), (_req, res) => {
+  res.json({ success: true });
+});
+
+const errorsFor = async (query: string) => {
+  const response = await request(app).get(`/?${query}`);
+  return response.status === 400
+    ? response.body.data.map((error: { msg: string }) => error.msg)
+    : [];
+};
+
+describe('validateDashboardQuery', () => {
+  it('accepts multi-value, excluded and range filters', async () => {
+    expect(
+      await errorsFor(
+        'branch=Westlands,!Karen&branch=Kilimani&status=!Closed&agentId=3,!4&minRevenue=100&maxRevenue=500&currency=usd'
+      )
+    ).toEqual([]);
+  });
+
+  it('rejects negative and inverted range bounds', async () => {
+    expect(await errorsFor('minRevenue=-5')).toEqual([
+      'minRevenue, maxRevenue, minDaysToContact and maxDaysToContact must be non-negative numbers',
+    ]);
+    expect(await errorsFor('minRevenue=500&maxRevenue=100')).toEqual([
+      'maxRevenue must not be less than minRevenue',
+    ]);
+    expect(await errorsFor('minDaysToContact=3&maxDaysToContact=1')).toEqual([
+      'maxDaysToContact must not be less than minDaysToContact',
+    ]);
+  });
+
+  it('rejects unknown statuses, malformed IDs and currencies', async () => {
+    expect(await errorsFor('status=Pending')).toHaveLength(1);
+    expect(await errorsFor('branchId=two')).toHaveLength(1);
+    expect(await errorsFor('currency=dollars')).toEqual([
+      'currency must be a 3-letter ISO 4217 code',
+    ]);
+  });
+
+  it('rejects an end date before the start date', async () => {
+    expect(await errorsFor('startDate=2024-03-10&endDate=2024-03-01')).toEqual([
+      'endDate must be after startDate',
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { buildTargetScope, getLeads } from '../../../src/repositories/data.repository';
+import { prisma } from '../../../src/utils/prisma';
+
+jest.mock('../../../src/utils/prisma', () => ({
+  prisma: { lead: { findMany: jest.fn().mockResolvedValue([]) } },
+}));
+
+describe('buildTargetScope', () => {
+  it('uses live branch targets without owner filters', () => {
+    expect(buildTargetScope({})).toEqual({ branchId: { not: null }, branch: { deletedAt: null } });
+  });
+
+  it('uses agent targets when filtering by agent', () => {
+    expect(buildTargetScope({ agentId: { in: [3] } })).toEqual({ agentId: { in: [3] } });
+  });
+
+  it('limits branch targets to the selected countries', () => {
+    expect(buildTargetScope({ country: { in: ['Kenya'] } })).toEqual({
+      AND: [
+        { branchId: { not: null }, branch: { deletedAt: null } },
+        { branch: { country: { name: { in: ['Kenya'] } } } },
+      ],
+    });
+  });
+
+  it('limits agent targets to agents whose branch is in the selected countries', () => {
+    expect(buildTargetScope({ agentId: { in: [3] }, country: { in: ['Kenya'] } })).toEqual({
+      AND: [
+        { agentId: { in: [3] } },
+        { agent: { branch: { country: { name: { in: ['Kenya'] } } } } },
+      ],
+    });
+  });
+
+  it('keeps branches without a country when excluding countries', () => {
+    expect(
+      buildTargetScope({ branch: { in: ['Westlands'] }, country: { notIn: ['Uganda'] } })
+    ).toEqual({
+      AND: [
+        { branch: { name: { in: ['Westlands'] } } },
+        {
+          branch: { OR: [{ countryId: null }, { country: { name: { notIn: ['Uganda'] } } }] },
+        },
+      ],
+    });
+  });
+});
+
+describe('range filters', () => {
+  const leadQuery = async (filters: Parameters<typeof getLeads>[0]) => {
+    jest.mocked(prisma.lead.findMany).mockClear();
+    await getLeads(filters);
+    return jest.mocked(prisma.lead.findMany).mock.calls[0][0]!.where!;
+  };
+
+  it('adds no lead metrics condition without bounds', async () => {
+    expect(await leadQuery({ dateRange: 'thisMonth' })).not.toHaveProperty('metrics');
+  });
+
+  it('bounds revenue in the reporting currency through the lead metrics', async () => {
+    const where = await leadQuery({ minRevenue: 100, maxRevenue: 500, currency: 'USD' });
+
+    expect(where.metrics).toEqual({
+      some: { currency: 'USD', revenue: { gte: 100, lte: 500 } },
+    });
+    expect(where.id).toBeUndefined();
+  });
+
+  it('bounds days to contact in the base currency row', async () => {
+    const where = await leadQuery({ maxDaysToContact: 2 });
+
+    expect(where.metrics).toEqual({ some: { currency: 'KES', daysToContact: { lte: 2 } } });
+  });
+
+  it('combines both bounds in one condition alongside the other filters', async () => {
+    const where = await leadQuery({
+      status: { in: ['Closed'] },
+      minRevenue: 10,
+      minDaysToContact: 1,
+    });
+
+    expect(where.status).toEqual({ in: ['Closed'] });
+    expect(where.deletedAt).toBeNull();
+    expect(where.metrics).toEqual({
+      some: { currency: 'KES', revenue: { gte: 10 }, daysToContact: { gte: 1 } },
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { writeImportedLeads } from '../../../src/repositories/import.repository';
+import { ValidatedLeadImportRow } from '../../../src/types/import.types';
+import { DbClient } from '../../../src/utils/prisma';
+
+const row = (
+  line: number,
+  overrides: Partial<ValidatedLeadImportRow> = {}
+): ValidatedLeadImportRow => ({
+  line,
+  countryId: 1,
+  branch: 'Westlands',
+  agent: 'Jane Doe',
+  agentEmail: null,
+  status: 'Open',
+  product: null,
+  segment: null,
+  campaign: null,
+  revenue: 0,
+  currency: 'KES',
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+  contactedAt: null,
+  convertedAt: null,
+  ...overrides,
+});
+
+const fakeTransaction = () => {
+  let nextLeadId = 100;
+  const tx = {
+    branch: {
+      findUnique: jest.fn().mockResolvedValue({ id: 1 }),
+      create: jest.fn().mockResolvedValue({ id: 2 }),
+    },
+    agent: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({ id: 7 }),
+    },
+    lead: {
+      create: jest.fn().mockImplementation(async ({ data }) => ({
+        id: nextLeadId++,
+        branchId: data.branchId,
+        agentId: data.agentId,
+      })),
+    },
+  };
+  return { tx, db: tx as unknown as DbClient };
+};
+
+describe('writeImportedLeads', () => {
+  it('only matches active agents', async () => {
+    const { tx, db } = fakeTransaction();
+
+    await writeImportedLeads([row(2)], false, db);
+
+    expect(tx.agent.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { name: 'Jane Doe', branchId: 1, active: true, deletedAt: null },
+      })
+    );
+  });
+
+  it('posts a new agent to the branch from their earliest imported lead', async () => {
+    const { tx, db } = fakeTransaction();
+
+    const result = await writeImportedLeads(
+      [row(2, { createdAt: new Date('2024-05-03T00:00:00Z') }), row(3)],
+      false,
+      db
+    );
+
+    expect(tx.agent.create).toHaveBeenCalledTimes(1);
+    expect(tx.agent.create).toHaveBeenCalledWith({
+      data: {
+        name: 'Jane Doe',
+        branchId: 1,
+        email: null,
+        assignments: { create: { branchId: 1, effectiveFrom: new Date('2024-05-01T00:00:00Z') } },
+      },
+    });
+    expect(result.createdAgents).toEqual(['Jane Doe (Westlands)']);
+  });
+
+  it('maps every row to the lead created for it, with its initial status', async () => {
+    const { tx, db } = fakeTransaction();
+    tx.agent.findFirst.mockResolvedValue({ id: 3 });
+
+    const result = await writeImportedLeads(
+      [row(2), row(5, { status: 'Closed', contactedAt: new Date('2024-05-02T00:00:00Z') })],
+      false,
+      db
+    );
+
+    expect(result.accepted).toEqual([
+      { line: 2, leadId: 100, branchId: 1, agentId: 3 },
+      { line: 5, leadId: 101, branchId: 1, agentId: 3 },
+    ]);
+    expect(tx.lead.create.mock.calls[1][0].data.statusChanges).toEqual({
+      create: { fromStatus: null, toStatus: 'Closed', changedAt: new Date('2024-05-01T00:00:00Z') },
+    });
+  });
+
+  it('creates nothing on a dry run', async () => {
+    const { tx, db } = fakeTransaction();
+    tx.branch.findUnique.mockResolvedValue(null);
+
+    const result = await writeImportedLeads([row(2, { branch: 'Kilimani' })], true, db);
+
+    expect(tx.branch.create).not.toHaveBeenCalled();
+    expect(tx.agent.create).not.toHaveBeenCalled();
+    expect(tx.lead.create).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      accepted: [{ line: 2, leadId: null, branchId: null, agentId: null }],
+      createdBranches: ['Kilimani'],
+      createdAgents: ['Jane Doe (Kilimani)'],
+    });
+  });
+});
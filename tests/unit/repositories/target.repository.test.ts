@@ -0,0 +1,65 @@
+import { sumProratedTargets } from '../../../src/repositories/target.repository';
+
+describe('sumProratedTargets', () => {
+  const march = {
+    periodStart: new Date('2024-03-01T00:00:00Z'),
+    periodEnd: new Date('2024-03-31T00:00:00Z'),
+    revenueTarget: 3000,
+    leadTarget: 30,
+  };
+
+  it('counts a target in full when the window covers its period', () => {
+    expect(
+      sumProratedTargets(
+        [march],
+        new Date('2024-02-01T00:00:00Z'),
+        new Date('2024-05-01T00:00:00Z')
+      )
+    ).toEqual({ revenueTarget: 3000, leadTarget: 30 });
+  });
+
+  it('prorates a target by the share of its period inside the window', () => {
+    expect(
+      sumProratedTargets(
+        [march],
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-03-11T00:00:00Z')
+      )
+    ).toEqual({ revenueTarget: 1000, leadTarget: 10 });
+  });
+
+  it('adds up overlapping targets', () => {
+    const april = {
+      ...march,
+      periodStart: new Date('2024-03-31T00:00:00Z'),
+      periodEnd: new Date('2024-04-30T00:00:00Z'),
+    };
+
+    expect(
+      sumProratedTargets(
+        [march, april],
+        new Date('2024-03-21T00:00:00Z'),
+        new Date('2024-04-10T00:00:00Z')
+      )
+    ).toEqual({ revenueTarget: 2000, leadTarget: 20 });
+  });
+
+  it('counts everything up to the end of an open-ended window', () => {
+    expect(sumProratedTargets([march], undefined, new Date('2024-03-16T00:00:00Z'))).toEqual({
+      revenueTarget: 1500,
+      leadTarget: 15,
+    });
+  });
+
+  it('skips targets outside the window and empty periods', () => {
+    const empty = { ...march, periodEnd: march.periodStart };
+
+    expect(
+      sumProratedTargets(
+        [march, empty],
+        new Date('2024-04-01T00:00:00Z'),
+        new Date('2024-05-01T00:00:00Z')
+      )
+    ).toEqual({ revenueTarget: 0, leadTarget: 0 });
+  });
+});
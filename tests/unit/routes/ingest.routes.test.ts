@@ -0,0 +1,80 @@
+import express from 'express';
+import request from 'supertest';
+import ingestRoutes from '../../../src/routes/ingest.routes';
+import { errorHandler } from '../../../src/middleware/error.middleware';
+import { ingestLeadEvents } from '../../../src/services/ingest.service';
+import { MAX_INGEST_EVENTS } from '../../../src/types/ingest.types';
+import { AppError } from '../../../src/utils/AppError';
+
+jest.mock('../../../src/services/ingest.service', () => ({
+  ingestLeadEvents: jest.fn(),
+}));
+jest.mock('../../../src/middleware/rateLimit.middleware', () => ({
+  apiRateLimit: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/ingest', ingestRoutes);
+app.use(errorHandler);
+
+const event = {
+  idempotencyKey: 'crm-1',
+  externalId: 'L-100',
+  type: 'contacted',
+  occurredAt: '2024-03-01T10:00:00Z',
+};
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('POST /api/ingest/lead-events', () => {
+  it('passes the validated events to the ingest', async () => {
+    jest.mocked(ingestLeadEvents).mockResolvedValue({ results: [] } as never);
+
+    const response = await request(app)
+      .post('/api/ingest/lead-events')
+      .set('X-Actor', 'crm')
+      .send({ events: [{ ...event, idempotencyKey: ' crm-1 ' }] });
+
+    expect(response.status).toBe(200);
+    expect(ingestLeadEvents).toHaveBeenCalledWith([event], 'crm');
+  });
+
+  it('rejects empty and oversized batches', async () => {
+    expect((await request(app).post('/api/ingest/lead-events').send({ events: [] })).status).toBe(
+      400
+    );
+
+    const events = Array.from({ length: MAX_INGEST_EVENTS + 1 }, (_, i) => ({
+      ...event,
+      idempotencyKey: `crm-${i}`,
+    }));
+    expect((await request(app).post('/api/ingest/lead-events').send({ events })).status).toBe(400);
+    expect(ingestLeadEvents).not.toHaveBeenCalled();
+  });
+
+  it('rejects events with an unknown type or a malformed date', async () => {
+    const response = await request(app)
+      .post('/api/ingest/lead-events')
+      .send({ events: [{ ...event, type: 'emailed', occurredAt: 'yesterday' }] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.data.map((error: { path: string }) => error.path).sort()).toEqual([
+      'events[0].occurredAt',
+      'events[0].type',
+    ]);
+    expect(ingestLeadEvents).not.toHaveBeenCalled();
+  });
+
+  it('reports a lost lead creation race as a conflict', async () => {
+    jest
+      .mocked(ingestLeadEvents)
+      .mockRejectedValue(new AppError('Another request created the same leads; retry', 409));
+
+    const response = await request(app)
+      .post('/api/ingest/lead-events')
+      .send({ events: [event] });
+
+    expect(response.status).toBe(409);
+  });
+});
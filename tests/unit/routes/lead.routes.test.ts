@@ -0,0 +1,119 @@
+import express from 'express';
+import request from 'supertest';
+import leadRoutes from '../../../src/routes/lead.routes';
+import { errorHandler } from '../../../src/middleware/error.middleware';
+import { createLead, getLead, updateLead } from '../../../src/services/lead.service';
+import { importLeadsFromCsv } from '../../../src/services/import.service';
+import { AppError } from '../../../src/utils/AppError';
+
+jest.mock('../../../src/services/lead.service', () => ({
+  getLead: jest.fn(),
+  createLead: jest.fn(),
+  updateLead: jest.fn(),
+  deleteLead: jest.fn(),
+}));
+jest.mock('../../../src/services/import.service', () => ({
+  importLeadsFromCsv: jest.fn(),
+}));
+jest.mock('../../../src/services/call.service', () => ({
+  listLeadCalls: jest.fn(),
+  logCall: jest.fn(),
+}));
+jest.mock('../../../src/middleware/rateLimit.middleware', () => ({
+  apiRateLimit: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/leads', leadRoutes);
+app.use(errorHandler);
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('POST /api/leads', () => {
+  it('creates a lead from the validated body as the X-Actor caller', async () => {
+    jest.mocked(createLead).mockResolvedValue({ id: 7 } as never);
+
+    const response = await request(app)
+      .post('/api/leads')
+      .set('X-Actor', 'jane@example.com')
+      .send({ branchId: '2', agentId: 3, revenue: '1500', unknown: 'dropped' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data).toEqual({ id: 7 });
+    expect(createLead).toHaveBeenCalledWith(
+      { branchId: 2, agentId: 3, revenue: 1500 },
+      'jane@example.com'
+    );
+  });
+
+  it('rejects invalid fields without calling the service', async () => {
+    const response = await request(app)
+      .post('/api/leads')
+      .send({ branchId: 0, agentId: 3, status: 'Lost', currency: 'dollars' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.data.map((error: { path: string }) => error.path).sort()).toEqual([
+      'branchId',
+      'currency',
+      'status',
+    ]);
+    expect(createLead).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /api/leads/:id', () => {
+  it('refuses to move a lead to another branch', async () => {
+    const response = await request(app).patch('/api/leads/4').send({ branchId: 2 });
+
+    expect(response.status).toBe(400);
+    expect(updateLead).not.toHaveBeenCalled();
+  });
+
+  it('returns service errors with their status', async () => {
+    jest.mocked(updateLead).mockRejectedValue(new AppError('Cannot move a lead from Lost', 409));
+
+    const response = await request(app).patch('/api/leads/4').send({ status: 'Open' });
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({
+      success: false,
+      message: 'Cannot move a lead from Lost',
+    });
+    expect(updateLead).toHaveBeenCalledWith(4, { status: 'Open' }, 'anonymous');
+  });
+});
+
+describe('GET /api/leads/:id', () => {
+  it('rejects IDs that are not positive integers', async () => {
+    const response = await request(app).get('/api/leads/abc');
+
+    expect(response.status).toBe(400);
+    expect(getLead).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/leads/import', () => {
+  it('passes the CSV body and dry-run flag to the import', async () => {
+    jest.mocked(importLeadsFromCsv).mockResolvedValue({ accepted: [], errors: [] } as never);
+
+    const response = await request(app)
+      .post('/api/leads/import?dryRun=true')
+      .set('Content-Type', 'text/csv')
+      .send('branch,agent\nWestlands,Jane Doe\n');
+
+    expect(response.status).toBe(200);
+    expect(importLeadsFromCsv).toHaveBeenCalledWith(
+      'branch,agent\nWestlands,Jane Doe\n',
+      { dryRun: true },
+      'anonymous'
+    );
+  });
+
+  it('rejects an empty body', async () => {
+    const response = await request(app).post('/api/leads/import').set('Content-Type', 'text/csv');
+
+    expect(response.status).toBe(400);
+    expect(importLeadsFromCsv).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import express from 'express';
+import request from 'supertest';
+import savedViewRoutes from '../../../src/routes/savedView.routes';
+import { errorHandler } from '../../../src/middleware/error.middleware';
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  updateSavedView,
+} from '../../../src/services/savedView.service';
+import { AppError } from '../../../src/utils/AppError';
+
+jest.mock('../../../src/services/savedView.service', () => ({
+  listSavedViews: jest.fn(),
+  getSavedView: jest.fn(),
+  createSavedView: jest.fn(),
+  updateSavedView: jest.fn(),
+  deleteSavedView: jest.fn(),
+}));
+jest.mock('../../../src/middleware/rateLimit.middleware', () => ({
+  apiRateLimit: (_req: unknown, _res: unknown, next: () => void) => next(),
+}));
+
+const app = express();
+app.use(express.json());
+app.use('/api/saved-views', savedViewRoutes);
+app.use(errorHandler);
+
+beforeEach(() => jest.clearAllMocks());
+
+describe('saved view routes', () => {
+  it('lists the views visible to the X-Actor caller', async () => {
+    jest.mocked(listSavedViews).mockResolvedValue([]);
+
+    const response = await request(app)
+      .get('/api/saved-views')
+      .set('X-Actor', ' jane@example.com ');
+
+    expect(response.status).toBe(200);
+    expect(listSavedViews).toHaveBeenCalledWith('jane@example.com');
+  });
+
+  it('creates a view from the validated body', async () => {
+    jest.mocked(createSavedView).mockResolvedValue({ id: 3 } as never);
+
+    const response = await request(app)
+      .post('/api/saved-views')
+      .set('X-Actor', 'jane@example.com')
+      .send({ name: ' Team ', filters: { branch: 'Westlands' }, scope: 'branch', branchId: '2' });
+
+    expect(response.status).toBe(201);
+    expect(createSavedView).toHaveBeenCalledWith(
+      { name: 'Team', filters: { branch: 'Westlands' }, scope: 'branch', branchId: 2 },
+      'jane@example.com'
+    );
+  });
+
+  it('rejects malformed views', async () => {
+    const response = await request(app)
+      .post('/api/saved-views')
+      .send({ name: '', filters: 'branch=Westlands', isDefault: 'yes', scope: 'public' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.data.map((error: { path: string }) => error.path).sort()).toEqual([
+      'filters',
+      'isDefault',
+      'name',
+      'scope',
+    ]);
+    expect(createSavedView).not.toHaveBeenCalled();
+  });
+
+  it('updates a view by ID as the X-Actor caller', async () => {
+    jest.mocked(updateSavedView).mockResolvedValue({ id: 3 } as never);
+
+    await request(app)
+      .patch('/api/saved-views/3')
+      .set('X-Actor', 'jane@example.com')
+      .send({ scope: 'organisation', isDefault: true })
+      .expect(200);
+    expect(updateSavedView).toHaveBeenCalledWith(
+      3,
+      { scope: 'organisation', isDefault: true },
+      'jane@example.com'
+    );
+
+    await request(app).patch('/api/saved-views/latest').send({ name: 'Mine' }).expect(400);
+    expect(updateSavedView).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns a 403 for another owner's view", async () => {
+    jest
+      .mocked(deleteSavedView)
+      .mockRejectedValue(new AppError('Only the owner can delete a saved view', 403));
+
+    const response = await request(app).delete('/api/saved-views/3');
+
+    expect(response.status).toBe(403);
+  });
+});
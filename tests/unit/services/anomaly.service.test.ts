@@ -0,0 +1,74 @@
+import { flagDays } from '../../../src/services/anomaly.service';
+import { median } from '../../../src/utils/statistics';
+
+const series = {
+  entityType: 'branch' as const,
+  entityId: 7,
+  entityName: 'Downtown',
+  leads: [],
+  converted: [],
+};
+
+const HISTORY = [10, 12, 9, 11, 10, 13, 8];
+
+/**
+ * Four weeks of ordinary daily values followed by the given days
+ */
+const withRecent = (...recent: Array<number | null>): Array<number | null> => [
+  ...Array.from({ length: 28 }, (_, i) => HISTORY[i % HISTORY.length]),
+  ...recent,
+];
+
+const days = Array.from({ length: 40 }, (_, i) => ({
+  start: new Date(Date.UTC(2024, 2, 1 + i)),
+}));
+
+describe('flagDays', () => {
+  it('flags a spike against the trailing window', () => {
+    const values = withRecent(40);
+    const [alert, ...rest] = flagDays(series, 'leads', values, [28], days);
+
+    expect(rest).toEqual([]);
+    expect(alert).toMatchObject({
+      entityType: 'branch',
+      entityId: 7,
+      entityName: 'Downtown',
+      metric: 'leads',
+      day: days[28].start,
+      value: 40,
+      baseline: median(values.slice(0, 28) as number[]),
+      direction: 'spike',
+    });
+    expect(alert.zScore).toBeGreaterThanOrEqual(3.5);
+  });
+
+  it('flags a drop', () => {
+    const [alert] = flagDays(series, 'leads', withRecent(0), [28], days);
+
+    expect(alert.direction).toBe('drop');
+    expect(alert.zScore).toBeLessThanOrEqual(-3.5);
+  });
+
+  it('leaves ordinary days alone', () => {
+    expect(flagDays(series, 'leads', withRecent(13, 8), [28, 29], days)).toEqual([]);
+  });
+
+  it('only checks the candidate days', () => {
+    const values = withRecent(40, 11);
+
+    expect(flagDays(series, 'leads', values, [29], days)).toEqual([]);
+  });
+
+  it('skips days without a value', () => {
+    expect(flagDays(series, 'conversionRate', withRecent(null), [28], days)).toEqual([]);
+  });
+
+  it('needs enough history with values', () => {
+    // 13 of the trailing 28 days have a value; 14 are needed
+    const sparse = withRecent(40).map((value, i) => (i < 15 ? null : value));
+    const enough = withRecent(40).map((value, i) => (i < 14 ? null : value));
+
+    expect(flagDays(series, 'leads', sparse, [28], days)).toEqual([]);
+    expect(flagDays(series, 'leads', enough, [28], days)).toHaveLength(1);
+  });
+});
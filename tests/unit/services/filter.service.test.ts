@@ -0,0 +1,118 @@
+import {
+  getRequestFilters,
+  parseFilters,
+  resolveFilterNames,
+  validateFilters,
+} from '../../../src/services/filter.service';
+import { findAgentsByNames } from '../../../src/repositories/agent.repository';
+
+jest.mock('../../../src/repositories/agent.repository', () => ({
+  findAgentsByNames: jest.fn(),
+}));
+
+describe('parseFilters', () => {
+  it('parses value filters with exclusions', () => {
+    expect(
+      parseFilters({ branch: ['Westlands,Karen', '!Kilimani'], product: 'Loan', agentId: '3,!4,x' })
+    ).toEqual({
+      branch: { in: ['Karen', 'Westlands'], notIn: ['Kilimani'] },
+      product: { in: ['Loan'] },
+      agentId: { in: [3], notIn: [4] },
+    });
+  });
+
+  it('parses range bounds as numbers and drops blank or non-numeric ones', () => {
+    expect(
+      parseFilters({
+        minRevenue: '100',
+        maxRevenue: 'lots',
+        minDaysToContact: ' ',
+        maxDaysToContact: '2.5',
+      })
+    ).toEqual({ minRevenue: 100, maxDaysToContact: 2.5 });
+  });
+
+  it('keeps only known presets, flags and comparison periods', () => {
+    expect(
+      parseFilters({
+        dateRange: 'someday',
+        contacted: 'yes',
+        compareTo: 'lastDecade',
+        includeDeleted: 'false',
+        currency: ' usd ',
+      })
+    ).toEqual({ currency: 'USD' });
+    expect(
+      parseFilters({ dateRange: 'thisMonth', contacted: 'false', includeDeleted: 'true' })
+    ).toEqual({
+      dateRange: 'thisMonth',
+      contacted: false,
+      includeDeleted: true,
+    });
+  });
+});
+
+describe('validateFilters', () => {
+  it('accepts consistent range bounds', () => {
+    expect(validateFilters({ minRevenue: 0, maxRevenue: 100, maxDaysToContact: 3 })).toEqual({
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects negative and inverted bounds', () => {
+    expect(validateFilters({ minRevenue: -1 }).errors).toEqual(['minRevenue must not be negative']);
+    expect(validateFilters({ minDaysToContact: 5, maxDaysToContact: 2 }).errors).toEqual([
+      'minDaysToContact must not exceed maxDaysToContact',
+    ]);
+  });
+
+  it('rejects days-to-contact bounds on uncontacted leads', () => {
+    expect(validateFilters({ contacted: false, maxDaysToContact: 2 }).valid).toBe(false);
+  });
+
+  it('rejects unknown statuses and malformed currencies', () => {
+    expect(validateFilters({ status: { in: ['Lost'] }, currency: 'US' }).errors).toHaveLength(2);
+  });
+});
+
+describe('resolveFilterNames', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('turns agent names into IDs merged with any agentId filter', async () => {
+    jest.mocked(findAgentsByNames).mockResolvedValue([
+      { id: 3, name: 'Jane Doe', branchName: 'Westlands' },
+      { id: 5, name: 'Sam Otieno', branchName: 'Karen' },
+    ]);
+
+    expect(
+      await resolveFilterNames({
+        agent: { in: ['Jane Doe'], notIn: ['Sam Otieno'] },
+        agentId: { in: [3, 4] },
+      })
+    ).toEqual({ agentId: { in: [3], notIn: [5] } });
+  });
+
+  it('rejects a name shared by several agents', async () => {
+    jest.mocked(findAgentsByNames).mockResolvedValue([
+      { id: 3, name: 'Jane Doe', branchName: 'Westlands' },
+      { id: 8, name: 'Jane Doe', branchName: 'Karen' },
+    ]);
+
+    await expect(resolveFilterNames({ agent: { in: ['Jane Doe'] } })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
+
+describe('getRequestFilters', () => {
+  it('uses the defaults without query parameters', async () => {
+    expect(await getRequestFilters({})).toEqual({ dateRange: 'last30days' });
+  });
+
+  it('rejects invalid combinations with a 400', async () => {
+    await expect(getRequestFilters({ minRevenue: '10', maxRevenue: '5' })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { importLeadsFromCsv, validateImportRecord } from '../../../src/services/import.service';
+import { writeImportedLeads } from '../../../src/repositories/import.repository';
+import { findInactiveAgentNames } from '../../../src/repositories/agent.repository';
+import { recordAuditEvent } from '../../../src/services/audit.service';
+import { LeadImportContext } from '../../../src/types/import.types';
+import { cache } from '../../../src/utils/cache';
+
+jest.mock('../../../src/repositories/import.repository', () => ({
+  writeImportedLeads: jest.fn(),
+}));
+jest.mock('../../../src/repositories/country.repository', () => ({
+  findCountries: jest.fn().mockResolvedValue([{ id: 1, name: 'Kenya', code: 'KE' }]),
+}));
+jest.mock('../../../src/repositories/branch.repository', () => ({
+  findBranches: jest.fn().mockResolvedValue([{ name: 'Westlands', countryId: 1 }]),
+  findDeletedBranchNames: jest.fn().mockResolvedValue(['Old Town']),
+}));
+jest.mock('../../../src/repositories/agent.repository', () => ({
+  findInactiveAgentNames: jest.fn(),
+}));
+jest.mock('../../../src/repositories/fx.repository', () => ({
+  findFxCurrencies: jest.fn().mockResolvedValue(['USD']),
+}));
+jest.mock('../../../src/services/audit.service', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+jest.mock('../../../src/utils/prisma', () => ({
+  runInTransaction: (work: (tx: unknown) => Promise<unknown>) => work({}),
+}));
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const context: LeadImportContext = {
+  countries: [
+    { id: 1, name: 'Kenya', code: 'KE' },
+    { id: 2, name: 'Uganda', code: 'UG' },
+  ],
+  branchCountries: new Map([['Westlands', 1]]),
+  deletedBranches: ['Old Town'],
+  inactiveAgents: new Map([['Westlands', ['Sam Retired']]]),
+  currencies: ['KES', 'USD'],
+};
+
+const validate = (values: Record<string, string>) =>
+  validateImportRecord(
+    {
+      line: 2,
+      values: { branch: 'Westlands', agent: 'Jane Doe', createdat: '2024-05-01', ...values },
+    },
+    context,
+    now
+  );
+
+describe('validateImportRecord', () => {
+  it('accepts a minimal row with defaults', () => {
+    const { row, errors } = validate({});
+
+    expect(errors).toEqual([]);
+    expect(row).toMatchObject({
+      line: 2,
+      branch: 'Westlands',
+      agent: 'Jane Doe',
+      status: 'Open',
+      revenue: 0,
+      currency: 'KES',
+      createdAt: new Date('2024-05-01'),
+    });
+  });
+
+  it('requires branch, agent and createdAt', () => {
+    const { row, errors } = validate({ branch: '', agent: '', createdat: '' });
+
+    expect(row).toBeUndefined();
+    expect(errors).toEqual(['branch is required', 'agent is required', 'createdAt is required']);
+  });
+
+  it('rejects deleted branches and inactive agents', () => {
+    expect(validate({ branch: 'Old Town' }).errors).toEqual(['branch "Old Town" has been deleted']);
+    expect(validate({ agent: 'Sam Retired' }).errors).toEqual([
+      'agent "Sam Retired" is inactive and cannot be assigned leads',
+    ]);
+  });
+
+  it('rejects a country that clashes with the branch', () => {
+    expect(validate({ country: 'ke' }).row?.countryId).toBe(1);
+    expect(validate({ country: 'UG' }).errors).toEqual([
+      'branch "Westlands" does not belong to country "UG"',
+    ]);
+    expect(validate({ country: 'Narnia' }).errors).toEqual(['country "Narnia" does not exist']);
+  });
+
+  it('rejects currencies without FX rates', () => {
+    expect(validate({ currency: 'usd' }).row?.currency).toBe('USD');
+    expect(validate({ currency: 'EUR' }).errors).toEqual(['currency "EUR" has no FX rates loaded']);
+  });
+
+  it('checks the milestone dates against the status', () => {
+    expect(validate({ status: 'Closed' }).errors).toEqual([
+      'contactedAt is required for status "Closed"',
+    ]);
+    expect(validate({ status: 'Product/Service Sold', contactedat: '2024-05-02' }).errors).toEqual([
+      'convertedAt is required for sold leads',
+    ]);
+    expect(validate({ contactedat: '2024-04-30' }).errors).toEqual([
+      'contactedAt cannot be before createdAt',
+    ]);
+    expect(validate({ createdat: '2024-07-01' }).errors).toEqual([
+      'createdAt cannot be in the future',
+    ]);
+    expect(validate({ createdat: '01/05/2024' }).errors).toEqual([
+      'createdAt "01/05/2024" is not a valid ISO 8601 date',
+    ]);
+  });
+});
+
+describe('importLeadsFromCsv', () => {
+  const csv = [
+    'Branch,Agent,CreatedAt,Status',
+    'Westlands,Jane Doe,2024-05-01,Open',
+    'Westlands,Sam Retired,2024-05-02,Open',
+    'Westlands,Jane Doe,2024-05-03,Lost',
+  ].join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .mocked(findInactiveAgentNames)
+      .mockResolvedValue([{ branch: 'Westlands', agent: 'Sam Retired' }]);
+    jest.mocked(writeImportedLeads).mockImplementation(async (rows, dryRun) => ({
+      accepted: rows.map((row, index) => ({
+        line: row.line,
+        leadId: dryRun ? null : 100 + index,
+        branchId: 1,
+        agentId: 3,
+      })),
+      createdBranches: [],
+      createdAgents: [],
+    }));
+    cache.set('dashboard:main', { total: 1 }, 300);
+    cache.set('filter:options', { branches: [] }, 300);
+  });
+
+  it('writes valid rows and reports invalid ones by line', async () => {
+    const result = await importLeadsFromCsv(csv, {}, 'tester');
+
+    expect(jest.mocked(writeImportedLeads).mock.calls[0][0].map((row) => row.line)).toEqual([2]);
+    expect(result.accepted).toEqual([{ line: 2, leadId: 100, branchId: 1, agentId: 3 }]);
+    expect(result.errors.map((error) => error.line)).toEqual([3, 4]);
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'import',
+        after: expect.objectContaining({ leadIds: [100] }),
+      }),
+      {}
+    );
+  });
+
+  it('clears cached dashboards and filter options after writing', async () => {
+    await importLeadsFromCsv(csv, {}, 'tester');
+
+    expect(cache.get('dashboard:main')).toBeNull();
+    expect(cache.get('filter:options')).toBeNull();
+  });
+
+  it('leaves caches and the audit trail alone on a dry run', async () => {
+    const result = await importLeadsFromCsv(csv, { dryRun: true }, 'tester');
+
+    expect(result.accepted[0].leadId).toBeNull();
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+    expect(cache.get('dashboard:main')).toEqual({ total: 1 });
+  });
+
+  it('rejects a file without the required columns', async () => {
+    await expect(
+      importLeadsFromCsv('Branch,Agent\nWestlands,Jane Doe', {}, 'tester')
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'CSV is missing required columns: createdat',
+    });
+    expect(writeImportedLeads).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,247 @@
+import { Prisma } from '@prisma/client';
+import {
+  foldLeadEvents,
+  ingestLeadEvents,
+  mergeLeadEvents,
+} from '../../../src/services/ingest.service';
+import {
+  findExistingEventKeys,
+  findIngestedLeads,
+  findLeadEventsByExternalIds,
+  saveLeadEvents,
+} from '../../../src/repositories/ingest.repository';
+import { findBranchByName } from '../../../src/repositories/branch.repository';
+import { findAgentByName } from '../../../src/repositories/agent.repository';
+import { IngestedLead, LeadEventInput, ReceivedLeadEvent } from '../../../src/types/ingest.types';
+import { cache } from '../../../src/utils/cache';
+
+jest.mock('../../../src/repositories/ingest.repository', () => ({
+  findExistingEventKeys: jest.fn(),
+  findIngestedLeads: jest.fn(),
+  findLeadEventsByExternalIds: jest.fn(),
+  saveLeadEvents: jest.fn(),
+}));
+jest.mock('../../../src/repositories/branch.repository', () => ({
+  findBranchByName: jest.fn(),
+}));
+jest.mock('../../../src/repositories/agent.repository', () => ({
+  findAgentByName: jest.fn(),
+}));
+jest.mock('../../../src/repositories/fx.repository', () => ({
+  findFxCurrencies: jest.fn().mockResolvedValue(['USD']),
+}));
+jest.mock('../../../src/services/audit.service', () => ({
+  recordAuditEvent: jest.fn(),
+}));
+jest.mock('../../../src/utils/prisma', () => ({
+  ...jest.requireActual('../../../src/utils/prisma'),
+  runInTransaction: (work: (tx: unknown) => Promise<unknown>) => work({}),
+}));
+
+const at = (day: number): Date => new Date(Date.UTC(2024, 2, day, 9));
+
+const event = (
+  idempotencyKey: string,
+  type: ReceivedLeadEvent['type'],
+  day: number,
+  data: ReceivedLeadEvent['data'] = {}
+): ReceivedLeadEvent => ({ idempotencyKey, externalId: 'CRM-42', type, occurredAt: at(day), data });
+
+const soldLead: IngestedLead = {
+  id: 7,
+  externalId: 'CRM-42',
+  status: 'Product/Service Sold',
+  revenue: 1500,
+  currency: 'KES',
+  createdAt: at(1),
+  contactedAt: at(5),
+  convertedAt: at(5),
+  deletedAt: null,
+  history: [
+    { toStatus: 'Open', changedAt: at(1) },
+    { toStatus: 'Product/Service Sold', changedAt: at(5) },
+  ],
+};
+
+describe('foldLeadEvents', () => {
+  const created = event('e1', 'created', 1, { branchId: 1, agentId: 3 });
+
+  it('waits for the created event', () => {
+    expect(foldLeadEvents('CRM-42', [event('e2', 'contacted', 2)])).toBeNull();
+  });
+
+  it('builds the lead and its history from events in order', () => {
+    const lead = foldLeadEvents('CRM-42', [
+      created,
+      event('e2', 'contacted', 2),
+      event('e3', 'converted', 4, { revenue: 900, currency: 'USD' }),
+    ]);
+
+    expect(lead).toMatchObject({
+      status: 'Product/Service Sold',
+      contactedAt: at(2),
+      convertedAt: at(4),
+      revenue: 900,
+      currency: 'USD',
+      ignoredEventKeys: [],
+    });
+    expect(lead!.statusChanges.map((change) => change.toStatus)).toEqual([
+      'Open',
+      'To Callback Later',
+      'Product/Service Sold',
+    ]);
+  });
+
+  it('ignores events the status rules do not allow and events before creation', () => {
+    const lead = foldLeadEvents('CRM-42', [
+      { ...event('e0', 'contacted', 1), occurredAt: new Date(at(1).getTime() - 1000) },
+      created,
+      event('e2', 'converted', 2),
+      event('e3', 'closed', 3),
+    ]);
+
+    expect(lead!.status).toBe('Product/Service Sold');
+    expect(lead!.ignoredEventKeys).toEqual(['e0', 'e3']);
+  });
+});
+
+describe('mergeLeadEvents', () => {
+  it('backfills contactedAt from a contact reported after the sale', () => {
+    const update = mergeLeadEvents(soldLead, [event('e4', 'contacted', 3)]);
+
+    expect(update).toMatchObject({
+      status: 'Product/Service Sold',
+      contactedAt: at(3),
+      convertedAt: at(5),
+      ignoredEventKeys: [],
+    });
+    expect(update.statusChanges).toEqual([
+      { fromStatus: 'Open', toStatus: 'To Callback Later', changedAt: at(3) },
+    ]);
+  });
+
+  it('moves the conversion to the earliest converted event but keeps its revenue', () => {
+    const update = mergeLeadEvents(soldLead, [event('e4', 'converted', 4, { revenue: 10 })]);
+
+    expect(update).toMatchObject({ contactedAt: at(4), convertedAt: at(4), revenue: 1500 });
+    expect(update.statusChanges).toHaveLength(1);
+  });
+
+  it('ignores repeated events that change nothing', () => {
+    const update = mergeLeadEvents(soldLead, [
+      event('e4', 'closed', 5),
+      event('e5', 'contacted', 6),
+      event('e6', 'converted', 7),
+    ]);
+
+    expect(update.statusChanges).toEqual([]);
+    expect(update.ignoredEventKeys).toEqual(['e4', 'e5', 'e6']);
+  });
+
+  it('never gives an unsold lead a conversion date', () => {
+    const closed: IngestedLead = {
+      ...soldLead,
+      status: 'Closed',
+      convertedAt: null,
+      history: [
+        { toStatus: 'Open', changedAt: at(1) },
+        { toStatus: 'Closed', changedAt: at(5) },
+      ],
+    };
+
+    const update = mergeLeadEvents(closed, [event('e4', 'converted', 3)]);
+
+    expect(update).toMatchObject({ status: 'Closed', contactedAt: at(3), convertedAt: null });
+  });
+
+  it('applies events after the latest status change', () => {
+    const open: IngestedLead = {
+      ...soldLead,
+      status: 'Open',
+      contactedAt: null,
+      convertedAt: null,
+      history: [{ toStatus: 'Open', changedAt: at(1) }],
+    };
+
+    const update = mergeLeadEvents(open, [event('e4', 'closed', 2)]);
+
+    expect(update).toMatchObject({ status: 'Closed', contactedAt: at(2) });
+    expect(update.statusChanges).toEqual([
+      { fromStatus: 'Open', toStatus: 'Closed', changedAt: at(2) },
+    ]);
+  });
+});
+
+describe('ingestLeadEvents', () => {
+  const input = (
+    idempotencyKey: string,
+    type: LeadEventInput['type'],
+    day: number
+  ): LeadEventInput => ({
+    idempotencyKey,
+    externalId: 'CRM-42',
+    type,
+    occurredAt: at(day).toISOString(),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(findExistingEventKeys).mockResolvedValue(new Set(['e1']));
+    jest.mocked(findIngestedLeads).mockResolvedValue(new Map([['CRM-42', soldLead]]));
+    jest.mocked(findLeadEventsByExternalIds).mockResolvedValue([]);
+    jest.mocked(findBranchByName).mockResolvedValue(null);
+    jest.mocked(findAgentByName).mockResolvedValue(null);
+    jest.mocked(saveLeadEvents).mockResolvedValue(7);
+    cache.set('dashboard:main', { total: 1 }, 300);
+  });
+
+  it('reports stored and repeated keys as duplicates', async () => {
+    const result = await ingestLeadEvents(
+      [input('e1', 'contacted', 2), input('e2', 'contacted', 3), input('e2', 'contacted', 3)],
+      'crm'
+    );
+
+    expect(result.results.map((r) => r.outcome)).toEqual(['duplicate', 'applied', 'duplicate']);
+    expect(jest.mocked(saveLeadEvents).mock.calls[0][0].map((e) => e.idempotencyKey)).toEqual([
+      'e2',
+    ]);
+    expect(cache.get('dashboard:main')).toBeNull();
+  });
+
+  it('rejects events for deleted leads without storing them', async () => {
+    jest
+      .mocked(findIngestedLeads)
+      .mockResolvedValue(new Map([['CRM-42', { ...soldLead, deletedAt: at(6) }]]));
+
+    const result = await ingestLeadEvents([input('e2', 'contacted', 3)], 'crm');
+
+    expect(result.results[0]).toMatchObject({
+      outcome: 'rejected',
+      errors: ['lead "CRM-42" has been deleted'],
+    });
+    expect(saveLeadEvents).not.toHaveBeenCalled();
+  });
+
+  const conflict = () =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: Prisma.prismaVersion.client,
+    });
+
+  it('runs the batch again when another request created the lead first', async () => {
+    jest.mocked(saveLeadEvents).mockRejectedValueOnce(conflict());
+
+    const result = await ingestLeadEvents([input('e2', 'contacted', 3)], 'crm');
+
+    expect(saveLeadEvents).toHaveBeenCalledTimes(2);
+    expect(result.applied).toBe(1);
+  });
+
+  it('reports a repeated conflict as 409', async () => {
+    jest.mocked(saveLeadEvents).mockRejectedValue(conflict());
+
+    await expect(ingestLeadEvents([input('e2', 'contacted', 3)], 'crm')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
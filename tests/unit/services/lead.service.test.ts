@@ -0,0 +1,154 @@
+import {
+  LEAD_STATUS_TRANSITIONS,
+  canTransition,
+  getStatusTimestamps,
+  createLead,
+  updateLead,
+} from '../../../src/services/lead.service';
+import {
+  findLeadById,
+  insertLead,
+  updateLeadById,
+  findAgentForLead,
+  findBranchForLead,
+} from '../../../src/repositories/lead.repository';
+import { LEAD_STATUSES, LeadDetails } from '../../../src/types/lead.types';
+import { cache } from '../../../src/utils/cache';
+
+jest.mock('../../../src/repositories/lead.repository', () => ({
+  findLeadById: jest.fn(),
+  insertLead: jest.fn(),
+  updateLeadById: jest.fn(),
+  deleteLeadById: jest.fn(),
+  findAgentForLead: jest.fn(),
+  findBranchForLead: jest.fn(),
+}));
+jest.mock('../../../src/repositories/fx.repository', () => ({
+  findFxCurrencies: jest.fn().mockResolvedValue([]),
+}));
+jest.mock('../../../src/services/audit.service', () => ({
+  withAuditEvent: (write: (tx: unknown) => Promise<unknown>) => write({}),
+}));
+
+describe('LEAD_STATUS_TRANSITIONS', () => {
+  it('lists the allowed moves for every status', () => {
+    expect(Object.keys(LEAD_STATUS_TRANSITIONS).sort()).toEqual([...LEAD_STATUSES].sort());
+  });
+
+  it('only moves between known statuses', () => {
+    for (const targets of Object.values(LEAD_STATUS_TRANSITIONS)) {
+      targets.forEach((status) => expect(LEAD_STATUSES).toContain(status));
+    }
+  });
+});
+
+describe('canTransition', () => {
+  it('lets an open lead move forward or be closed', () => {
+    expect(canTransition('Open', 'To Callback Later')).toBe(true);
+    expect(canTransition('Open', 'Product/Service Sold')).toBe(true);
+    expect(canTransition('Open', 'Closed')).toBe(true);
+  });
+
+  it('does not let a callback lead go back to open', () => {
+    expect(canTransition('To Callback Later', 'Open')).toBe(false);
+    expect(canTransition('To Callback Later', 'Product/Service Sold')).toBe(true);
+  });
+
+  it('treats a sold lead as terminal', () => {
+    for (const status of LEAD_STATUSES) {
+      expect(canTransition('Product/Service Sold', status)).toBe(false);
+    }
+  });
+
+  it('only reopens a closed lead', () => {
+    expect(canTransition('Closed', 'Open')).toBe(true);
+    expect(canTransition('Closed', 'Product/Service Sold')).toBe(false);
+  });
+
+  it('rejects staying put and unknown statuses', () => {
+    expect(canTransition('Open', 'Open')).toBe(false);
+    expect(canTransition('Lost', 'Open')).toBe(false);
+    expect(canTransition('Open', 'Lost')).toBe(false);
+  });
+});
+
+describe('getStatusTimestamps', () => {
+  const at = new Date('2024-03-01T10:00:00Z');
+
+  it('stamps the first contact when a lead leaves Open', () => {
+    expect(getStatusTimestamps('Closed', { contactedAt: null, convertedAt: null }, at)).toEqual({
+      contactedAt: at,
+    });
+    expect(getStatusTimestamps('Open', { contactedAt: null, convertedAt: null }, at)).toEqual({});
+  });
+
+  it('stamps contact and conversion on a sale', () => {
+    expect(
+      getStatusTimestamps('Product/Service Sold', { contactedAt: null, convertedAt: null }, at)
+    ).toEqual({ contactedAt: at, convertedAt: at });
+  });
+
+  it('never overwrites existing stamps', () => {
+    expect(
+      getStatusTimestamps(
+        'Product/Service Sold',
+        { contactedAt: '2024-02-01T09:00:00Z', convertedAt: null },
+        at
+      )
+    ).toEqual({ convertedAt: at });
+  });
+});
+
+describe('lead writes', () => {
+  const lead: LeadDetails = {
+    id: 7,
+    branchId: 1,
+    branchName: 'Westlands',
+    agentId: 3,
+    agentName: 'Jane Doe',
+    status: 'Open',
+    product: null,
+    segment: null,
+    campaign: null,
+    revenue: 0,
+    currency: 'KES',
+    createdAt: '2024-03-01T10:00:00.000Z',
+    updatedAt: '2024-03-01T10:00:00.000Z',
+    contactedAt: null,
+    convertedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(findBranchForLead).mockResolvedValue({ id: 1 });
+    jest.mocked(findAgentForLead).mockResolvedValue({ id: 3, branchId: 1, active: true });
+    jest.mocked(findLeadById).mockResolvedValue(lead);
+    jest.mocked(insertLead).mockResolvedValue(lead);
+    jest.mocked(updateLeadById).mockResolvedValue({ ...lead, status: 'Closed' });
+    cache.set('dashboard:main', { total: 1 }, 300);
+    cache.set('filter:options', { branches: [] }, 300);
+  });
+
+  it('clears cached dashboards and filter options after creating a lead', async () => {
+    await createLead({ branchId: 1, agentId: 3 }, 'tester');
+
+    expect(cache.get('dashboard:main')).toBeNull();
+    expect(cache.get('filter:options')).toBeNull();
+  });
+
+  it('clears cached dashboards and filter options after updating a lead', async () => {
+    await updateLead(7, { status: 'Closed' }, 'tester');
+
+    expect(cache.get('dashboard:main')).toBeNull();
+    expect(cache.get('filter:options')).toBeNull();
+  });
+
+  it('keeps the caches when the write is rejected', async () => {
+    jest.mocked(findAgentForLead).mockResolvedValue({ id: 3, branchId: 1, active: false });
+
+    await expect(createLead({ branchId: 1, agentId: 3 }, 'tester')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(cache.get('dashboard:main')).toEqual({ total: 1 });
+  });
+});
@@ -0,0 +1,78 @@
+import { DEFAULT_RANKING_SETTINGS, scorePeers } from '../../../src/services/ranking.service';
+import { RankingMeasures, RankingSettings } from '../../../src/types/ranking.types';
+
+const peers: RankingMeasures[] = [
+  { revenue: 100, conversionRate: 10, leads: 20, turnAroundTime: 2 },
+  { revenue: 300, conversionRate: 30, leads: 10, turnAroundTime: 4 },
+  { revenue: 200, conversionRate: 20, leads: 30, turnAroundTime: null },
+];
+
+const withSettings = (settings: Partial<RankingSettings>): RankingSettings => ({
+  ...DEFAULT_RANKING_SETTINGS,
+  ...settings,
+});
+
+describe('scorePeers', () => {
+  describe('min-max', () => {
+    it('scores 0-100 as the weighted sum of measures scaled across the group', () => {
+      const scores = scorePeers(peers, DEFAULT_RANKING_SETTINGS);
+
+      expect(scores.map((peer) => peer.score)).toEqual([20, 70, 55]);
+    });
+
+    it('explains each score by component, with faster turn around time scoring higher', () => {
+      const [first] = scorePeers(peers, DEFAULT_RANKING_SETTINGS);
+
+      expect(first.components).toEqual([
+        { component: 'revenue', value: 100, normalised: 0, weight: 0.4, contribution: 0 },
+        { component: 'conversionRate', value: 10, normalised: 0, weight: 0.3, contribution: 0 },
+        { component: 'leads', value: 20, normalised: 0.5, weight: 0.2, contribution: 10 },
+        { component: 'turnAroundTime', value: 2, normalised: 1, weight: 0.1, contribution: 10 },
+      ]);
+    });
+
+    it('gives peers without contacted leads the slowest turn around time', () => {
+      const tat = scorePeers(peers, DEFAULT_RANKING_SETTINGS)[2].components[3];
+
+      expect(tat).toMatchObject({ value: null, normalised: 0 });
+    });
+
+    it('scales relative weights to sum to 1', () => {
+      const settings = withSettings({
+        weights: { revenue: 2, conversionRate: 2, leads: 0, turnAroundTime: 0 },
+      });
+
+      expect(scorePeers(peers, settings).map((peer) => peer.score)).toEqual([0, 100, 50]);
+    });
+
+    it('puts every peer in the middle on a measure they share', () => {
+      const tied = peers.map((peer) => ({ ...peer, revenue: 50 }));
+
+      scorePeers(tied, DEFAULT_RANKING_SETTINGS).forEach((peer) => {
+        expect(peer.components[0].normalised).toBe(0.5);
+      });
+    });
+  });
+
+  describe('z-score', () => {
+    const settings = withSettings({ method: 'zscore' });
+    const pair: RankingMeasures[] = [
+      { revenue: 100, conversionRate: 10, leads: 5, turnAroundTime: 2 },
+      { revenue: 300, conversionRate: 30, leads: 5, turnAroundTime: 4 },
+    ];
+
+    it('scores in weighted standard deviations from the group mean', () => {
+      expect(scorePeers(pair, settings).map((peer) => peer.score)).toEqual([-0.6, 0.6]);
+    });
+
+    it('ignores a measure every peer shares', () => {
+      scorePeers(pair, settings).forEach((peer) => {
+        expect(peer.components[2]).toMatchObject({
+          component: 'leads',
+          normalised: 0,
+          contribution: 0,
+        });
+      });
+    });
+  });
+});
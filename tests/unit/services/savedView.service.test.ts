@@ -0,0 +1,206 @@
+import {
+  createSavedView,
+  deleteSavedView,
+  getSavedView,
+  mergeViewFilters,
+  updateSavedView,
+} from '../../../src/services/savedView.service';
+import {
+  deleteSavedViewById,
+  findSavedViewById,
+  findSavedViewByName,
+  saveSavedView,
+} from '../../../src/repositories/savedView.repository';
+import { findBranchById } from '../../../src/repositories/branch.repository';
+import {
+  findAgentBranchByEmail,
+  findAgentsByNames,
+} from '../../../src/repositories/agent.repository';
+import { SavedViewDetails } from '../../../src/types/savedView.types';
+
+jest.mock('../../../src/repositories/savedView.repository', () => ({
+  findSavedViews: jest.fn(),
+  findSavedViewById: jest.fn(),
+  findDefaultSavedView: jest.fn(),
+  findSavedViewByName: jest.fn(),
+  saveSavedView: jest.fn(),
+  deleteSavedViewById: jest.fn(),
+}));
+jest.mock('../../../src/repositories/branch.repository', () => ({
+  findBranchById: jest.fn(),
+}));
+jest.mock('../../../src/repositories/agent.repository', () => ({
+  findAgentBranchByEmail: jest.fn(),
+  findAgentsByNames: jest.fn(),
+}));
+jest.mock('../../../src/services/audit.service', () => ({
+  withAuditEvent: (write: (tx: unknown) => Promise<unknown>) => write({}),
+}));
+
+const view: SavedViewDetails = {
+  id: 3,
+  name: 'Nairobi this month',
+  owner: 'jane@example.com',
+  filters: { dateRange: 'thisMonth', branch: { in: ['Nairobi'] } },
+  isDefault: false,
+  scope: 'private',
+  branchId: null,
+  branchName: null,
+  createdAt: '2024-03-01T10:00:00.000Z',
+  updatedAt: '2024-03-01T10:00:00.000Z',
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.mocked(findAgentBranchByEmail).mockResolvedValue(null);
+  jest.mocked(findAgentsByNames).mockResolvedValue([]);
+  jest.mocked(findSavedViewByName).mockResolvedValue(null);
+  jest.mocked(findSavedViewById).mockResolvedValue(view);
+  jest.mocked(saveSavedView).mockImplementation(
+    async (data) =>
+      ({
+        ...view,
+        ...data,
+        filters: JSON.parse(data.filters as string),
+      }) as SavedViewDetails
+  );
+});
+
+describe('createSavedView', () => {
+  it('stores parsed filters owned by the actor', async () => {
+    await createSavedView(
+      {
+        name: 'Mine',
+        filters: { dateRange: 'thisMonth', campaign: '!Summer Campaign', minRevenue: 100 },
+      },
+      'jane@example.com'
+    );
+
+    const [data] = jest.mocked(saveSavedView).mock.calls[0];
+    expect(data).toMatchObject({
+      name: 'Mine',
+      owner: 'jane@example.com',
+      scope: 'private',
+      branchId: null,
+    });
+    expect(JSON.parse(data.filters as string)).toEqual({
+      dateRange: 'thisMonth',
+      campaign: { notIn: ['Summer Campaign'] },
+      minRevenue: 100,
+    });
+  });
+
+  it('rejects fixed dates so views keep rolling forward', async () => {
+    await expect(
+      createSavedView({ name: 'Fixed', filters: { startDate: '2024-01-01' } }, 'jane@example.com')
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(saveSavedView).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown keys and invalid values', async () => {
+    await expect(
+      createSavedView({ name: 'Odd', filters: { colour: 'red' } }, 'jane@example.com')
+    ).rejects.toThrow('Unknown filter keys: colour');
+    await expect(
+      createSavedView({ name: 'Odd', filters: { dateRange: 'someday' } }, 'jane@example.com')
+    ).rejects.toThrow('Invalid filter values: dateRange');
+  });
+
+  it('rejects a name the owner already uses', async () => {
+    jest.mocked(findSavedViewByName).mockResolvedValue(view);
+
+    await expect(createSavedView({ name: view.name }, 'jane@example.com')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+
+  it('requires a live branch for branch-scoped views', async () => {
+    await expect(
+      createSavedView({ name: 'Team', scope: 'branch' }, 'jane@example.com')
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    jest.mocked(findBranchById).mockResolvedValue(null);
+    await expect(
+      createSavedView({ name: 'Team', scope: 'branch', branchId: 9 }, 'jane@example.com')
+    ).rejects.toMatchObject({ statusCode: 404 });
+
+    await expect(
+      createSavedView({ name: 'Team', scope: 'private', branchId: 9 }, 'jane@example.com')
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('saved view access', () => {
+  it('reports views outside the viewer reach as not found', async () => {
+    jest.mocked(findSavedViewById).mockResolvedValue(null);
+
+    await expect(getSavedView(3, 'sam@example.com')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('looks views up with the viewer branch', async () => {
+    jest.mocked(findAgentBranchByEmail).mockResolvedValue(2);
+
+    await getSavedView(3, 'agent@example.com');
+
+    expect(findSavedViewById).toHaveBeenCalledWith(3, { actor: 'agent@example.com', branchId: 2 });
+  });
+
+  it('only lets the owner change or delete a view', async () => {
+    await expect(
+      updateSavedView(3, { name: 'Taken over' }, 'sam@example.com')
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await expect(deleteSavedView(3, 'sam@example.com')).rejects.toMatchObject({ statusCode: 403 });
+    expect(saveSavedView).not.toHaveBeenCalled();
+    expect(deleteSavedViewById).not.toHaveBeenCalled();
+
+    await deleteSavedView(3, 'jane@example.com');
+    expect(deleteSavedViewById).toHaveBeenCalledWith(3, {});
+  });
+
+  it('keeps the stored filters when an update only renames', async () => {
+    await updateSavedView(3, { name: 'Renamed' }, 'jane@example.com');
+
+    const [data, id] = jest.mocked(saveSavedView).mock.calls[0];
+    expect(id).toBe(3);
+    expect(JSON.parse(data.filters as string)).toEqual(view.filters);
+  });
+});
+
+describe('mergeViewFilters', () => {
+  const stored = {
+    dateRange: 'thisMonth' as const,
+    branch: { in: ['Nairobi'] },
+    campaign: { in: ['Summer Campaign'] },
+    minRevenue: 100,
+    maxRevenue: 500,
+  };
+
+  it('keeps the view filters when nothing is overridden', () => {
+    expect(mergeViewFilters(stored, {})).toEqual(stored);
+  });
+
+  it('replaces the saved dates with explicit dates', () => {
+    const merged = mergeViewFilters(stored, { startDate: '2024-01-01' });
+
+    expect(merged.dateRange).toBeUndefined();
+    expect(merged.startDate).toBe('2024-01-01');
+  });
+
+  it('replaces branch names with branch IDs', () => {
+    const merged = mergeViewFilters(stored, { branchId: '4' });
+
+    expect(merged.branch).toBeUndefined();
+    expect(merged.branchId).toEqual({ in: [4] });
+  });
+
+  it('clears a saved filter with an empty value', () => {
+    expect(mergeViewFilters(stored, { campaign: '' }).campaign).toBeUndefined();
+  });
+
+  it('overrides a range as a whole', () => {
+    const merged = mergeViewFilters(stored, { minRevenue: '50' });
+
+    expect(merged.minRevenue).toBe(50);
+    expect(merged.maxRevenue).toBeUndefined();
+  });
+});
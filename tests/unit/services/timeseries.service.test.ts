@@ -0,0 +1,116 @@
+import { getTimeSeriesData } from '../../../src/services/timeseries.service';
+import {
+  getEarliestLeadDate,
+  getTimeSeriesTotals,
+} from '../../../src/repositories/data.repository';
+import { findFxCurrencies } from '../../../src/repositories/fx.repository';
+import { cache } from '../../../src/utils/cache';
+
+jest.mock('../../../src/repositories/data.repository', () => ({
+  getEarliestLeadDate: jest.fn(),
+  getTimeSeriesTotals: jest.fn(),
+}));
+jest.mock('../../../src/repositories/fx.repository', () => ({
+  findFxCurrencies: jest.fn(),
+}));
+
+const march = { startDate: '2024-03-01', endDate: '2024-03-03' };
+
+const totals = (
+  bucket: number,
+  key: string | null,
+  label: string,
+  leads: number,
+  convertedLeads: number,
+  revenue: number
+) => ({ bucket, key, label, leads, convertedLeads, revenue, unconvertedCurrency: null });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  cache.clear();
+  jest.mocked(getTimeSeriesTotals).mockResolvedValue([]);
+  jest.mocked(findFxCurrencies).mockResolvedValue(['USD']);
+});
+
+describe('getTimeSeriesData', () => {
+  it('passes the calendar buckets to the aggregate query and zero-fills the rest', async () => {
+    jest.mocked(getTimeSeriesTotals).mockResolvedValue([totals(1, null, 'All leads', 4, 1, 250)]);
+
+    const result = await getTimeSeriesData(march, 'day');
+
+    const [, buckets, groupBy] = jest.mocked(getTimeSeriesTotals).mock.calls[0];
+    expect(buckets.map((bucket) => bucket.start.toISOString())).toEqual([
+      '2024-03-01T00:00:00.000Z',
+      '2024-03-02T00:00:00.000Z',
+      '2024-03-03T00:00:00.000Z',
+    ]);
+    expect(groupBy).toBeNull();
+    expect(result.series).toHaveLength(1);
+    expect(result.series[0].points.map((point) => point.leads)).toEqual([0, 4, 0]);
+    expect(result.series[0].points[1]).toMatchObject({
+      convertedLeads: 1,
+      conversionRate: 25,
+      revenue: 250,
+    });
+    expect(getEarliestLeadDate).not.toHaveBeenCalled();
+  });
+
+  it('builds one series per group key, sorted by label', async () => {
+    jest
+      .mocked(getTimeSeriesTotals)
+      .mockResolvedValue([
+        totals(0, '2', 'Westlands', 3, 0, 0),
+        totals(0, '1', 'Karen', 1, 1, 80),
+        totals(2, '2', 'Westlands', 2, 1, 40),
+      ]);
+
+    const result = await getTimeSeriesData(march, 'day', 'branch');
+
+    expect(result.series.map((series) => [series.key, series.label])).toEqual([
+      ['1', 'Karen'],
+      ['2', 'Westlands'],
+    ]);
+    expect(result.series[1].points.map((point) => point.leads)).toEqual([3, 0, 2]);
+  });
+
+  it('rejects too many buckets before querying', async () => {
+    await expect(
+      getTimeSeriesData({ startDate: '2000-01-01', endDate: '2024-01-01' }, 'day')
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(getEarliestLeadDate).not.toHaveBeenCalled();
+    expect(getTimeSeriesTotals).not.toHaveBeenCalled();
+  });
+
+  it('starts open-ended windows at the earliest matching lead', async () => {
+    jest.mocked(getEarliestLeadDate).mockResolvedValue(new Date('1990-01-01T00:00:00.000Z'));
+
+    await expect(getTimeSeriesData({ dateRange: 'all' }, 'day')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(getTimeSeriesTotals).not.toHaveBeenCalled();
+  });
+
+  it('returns no series points when no lead matches an open-ended window', async () => {
+    jest.mocked(getEarliestLeadDate).mockResolvedValue(null);
+
+    const result = await getTimeSeriesData({ dateRange: 'all' }, 'month');
+
+    expect(result.series[0].points).toEqual([]);
+  });
+
+  it('rejects reporting and lead currencies without rates', async () => {
+    await expect(getTimeSeriesData({ ...march, currency: 'EUR' }, 'day')).rejects.toMatchObject({
+      statusCode: 422,
+    });
+    expect(getTimeSeriesTotals).not.toHaveBeenCalled();
+
+    jest
+      .mocked(getTimeSeriesTotals)
+      .mockResolvedValue([
+        { ...totals(0, null, 'All leads', 1, 1, 0), unconvertedCurrency: 'GBP' },
+      ]);
+    await expect(getTimeSeriesData({ ...march, currency: 'USD' }, 'day')).rejects.toThrow(
+      'No FX rates loaded for GBP'
+    );
+  });
+});
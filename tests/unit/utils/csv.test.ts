@@ -0,0 +1,56 @@
+import { normalizeHeader, parseCsv } from '../../../src/utils/csv';
+
+describe('normalizeHeader', () => {
+  it('matches headers regardless of case, spaces and underscores', () => {
+    expect(normalizeHeader('Created At')).toBe('createdat');
+    expect(normalizeHeader('created_at')).toBe('createdat');
+    expect(normalizeHeader('createdAt')).toBe('createdat');
+  });
+});
+
+describe('parseCsv', () => {
+  it('keys records by normalised header and trims values', () => {
+    const { headers, records } = parseCsv('Branch Name,Revenue\n Downtown , 100\nWestlands,250\n');
+
+    expect(headers).toEqual(['branchname', 'revenue']);
+    expect(records).toEqual([
+      { line: 2, values: { branchname: 'Downtown', revenue: '100' } },
+      { line: 3, values: { branchname: 'Westlands', revenue: '250' } },
+    ]);
+  });
+
+  it('handles quoted commas, escaped quotes and line breaks inside quotes', () => {
+    const { records } = parseCsv(
+      'name,notes\n"Smith, Jane","said ""call back""\nnext week"\nDoe,ok'
+    );
+
+    expect(records[0].values).toEqual({
+      name: 'Smith, Jane',
+      notes: 'said "call back"\nnext week',
+    });
+    // The second record starts after the quoted line break
+    expect(records[1]).toEqual({ line: 4, values: { name: 'Doe', notes: 'ok' } });
+  });
+
+  it('accepts CRLF line endings and a byte order mark', () => {
+    const { headers, records } = parseCsv('\uFEFFa,b\r\n1,2\r\n');
+
+    expect(headers).toEqual(['a', 'b']);
+    expect(records).toEqual([{ line: 2, values: { a: '1', b: '2' } }]);
+  });
+
+  it('skips blank lines but keeps line numbers', () => {
+    const { records } = parseCsv('a,b\n\n1,2\n , \n3,4');
+
+    expect(records.map((record) => record.line)).toEqual([3, 5]);
+  });
+
+  it('fills missing cells with empty strings', () => {
+    expect(parseCsv('a,b,c\n1').records[0].values).toEqual({ a: '1', b: '', c: '' });
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseCsv('')).toEqual({ headers: [], records: [] });
+    expect(parseCsv('\n\n')).toEqual({ headers: [], records: [] });
+  });
+});
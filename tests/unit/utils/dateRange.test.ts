@@ -0,0 +1,229 @@
+import {
+  formatDateWindow,
+  getCalendarBuckets,
+  getComparisonWindow,
+  isDateBound,
+  parseDateBound,
+  resolveDateWindow,
+  splitDateWindow,
+} from '../../../src/utils/dateRange';
+
+// Report in Nairobi time (UTC+3, no DST) with a fiscal year starting in July
+jest.mock('../../../src/config/app.config', () => ({
+  appConfig: { timezone: 'Africa/Nairobi', fiscalYearStartMonth: 7 },
+}));
+
+const utc = (value: string): Date => new Date(value);
+
+describe('parseDateBound', () => {
+  it('reads dates as local midnight', () => {
+    expect(parseDateBound('2024-03-01', 'start')).toEqual(utc('2024-02-29T21:00:00Z'));
+  });
+
+  it('makes a date-only end bound cover the whole day', () => {
+    expect(parseDateBound('2024-03-31', 'end')).toEqual(utc('2024-03-31T21:00:00Z'));
+  });
+
+  it('reads timestamps without an offset as local time', () => {
+    expect(parseDateBound('2024-03-01T10:00', 'start')).toEqual(utc('2024-03-01T07:00:00Z'));
+    expect(parseDateBound('2024-03-01T10:00:00', 'end')).toEqual(utc('2024-03-01T07:00:00Z'));
+  });
+
+  it('keeps timestamps with an offset as given', () => {
+    expect(parseDateBound('2024-03-01T10:00:00Z', 'start')).toEqual(utc('2024-03-01T10:00:00Z'));
+    expect(parseDateBound('2024-03-01T10:00:00+01:00', 'end')).toEqual(utc('2024-03-01T09:00:00Z'));
+  });
+});
+
+describe('isDateBound', () => {
+  it.each([
+    '2024-02-29',
+    '2024-03-01T10:00',
+    '2024-03-01T10:00:00.500',
+    '2024-03-01T10:00:00+03:00',
+  ])('accepts %s', (value) => {
+    expect(isDateBound(value)).toBe(true);
+  });
+
+  it.each([
+    '2023-02-29',
+    '2024-02-30',
+    '2024-03',
+    '2024-W10',
+    '2024-03-01 10:00',
+    '2024-03-01T25:00',
+    '2024-03-01T10:60',
+    '',
+  ])('rejects %s', (value) => {
+    expect(isDateBound(value)).toBe(false);
+  });
+
+  it('rejects values that are not strings', () => {
+    expect(isDateBound(20240301)).toBe(false);
+    expect(isDateBound(undefined)).toBe(false);
+  });
+});
+
+describe('resolveDateWindow', () => {
+  const now = utc('2024-03-15T12:00:00Z');
+
+  it('prefers explicit dates over the preset', () => {
+    expect(
+      resolveDateWindow(
+        { dateRange: 'last7days', startDate: '2024-03-01', endDate: '2024-03-02' },
+        now
+      )
+    ).toEqual({ start: utc('2024-02-29T21:00:00Z'), end: utc('2024-03-02T21:00:00Z') });
+  });
+
+  it('ends at now without an end date and stays open without a start date', () => {
+    expect(resolveDateWindow({ startDate: '2024-03-01' }, now)).toEqual({
+      start: utc('2024-02-29T21:00:00Z'),
+      end: now,
+    });
+    expect(resolveDateWindow({ endDate: '2024-03-01' }, now)).toEqual({
+      start: undefined,
+      end: utc('2024-03-01T21:00:00Z'),
+    });
+  });
+
+  it('leaves all-time windows open', () => {
+    expect(resolveDateWindow({}, now)).toEqual({ end: now });
+    expect(resolveDateWindow({ dateRange: 'all' }, now)).toEqual({ end: now });
+  });
+
+  it('counts rolling presets back from now', () => {
+    expect(resolveDateWindow({ dateRange: 'last7days' }, now)).toEqual({
+      start: utc('2024-03-08T12:00:00Z'),
+      end: now,
+    });
+  });
+
+  it('starts calendar months at local midnight', () => {
+    // 01:00 on 1 March in Nairobi is still 29 February in UTC
+    const earlyMarch = utc('2024-02-29T22:00:00Z');
+
+    expect(resolveDateWindow({ dateRange: 'thisMonth' }, earlyMarch)).toEqual({
+      start: utc('2024-02-29T21:00:00Z'),
+      end: earlyMarch,
+    });
+    expect(resolveDateWindow({ dateRange: 'lastMonth' }, earlyMarch)).toEqual({
+      start: utc('2024-01-31T21:00:00Z'),
+      end: utc('2024-02-29T21:00:00Z'),
+    });
+  });
+
+  it('follows the fiscal year for quarters and years', () => {
+    expect(resolveDateWindow({ dateRange: 'quarterToDate' }, now).start).toEqual(
+      utc('2023-12-31T21:00:00Z')
+    );
+    expect(resolveDateWindow({ dateRange: 'yearToDate' }, now).start).toEqual(
+      utc('2023-06-30T21:00:00Z')
+    );
+    expect(resolveDateWindow({ dateRange: 'lastFiscalQuarter' }, now)).toEqual({
+      start: utc('2023-09-30T21:00:00Z'),
+      end: utc('2023-12-31T21:00:00Z'),
+    });
+  });
+});
+
+describe('getComparisonWindow', () => {
+  const window = { start: utc('2024-02-29T21:00:00Z'), end: utc('2024-03-31T21:00:00Z') };
+
+  it('compares with the window of the same length just before', () => {
+    expect(getComparisonWindow(window)).toEqual({
+      start: utc('2024-01-29T21:00:00Z'),
+      end: window.start,
+    });
+  });
+
+  it('compares with the same local dates a year earlier', () => {
+    expect(getComparisonWindow(window, 'previousYear')).toEqual({
+      start: utc('2023-02-28T21:00:00Z'),
+      end: utc('2023-03-31T21:00:00Z'),
+    });
+  });
+
+  it('moves 29 February to 1 March', () => {
+    const leapDay = { start: utc('2024-02-28T21:00:00Z'), end: utc('2024-02-29T21:00:00Z') };
+
+    expect(getComparisonWindow(leapDay, 'previousYear')?.start).toEqual(
+      utc('2023-02-28T21:00:00Z')
+    );
+  });
+
+  it('has nothing to compare an open window with', () => {
+    expect(getComparisonWindow({ end: window.end })).toBeNull();
+  });
+});
+
+describe('splitDateWindow', () => {
+  it('splits a window into local days labelled by date', () => {
+    const periods = splitDateWindow(utc('2024-02-29T21:00:00Z'), utc('2024-03-07T21:00:00Z'), 7);
+
+    expect(periods).toHaveLength(7);
+    expect(periods[0]).toEqual({
+      start: utc('2024-02-29T21:00:00Z'),
+      end: utc('2024-03-01T21:00:00Z'),
+      label: '2024-03-01',
+    });
+    expect(periods[6].end).toEqual(utc('2024-03-07T21:00:00Z'));
+  });
+
+  it('labels periods shorter than a day with their time', () => {
+    const periods = splitDateWindow(utc('2024-03-01T06:00:00Z'), utc('2024-03-01T12:00:00Z'), 3);
+
+    expect(periods.map((period) => period.label)).toEqual([
+      '2024-03-01 09:00',
+      '2024-03-01 11:00',
+      '2024-03-01 13:00',
+    ]);
+  });
+});
+
+describe('formatDateWindow', () => {
+  it('shows the last included day for windows on day boundaries', () => {
+    expect(
+      formatDateWindow({ start: utc('2024-02-29T21:00:00Z'), end: utc('2024-03-31T21:00:00Z') })
+    ).toBe('2024-03-01 to 2024-03-31');
+  });
+
+  it('shows times otherwise', () => {
+    expect(
+      formatDateWindow({ start: utc('2024-03-01T07:00:00Z'), end: utc('2024-03-01T09:30:00Z') })
+    ).toBe('2024-03-01 10:00 to 2024-03-01 12:30');
+  });
+});
+
+describe('getCalendarBuckets', () => {
+  const start = utc('2024-03-06T09:00:00Z'); // a Wednesday
+  const end = utc('2024-03-20T09:00:00Z');
+
+  it('starts weeks on the Monday before the start', () => {
+    const weeks = getCalendarBuckets(start, end, 'week');
+
+    expect(weeks.map((week) => week.label)).toEqual(['2024-03-04', '2024-03-11', '2024-03-18']);
+    expect(weeks[0].start).toEqual(utc('2024-03-03T21:00:00Z'));
+    expect(weeks[2].end).toEqual(utc('2024-03-24T21:00:00Z'));
+  });
+
+  it('labels months by year and month', () => {
+    const months = getCalendarBuckets(
+      utc('2024-01-20T00:00:00Z'),
+      utc('2024-03-02T00:00:00Z'),
+      'month'
+    );
+
+    expect(months.map((month) => month.label)).toEqual(['2024-01', '2024-02', '2024-03']);
+  });
+
+  it('covers every local day the window touches', () => {
+    const days = getCalendarBuckets(
+      utc('2024-03-01T20:00:00Z'),
+      utc('2024-03-02T22:00:00Z'),
+      'day'
+    );
+
+    expect(days.map((day) => day.label)).toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+  });
+});
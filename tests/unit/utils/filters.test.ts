@@ -0,0 +1,50 @@
+import {
+  mergeValueFilters,
+  parseIdFilter,
+  parseValueFilter,
+  serializeFilters,
+  splitFilterValues,
+} from '../../../src/utils/filters';
+
+describe('splitFilterValues', () => {
+  it('accepts repeated and comma-separated values', () => {
+    expect(splitFilterValues(['a, b', 'c', ''])).toEqual(['a', 'b', 'c']);
+    expect(splitFilterValues(undefined)).toEqual([]);
+  });
+});
+
+describe('parseValueFilter', () => {
+  it('sorts, de-duplicates and splits out exclusions', () => {
+    expect(parseValueFilter('b,a,b,!c')).toEqual({ in: ['a', 'b'], notIn: ['c'] });
+  });
+
+  it('returns nothing for empty values', () => {
+    expect(parseValueFilter('!, ,')).toBeUndefined();
+  });
+});
+
+describe('parseIdFilter', () => {
+  it('keeps positive integer IDs only', () => {
+    expect(parseIdFilter('3,1,0,-2,x,!7')).toEqual({ in: [1, 3], notIn: [7] });
+  });
+});
+
+describe('mergeValueFilters', () => {
+  it('intersects inclusions and unions exclusions', () => {
+    expect(mergeValueFilters({ in: [1, 2, 3], notIn: [9] }, { in: [2, 3, 4], notIn: [8] })).toEqual(
+      {
+        in: [2, 3],
+        notIn: [8, 9],
+      }
+    );
+    expect(mergeValueFilters(undefined, { in: [1] })).toEqual({ in: [1] });
+  });
+});
+
+describe('serializeFilters', () => {
+  it('ignores property order and undefined values', () => {
+    expect(serializeFilters({ minRevenue: 5, dateRange: 'thisMonth', branch: undefined })).toBe(
+      serializeFilters({ dateRange: 'thisMonth', minRevenue: 5 })
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { fitHoltWinters, forecastHoltWinters } from '../../../src/utils/forecasting';
+
+const SEASON = [5, -3, 2, -4];
+
+/**
+ * Linear trend plus a repeating season
+ */
+const seasonalSeries = (length: number, start: number = 0): number[] =>
+  Array.from({ length }, (_, i) => 100 + 2 * (start + i) + SEASON[(start + i) % SEASON.length]);
+
+describe('fitHoltWinters', () => {
+  it('needs two full seasons of history', () => {
+    expect(() => fitHoltWinters([1, 2, 3, 4, 5, 6, 7], 4)).toThrow(
+      'Holt-Winters needs at least 8 observations'
+    );
+  });
+
+  it('picks smoothing parameters from the grid', () => {
+    const model = fitHoltWinters(seasonalSeries(24), 4);
+
+    expect(model.seasonLength).toBe(4);
+    expect(model.observations).toBe(24);
+    expect(model.alpha).toBeGreaterThan(0);
+    expect(model.alpha).toBeLessThan(1);
+    expect(model.residualStdDev).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('forecastHoltWinters', () => {
+  it('continues the trend and the season', () => {
+    const model = fitHoltWinters(seasonalSeries(40), 4);
+    const expected = seasonalSeries(8, 40);
+
+    forecastHoltWinters(model, 8).forEach((forecast, h) => {
+      expect(Math.abs(forecast.value - expected[h])).toBeLessThan(1);
+    });
+  });
+
+  it('forecasts a flat series as flat with no uncertainty', () => {
+    const model = fitHoltWinters(Array(12).fill(7), 4);
+
+    expect(forecastHoltWinters(model, 3)).toEqual([
+      { value: 7, stdDev: 0 },
+      { value: 7, stdDev: 0 },
+      { value: 7, stdDev: 0 },
+    ]);
+  });
+
+  it('widens the error as the horizon grows', () => {
+    const noisy = seasonalSeries(32).map((value, i) => value + (i % 3) - 1);
+    const forecasts = forecastHoltWinters(fitHoltWinters(noisy, 4), 6);
+
+    expect(forecasts[0].stdDev).toBeGreaterThan(0);
+    for (let h = 1; h < forecasts.length; h++) {
+      expect(forecasts[h].stdDev).toBeGreaterThanOrEqual(forecasts[h - 1].stdDev);
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import { buildFxConverter } from '../../../src/utils/fx';
+
+const rates = [
+  { currency: 'USD', rateDate: new Date('2024-02-01T00:00:00Z'), rate: 140 },
+  { currency: 'USD', rateDate: new Date('2024-01-01T00:00:00Z'), rate: 130 },
+  { currency: 'EUR', rateDate: new Date('2024-01-15T00:00:00Z'), rate: 150 },
+];
+
+const thrown = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe('buildFxConverter', () => {
+  it('converts into the base currency at the rate in effect on the date', () => {
+    const fx = buildFxConverter(rates, 'KES', 'KES');
+
+    expect(fx.currency).toBe('KES');
+    expect(fx.convert(10, 'USD', new Date('2024-01-20T00:00:00Z'))).toBe(1300);
+    expect(fx.convert(10, 'USD', new Date('2024-02-01T00:00:00Z'))).toBe(1400);
+    expect(fx.convert(10, 'USD', new Date('2024-06-01T00:00:00Z'))).toBe(1400);
+  });
+
+  it('uses the earliest rate for dates before the first one', () => {
+    const fx = buildFxConverter(rates, 'KES', 'KES');
+
+    expect(fx.convert(10, 'USD', new Date('2023-06-01T00:00:00Z'))).toBe(1300);
+  });
+
+  it('converts out of the base currency and across currencies through the base', () => {
+    const fx = buildFxConverter(rates, 'KES', 'USD');
+    const date = new Date('2024-02-10T00:00:00Z');
+
+    expect(fx.convert(1400, 'KES', date)).toBe(10);
+    expect(fx.convert(14, 'EUR', date)).toBe(15);
+  });
+
+  it('leaves amounts already in the target currency and zero amounts alone', () => {
+    const fx = buildFxConverter(rates, 'KES', 'USD');
+
+    expect(fx.convert(12.5, 'USD', new Date())).toBe(12.5);
+    expect(fx.convert(0, 'GBP', new Date())).toBe(0);
+  });
+
+  it('rejects a currency without rates with a 422', () => {
+    const fx = buildFxConverter(rates, 'KES', 'KES');
+
+    expect(thrown(() => fx.convert(10, 'GBP', new Date()))).toMatchObject({
+      message: 'No FX rates loaded for GBP',
+      statusCode: 422,
+    });
+  });
+
+  it('fails fast on an unsupported reporting currency', () => {
+    expect(() => buildFxConverter(rates, 'KES', 'GBP')).toThrow('No FX rates loaded for GBP');
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  histogram,
+  mean,
+  median,
+  percentile,
+  robustZScore,
+  summarisePercentiles,
+} from '../../../src/utils/statistics';
+
+describe('mean', () => {
+  it('averages values and is 0 for an empty list', () => {
+    expect(mean([1, 2, 6])).toBe(3);
+    expect(mean([])).toBe(0);
+  });
+});
+
+describe('percentile', () => {
+  it('interpolates between the closest ranks', () => {
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+    expect(percentile([4, 1, 3, 2], 75)).toBe(3.25);
+    expect(percentile([4, 1, 3, 2], 0)).toBe(1);
+    expect(percentile([4, 1, 3, 2], 100)).toBe(4);
+  });
+
+  it('does not reorder the input', () => {
+    const values = [3, 1, 2];
+    percentile(values, 50);
+
+    expect(values).toEqual([3, 1, 2]);
+  });
+
+  it('is 0 for an empty list', () => {
+    expect(percentile([], 90)).toBe(0);
+    expect(median([])).toBe(0);
+  });
+});
+
+describe('median', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([5, 1, 3, 10])).toBe(4);
+  });
+});
+
+describe('summarisePercentiles', () => {
+  it('reports the median and upper percentiles to two decimals', () => {
+    const values = Array.from({ length: 11 }, (_, i) => i / 3);
+
+    expect(summarisePercentiles(values)).toEqual({ median: 1.67, p75: 2.5, p90: 3, p95: 3.17 });
+  });
+
+  it('is all null for an empty list', () => {
+    expect(summarisePercentiles([])).toEqual({ median: null, p75: null, p90: null, p95: null });
+  });
+});
+
+describe('robustZScore', () => {
+  it('scores against the median and scaled MAD', () => {
+    expect(robustZScore(6, [1, 2, 3, 4, 5])).toBeCloseTo(3 / 1.4826);
+    expect(robustZScore(0, [1, 2, 3, 4, 5])).toBeCloseTo(-3 / 1.4826);
+  });
+
+  it('is not swayed by a single outlier in the sample', () => {
+    expect(robustZScore(6, [1, 2, 3, 4, 1000])).toBeCloseTo(3 / 1.4826);
+  });
+
+  it('falls back to the mean absolute deviation when the MAD is zero', () => {
+    expect(robustZScore(9, [5, 5, 5, 5, 9])).toBeCloseTo(4 / (1.2533 * 0.8));
+  });
+
+  it('is null for a sample without spread or without values', () => {
+    expect(robustZScore(9, [5, 5, 5])).toBeNull();
+    expect(robustZScore(9, [])).toBeNull();
+  });
+});
+
+describe('histogram', () => {
+  it('counts values into half-open bins with an open-ended last bin', () => {
+    expect(histogram([-1, 0, 0.5, 1, 2.9, 3, 10], [0, 1, 3])).toEqual([
+      { from: 0, to: 1, count: 2 },
+      { from: 1, to: 3, count: 2 },
+      { from: 3, to: null, count: 2 },
+    ]);
+  });
+
+  it('returns empty bins for no values', () => {
+    expect(histogram([], [0, 1])).toEqual([
+      { from: 0, to: 1, count: 0 },
+      { from: 1, to: null, count: 0 },
+    ]);
+  });
+});
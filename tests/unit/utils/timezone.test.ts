@@ -0,0 +1,97 @@
+import {
+  formatZonedDate,
+  getZonedParts,
+  isValidTimeZone,
+  startOfZonedDay,
+  wallClockToUtc,
+  zonedTimeToUtc,
+} from '../../../src/utils/timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and rejects anything else', () => {
+    expect(isValidTimeZone('Africa/Nairobi')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('getZonedParts', () => {
+  it('breaks an instant into wall-clock parts in the timezone', () => {
+    expect(getZonedParts(new Date('2024-03-01T02:30:15Z'), NEW_YORK)).toEqual({
+      year: 2024,
+      month: 2,
+      day: 29,
+      hour: 21,
+      minute: 30,
+      second: 15,
+      weekday: 4,
+    });
+  });
+
+  it('reports midnight as hour 0', () => {
+    expect(getZonedParts(new Date('2024-01-01T05:00:00Z'), NEW_YORK).hour).toBe(0);
+  });
+});
+
+describe('wallClockToUtc', () => {
+  it('applies the offset in effect at the wall-clock time', () => {
+    expect(wallClockToUtc(Date.UTC(2024, 0, 15, 9), NEW_YORK)).toEqual(
+      new Date('2024-01-15T14:00:00Z')
+    );
+    expect(wallClockToUtc(Date.UTC(2024, 6, 15, 9), NEW_YORK)).toEqual(
+      new Date('2024-07-15T13:00:00Z')
+    );
+  });
+
+  it('lands on the right side of a DST change', () => {
+    // Clocks went forward at 02:00 on 10 March 2024
+    expect(wallClockToUtc(Date.UTC(2024, 2, 10, 1, 30), NEW_YORK)).toEqual(
+      new Date('2024-03-10T06:30:00Z')
+    );
+    expect(wallClockToUtc(Date.UTC(2024, 2, 10, 3, 30), NEW_YORK)).toEqual(
+      new Date('2024-03-10T07:30:00Z')
+    );
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('defaults to midnight on the first of the month', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 11 }, NEW_YORK)).toEqual(
+      new Date('2024-11-01T04:00:00Z')
+    );
+  });
+
+  it('rolls out-of-range fields over', () => {
+    expect(zonedTimeToUtc({ year: 2024, month: 0 }, 'UTC')).toEqual(
+      new Date('2023-12-01T00:00:00Z')
+    );
+    expect(zonedTimeToUtc({ year: 2024, month: 2, day: 30 }, 'UTC')).toEqual(
+      new Date('2024-03-01T00:00:00Z')
+    );
+  });
+});
+
+describe('startOfZonedDay', () => {
+  it('finds local midnight, which is not UTC midnight', () => {
+    expect(startOfZonedDay(new Date('2024-03-01T02:30:00Z'), NEW_YORK)).toEqual(
+      new Date('2024-02-29T05:00:00Z')
+    );
+  });
+
+  it('handles days that are shorter because of DST', () => {
+    expect(startOfZonedDay(new Date('2024-03-10T20:00:00Z'), NEW_YORK)).toEqual(
+      new Date('2024-03-10T05:00:00Z')
+    );
+  });
+});
+
+describe('formatZonedDate', () => {
+  it('formats the local date, with the time when asked', () => {
+    const date = new Date('2024-03-01T02:05:00Z');
+
+    expect(formatZonedDate(date, NEW_YORK)).toBe('2024-02-29');
+    expect(formatZonedDate(date, NEW_YORK, true)).toBe('2024-02-29 21:05');
+  });
+});